@@ -101,3 +101,64 @@ create table graphile_postgis_test.test_mutations (
   area geometry(polygon)
 );
 
+
+-- Table for testing per-column configuration with smart tags
+create table graphile_postgis_test.test_column_options (
+  id serial primary key,
+  location geometry(point, 4326),
+  boundary geometry(polygon, 4326)
+);
+
+comment on column graphile_postgis_test.test_column_options.location is
+  E'@postgisPrecision 2\n@postgisOutputSrid 3857\n@postgisInput wkt,ewkt';
+comment on column graphile_postgis_test.test_column_options.boundary is
+  E'@postgisOmit area,wkt';
+
+insert into graphile_postgis_test.test_column_options (location, boundary) values (
+  ST_GeomFromText('POINT (30.123456 10.123456)', 4326),
+  ST_GeomFromText('POLYGON ((30 10, 40 40, 20 40, 10 20, 30 10))', 4326)
+);
+
+-- Tables for testing spatial relations with smart tags
+create table graphile_postgis_test.test_districts (
+  id serial primary key,
+  name text,
+  boundary geometry(polygon, 4326)
+);
+
+create table graphile_postgis_test.test_parcels (
+  id serial primary key,
+  name text,
+  location geometry(point, 4326)
+);
+
+comment on table graphile_postgis_test.test_parcels is
+  E'@spatialRelation district test_parcels.location ST_Within test_districts.boundary';
+
+insert into graphile_postgis_test.test_districts (name, boundary) values
+  ('west', ST_GeomFromText('POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))', 4326)),
+  ('east', ST_GeomFromText('POLYGON ((10 0, 20 0, 20 10, 10 10, 10 0))', 4326));
+
+insert into graphile_postgis_test.test_parcels (name, location) values
+  ('a', ST_GeomFromText('POINT (2 2)', 4326)),
+  ('b', ST_GeomFromText('POINT (5 5)', 4326)),
+  ('c', ST_GeomFromText('POINT (15 5)', 4326)),
+  ('d', ST_GeomFromText('POINT (30 30)', 4326));
+
+create table graphile_postgis_test.test_places (
+  id serial primary key,
+  category text,
+  location geometry(point, 4326),
+  position geography(point, 4326),
+  boundary geometry(polygon, 4326)
+);
+
+insert into graphile_postgis_test.test_places (category, location, position, boundary) values
+  ('park', ST_GeomFromText('POINT (0 0)', 4326), 'SRID=4326;POINT (0 0)',
+    ST_GeomFromText('POLYGON ((0 0, 1 0, 1 1, 0 1, 0 0))', 4326)),
+  ('park', ST_GeomFromText('POINT (2 0)', 4326), 'SRID=4326;POINT (2 0)',
+    ST_GeomFromText('POLYGON ((2 0, 3 0, 3 1, 2 1, 2 0))', 4326)),
+  ('shop', ST_GeomFromText('POINT (10 10)', 4326), 'SRID=4326;POINT (10 10)',
+    ST_GeomFromText('POLYGON ((10 10, 11 10, 11 11, 10 11, 10 10))', 4326)),
+  ('shop', ST_GeomFromText('POINT (10 12)', 4326), 'SRID=4326;POINT (10 12)',
+    ST_GeomFromText('POLYGON ((10 12, 11 12, 11 13, 10 13, 10 12))', 4326));
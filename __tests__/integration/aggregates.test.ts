@@ -0,0 +1,138 @@
+/**
+ * Integration tests for spatial aggregates.
+ *
+ * Tests that PostgisAggregatesPlugin adds the spatial aggregates of PostGIS
+ * columns to the `aggregates` and `groupedAggregates` of
+ * @graphile/pg-aggregates.
+ */
+
+import { PgAggregatesPreset } from "@graphile/pg-aggregates";
+import { withPgPool } from "../helpers";
+import { createPostGraphileSchema, executeGraphQLQuery } from "./helpers";
+
+describe("PostGIS Aggregates Integration Tests", () => {
+  let schema: any;
+  let resolvedPreset: any;
+
+  beforeAll(async () => {
+    await withPgPool(async (pool) => {
+      const result = await createPostGraphileSchema(
+        pool,
+        ["graphile_postgis_test"],
+        {},
+        [PgAggregatesPreset]
+      );
+      schema = result.schema;
+      resolvedPreset = result.resolvedPreset;
+    });
+  });
+
+  it("should type the aggregates like unconstrained columns", () => {
+    const extentFields = schema
+      .getType("TestPlaceExtentAggregates")
+      .getFields();
+    expect(String(extentFields.location.type)).toBe("GeometryInterface");
+    expect(String(extentFields.position.type)).toBe("GeometryInterface");
+    const centroidFields = schema
+      .getType("TestPlaceCentroidAggregates")
+      .getFields();
+    expect(String(centroidFields.location.type)).toBe("GeometryPoint");
+    expect(String(centroidFields.position.type)).toBe("GeographyPoint");
+  });
+
+  it("should aggregate geometry and geography columns", async () => {
+    const query = `
+      query {
+        allTestPlaces {
+          aggregates {
+            extent {
+              location { __typename geojson }
+              position { __typename geojson }
+            }
+            union {
+              location { __typename }
+            }
+            collect {
+              position { __typename }
+            }
+            centroid {
+              location { x y }
+              position { x y }
+            }
+            convexHull {
+              location { __typename }
+            }
+          }
+        }
+      }
+    `;
+
+    const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+    expect(result.errors).toBeUndefined();
+    const { aggregates } = result.data.allTestPlaces;
+    expect(aggregates.extent.location).toEqual({
+      __typename: "GeometryPolygon",
+      geojson: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [0, 12],
+            [10, 12],
+            [10, 0],
+            [0, 0],
+          ],
+        ],
+      },
+    });
+    expect(aggregates.extent.position.__typename).toBe("GeographyPolygon");
+    expect(aggregates.union.location.__typename).toBe("GeometryMultiPoint");
+    expect(aggregates.collect.position.__typename).toBe("GeographyMultiPoint");
+    expect(aggregates.centroid.location).toEqual({ x: 5.5, y: 5.5 });
+    expect(aggregates.centroid.position).toEqual({ x: 5.5, y: 5.5 });
+    expect(aggregates.convexHull.location.__typename).toBe("GeometryPolygon");
+  });
+
+  it("should aggregate each group", async () => {
+    const query = `
+      query {
+        allTestPlaces {
+          groupedAggregates(groupBy: [CATEGORY]) {
+            keys
+            centroid {
+              location { x y }
+              position { x y }
+            }
+            extent {
+              position { geojson }
+            }
+          }
+        }
+      }
+    `;
+
+    const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+    expect(result.errors).toBeUndefined();
+    const groups = [...result.data.allTestPlaces.groupedAggregates].sort(
+      (a: any, b: any) => a.keys[0].localeCompare(b.keys[0])
+    );
+    expect(groups.map((group: any) => group.keys)).toEqual([
+      ["park"],
+      ["shop"],
+    ]);
+    expect(groups[0].centroid).toEqual({
+      location: { x: 1, y: 0 },
+      position: { x: 1, y: 0 },
+    });
+    expect(groups[1].centroid.location).toEqual({ x: 10, y: 11 });
+    expect(groups[1].extent.position.geojson).toEqual({
+      type: "LineString",
+      coordinates: [
+        [10, 10],
+        [10, 12],
+      ],
+    });
+  });
+});
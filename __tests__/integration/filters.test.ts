@@ -0,0 +1,361 @@
+/**
+ * Integration tests for PostGIS spatial filter operators.
+ *
+ * Tests that PostGIS geometry columns can be filtered through
+ * postgraphile-plugin-connection-filter using GeoJSON values.
+ */
+
+import { PostGraphileConnectionFilterPreset } from "postgraphile-plugin-connection-filter";
+import { withPgPool } from "../helpers";
+import { createPostGraphileSchema, executeGraphQLQuery } from "./helpers";
+
+describe("PostGIS Filter Integration Tests", () => {
+  let schema: any;
+  let resolvedPreset: any;
+
+  beforeAll(async () => {
+    await withPgPool(async (pool) => {
+      const result = await createPostGraphileSchema(
+        pool,
+        ["graphile_postgis_test"],
+        {},
+        [PostGraphileConnectionFilterPreset]
+      );
+      schema = result.schema;
+      resolvedPreset = result.resolvedPreset;
+    });
+  });
+
+  describe("Spatial relationship operators", () => {
+    it("should filter Point geometry with intersects", async () => {
+      const query = `
+        query {
+          allTestGeometries(
+            filter: {
+              geomPoint: { intersects: { type: "Point", coordinates: [30, 10] } }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.allTestGeometries.nodes.length).toBeGreaterThan(0);
+    });
+
+    it("should filter Point geometry with within and disjoint", async () => {
+      const query = `
+        query {
+          within: allTestGeometries(
+            filter: {
+              geomPoint: {
+                within: {
+                  type: "Polygon"
+                  coordinates: [[[0, 0], [50, 0], [50, 50], [0, 50], [0, 0]]]
+                }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+          disjoint: allTestGeometries(
+            filter: {
+              geomPoint: {
+                disjoint: {
+                  type: "Polygon"
+                  coordinates: [[[0, 0], [50, 0], [50, 50], [0, 50], [0, 0]]]
+                }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.within.nodes.length).toBeGreaterThan(0);
+      expect(result.data.disjoint.nodes).toEqual([]);
+    });
+
+    it("should filter Polygon geometry with contains and containedBy", async () => {
+      const query = `
+        query {
+          contains: allTestGeometries(
+            filter: {
+              geomPolygon: { contains: { type: "Point", coordinates: [40, 40] } }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+          containedBy: allTestGeometries(
+            filter: {
+              geomPolygon: {
+                containedBy: {
+                  type: "Polygon"
+                  coordinates: [[[0, 0], [50, 0], [50, 50], [0, 50], [0, 0]]]
+                }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.contains.nodes.length).toBeGreaterThan(0);
+      expect(result.data.containedBy.nodes.length).toBeGreaterThan(0);
+    });
+
+    it("should respect the column SRID", async () => {
+      const query = `
+        query {
+          allTestGeometries(
+            filter: {
+              geomPoint4326: { equals: { type: "Point", coordinates: [30, 10] } }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.allTestGeometries.nodes.length).toBeGreaterThan(0);
+    });
+
+    it("should transform values that declare their SRID", async () => {
+      // A web-mercator square around (30, 10)
+      const query = `
+        query {
+          allTestGeometries(
+            filter: {
+              geomPoint4326: {
+                within: {
+                  type: "Polygon"
+                  coordinates: [[[3300000, 1100000], [3400000, 1100000], [3400000, 1150000], [3300000, 1150000], [3300000, 1100000]]]
+                  crs: { type: "name", properties: { name: "EPSG:3857" } }
+                }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.allTestGeometries.nodes.length).toBeGreaterThan(0);
+    });
+
+    it("should filter geography columns", async () => {
+      const query = `
+        query {
+          intersects: allTestGeometries(
+            filter: {
+              geogPoint: { intersects: { type: "Point", coordinates: [30, 10] } }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+          touches: allTestGeometries(
+            filter: {
+              geogPoint: { touches: { type: "Point", coordinates: [30, 10] } }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.intersects.nodes.length).toBeGreaterThan(0);
+      expect(result.data.touches.nodes).toEqual([]);
+    });
+  });
+
+  describe("dWithin operator", () => {
+    it("should filter geometry within a distance", async () => {
+      const query = `
+        query {
+          near: allTestGeometries(
+            filter: {
+              geomPoint: {
+                dWithin: {
+                  geometry: { type: "Point", coordinates: [31, 10] }
+                  distance: 2
+                }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+          far: allTestGeometries(
+            filter: {
+              geomPoint: {
+                dWithin: {
+                  geometry: { type: "Point", coordinates: [31, 10] }
+                  distance: 0.5
+                }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.near.nodes.length).toBeGreaterThan(0);
+      expect(result.data.far.nodes).toEqual([]);
+    });
+
+    it("should measure geography distances in meters", async () => {
+      const query = `
+        query {
+          allTestGeometries(
+            filter: {
+              geogPoint: {
+                dWithin: {
+                  geometry: { type: "Point", coordinates: [30.001, 10] }
+                  distance: 500
+                }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.allTestGeometries.nodes.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("Bounding box operators", () => {
+    it("should filter with bounding box operators", async () => {
+      const query = `
+        query {
+          intersects: allTestGeometries(
+            filter: {
+              geomPoint: {
+                bboxIntersects: { xmin: 0, ymin: 0, xmax: 50, ymax: 50 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+          rightOf: allTestGeometries(
+            filter: {
+              geomPoint: {
+                bboxRightOf: { xmin: 0, ymin: 0, xmax: 10, ymax: 10 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+          above: allTestGeometries(
+            filter: {
+              geomPoint: {
+                bboxAbove: { xmin: 0, ymin: 0, xmax: 10, ymax: 10 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.intersects.nodes.length).toBeGreaterThan(0);
+      expect(result.data.rightOf.nodes.length).toBeGreaterThan(0);
+      expect(result.data.above.nodes).toEqual([]);
+    });
+
+    it("should compare geography columns with envelopes", async () => {
+      const query = `
+        query {
+          intersects: allTestGeometries(
+            filter: {
+              geogPolygon: {
+                bboxIntersects: { xmin: 0, ymin: 0, xmax: 50, ymax: 50 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+          containedBy: allTestGeometries(
+            filter: {
+              geogPoint: {
+                bboxContainedBy: { xmin: 0, ymin: 0, xmax: 50, ymax: 50 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.intersects.nodes.length).toBeGreaterThan(0);
+      expect(result.data.containedBy.nodes.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -282,5 +282,608 @@ describe("PostGIS Mutation Integration Tests", () => {
       expect(result.errors!.length).toBeGreaterThan(0);
     });
   });
-});
 
+  describe("Well-known input formats", () => {
+    const createLocation = (location: string) => `
+      mutation {
+        createTestMutation(
+          input: {
+            testMutation: {
+              name: "Well-known"
+              location: ${JSON.stringify(location)}
+            }
+          }
+        ) {
+          testMutation {
+            location {
+              srid
+              x
+              y
+            }
+          }
+        }
+      }
+    `;
+
+    it.each([
+      ["WKT", "POINT(30 10)"],
+      ["EWKT", "SRID=4326;POINT(30 10)"],
+      ["EWKT with an unknown SRID", "SRID=0;POINT(30 10)"],
+      ["WKB", "01010000000000000000003e400000000000002440"],
+      ["EWKB", "0101000020e61000000000000000003e400000000000002440"],
+    ])("should create a record from %s", async (_format, location) => {
+      const result = await executeGraphQLQuery(
+        schema,
+        resolvedPreset,
+        createLocation(location)
+      );
+
+      expect(result.errors).toBeUndefined();
+      const created = result.data.createTestMutation.testMutation.location;
+      expect(created.srid).toBe(4326);
+      expect(created.x).toBe(30);
+      expect(created.y).toBe(10);
+    });
+
+    it.each([
+      ["WKT", "POINT(30 10"],
+      ["EWKT", "SRID=4326;POINT(30 10"],
+      ["WKB", "0101"],
+    ])("should reject malformed %s", async (format, location) => {
+      const mutation = `
+        mutation ($location: GeometryInput) {
+          createTestMutation(
+            input: { testMutation: { name: "Malformed", location: $location } }
+          ) {
+            testMutation {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(
+        schema,
+        resolvedPreset,
+        mutation,
+        { location }
+      );
+
+      expect(result.errors).toBeDefined();
+      expect(result.errors![0].message).toContain(`Invalid ${format}:`);
+    });
+
+    it("should reject a mismatched geometry type", async () => {
+      const result = await executeGraphQLQuery(
+        schema,
+        resolvedPreset,
+        createLocation("LINESTRING(30 10, 10 30)")
+      );
+
+      expect(result.errors).toBeDefined();
+      expect(result.errors![0].message).toContain("column expects 'Point'");
+    });
+  });
+
+  describe("Column options", () => {
+    const createColumnOptions = (location: string) => `
+      mutation {
+        createTestColumnOption(
+          input: { testColumnOption: { location: ${JSON.stringify(location)} } }
+        ) {
+          testColumnOption {
+            location {
+              srid
+            }
+          }
+        }
+      }
+    `;
+
+    it("should accept the input formats of the column", async () => {
+      const result = await executeGraphQLQuery(
+        schema,
+        resolvedPreset,
+        createColumnOptions("SRID=4326;POINT(30 10)")
+      );
+
+      expect(result.errors).toBeUndefined();
+      expect(
+        result.data.createTestColumnOption.testColumnOption.location.srid
+      ).toBe(3857);
+    });
+
+    it("should reject other input formats", async () => {
+      const result = await executeGraphQLQuery(
+        schema,
+        resolvedPreset,
+        createColumnOptions('{"type":"Point","coordinates":[30,10]}')
+      );
+
+      expect(result.errors).toBeDefined();
+      expect(result.errors![0].message).toContain(
+        "'location' does not accept GEOJSON input; it accepts WKT, EWKT"
+      );
+    });
+  });
+
+  describe("Feature input", () => {
+    it("should create a record from a Feature", async () => {
+      const mutation = `
+        mutation {
+          createTestMutation(
+            input: {
+              testMutation: {
+                name: "Feature"
+                location: {
+                  type: "Feature"
+                  geometry: { type: "Point", coordinates: [30, 10] }
+                  properties: { name: "Ignored" }
+                }
+              }
+            }
+          ) {
+            testMutation {
+              name
+              location {
+                x
+                y
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, mutation);
+
+      expect(result.errors).toBeUndefined();
+      const created = result.data.createTestMutation.testMutation;
+      // Properties only set columns with mapFeatureProperties
+      expect(created.name).toBe("Feature");
+      expect(created.location).toEqual({ x: 30, y: 10 });
+    });
+
+    it("should reject a FeatureCollection in a single column", async () => {
+      const mutation = `
+        mutation {
+          createTestMutation(
+            input: {
+              testMutation: {
+                location: { type: "FeatureCollection", features: [] }
+              }
+            }
+          ) {
+            testMutation {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, mutation);
+
+      expect(result.errors).toBeDefined();
+      expect(result.errors![0].message).toContain(
+        "cannot be stored in a single column"
+      );
+    });
+
+    it("should create a record per feature of a FeatureCollection", async () => {
+      const mutation = `
+        mutation ($featureCollection: GeoJSON!) {
+          createTestMutationsFromFeatureCollection(
+            input: {
+              featureCollection: $featureCollection
+              clientMutationId: "bulk"
+            }
+          ) {
+            clientMutationId
+            testMutations {
+              name
+              location {
+                srid
+                x
+                y
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(
+        schema,
+        resolvedPreset,
+        mutation,
+        {
+          featureCollection: {
+            type: "FeatureCollection",
+            features: [
+              {
+                type: "Feature",
+                geometry: { type: "Point", coordinates: [30, 10] },
+                properties: { name: "First", unknown: true },
+              },
+              {
+                type: "Feature",
+                geometry: {
+                  type: "Point",
+                  coordinates: [0, 0],
+                  crs: { type: "name", properties: { name: "EPSG:3857" } },
+                },
+                properties: null,
+              },
+            ],
+          },
+        }
+      );
+
+      expect(result.errors).toBeUndefined();
+      const payload = result.data.createTestMutationsFromFeatureCollection;
+      expect(payload.clientMutationId).toBe("bulk");
+      expect(payload.testMutations).toEqual([
+        { name: "First", location: { srid: 4326, x: 30, y: 10 } },
+        { name: null, location: { srid: 4326, x: 0, y: 0 } },
+      ]);
+    });
+
+    it("should reject a FeatureCollection with an invalid feature", async () => {
+      const mutation = `
+        mutation {
+          createTestMutationsFromFeatureCollection(
+            input: {
+              featureCollection: {
+                type: "FeatureCollection"
+                features: [
+                  {
+                    type: "Feature"
+                    geometry: { type: "LineString", coordinates: [[0, 0], [1, 1]] }
+                    properties: {}
+                  }
+                ]
+              }
+            }
+          ) {
+            testMutations {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, mutation);
+
+      expect(result.errors).toBeDefined();
+      expect(result.errors![0].message).toContain("features[0]");
+    });
+
+    describe("with mapFeatureProperties", () => {
+      let mappingSchema: any;
+      let mappingPreset: any;
+
+      beforeAll(async () => {
+        await withPgPool(async (pool) => {
+          const result = await createPostGraphileSchema(
+            pool,
+            ["graphile_postgis_test"],
+            {},
+            [{ schema: { postgis: { mapFeatureProperties: true } } }]
+          );
+          mappingSchema = result.schema;
+          mappingPreset = result.resolvedPreset;
+        });
+      });
+
+      it("should set other columns from the feature's properties", async () => {
+        const mutation = `
+          mutation {
+            fromProperties: createTestMutation(
+              input: {
+                testMutation: {
+                  location: {
+                    type: "Feature"
+                    geometry: { type: "Point", coordinates: [30, 10] }
+                    properties: { name: "From properties" }
+                  }
+                }
+              }
+            ) {
+              testMutation {
+                name
+              }
+            }
+            explicit: createTestMutation(
+              input: {
+                testMutation: {
+                  name: "Explicit"
+                  location: {
+                    type: "Feature"
+                    geometry: { type: "Point", coordinates: [30, 10] }
+                    properties: { name: "From properties" }
+                  }
+                }
+              }
+            ) {
+              testMutation {
+                name
+              }
+            }
+          }
+        `;
+
+        const result = await executeGraphQLQuery(
+          mappingSchema,
+          mappingPreset,
+          mutation
+        );
+
+        expect(result.errors).toBeUndefined();
+        expect(result.data.fromProperties.testMutation.name).toBe(
+          "From properties"
+        );
+        expect(result.data.explicit.testMutation.name).toBe("Explicit");
+      });
+    });
+  });
+
+  describe("Geometry validity", () => {
+    // The hole crosses itself, which ST_IsValidDetail reports, and
+    // ST_MakeValid splits into two holes
+    const bowTieHole = `{
+      type: "Polygon"
+      coordinates: [
+        [[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]]
+        [[1, 1], [3, 3], [3, 1], [1, 3], [1, 1]]
+      ]
+    }`;
+    const mutation = `
+      mutation {
+        createTestMutation(
+          input: { testMutation: { name: "Invalid", area: ${bowTieHole} } }
+        ) {
+          testMutation {
+            name
+            area {
+              geojson
+            }
+          }
+        }
+      }
+    `;
+
+    const createSchema = async (mode: "reject" | "makeValid") => {
+      let created: any;
+      await withPgPool(async (pool) => {
+        created = await createPostGraphileSchema(
+          pool,
+          ["graphile_postgis_test"],
+          {},
+          [{ schema: { postgis: { geometryValidity: mode } } }]
+        );
+      });
+      return created;
+    };
+
+    it("should store invalid geometries by default", async () => {
+      const result = await executeGraphQLQuery(schema, resolvedPreset, mutation);
+
+      expect(result.errors).toBeUndefined();
+      expect(
+        result.data.createTestMutation.testMutation.area.geojson.coordinates
+      ).toHaveLength(2);
+    });
+
+    it("should reject invalid geometries with the reason", async () => {
+      const { schema, resolvedPreset } = await createSchema("reject");
+      const result = await executeGraphQLQuery(schema, resolvedPreset, mutation);
+
+      expect(result.errors).toBeDefined();
+      expect(result.errors![0].message).toContain("Invalid geometry for 'area'");
+      expect(result.errors![0].message).toMatch(/ at POINT\(/);
+    });
+
+    it("should repair invalid geometries with ST_MakeValid", async () => {
+      const { schema, resolvedPreset } = await createSchema("makeValid");
+      const result = await executeGraphQLQuery(schema, resolvedPreset, mutation);
+
+      expect(result.errors).toBeUndefined();
+      const created = result.data.createTestMutation.testMutation;
+      expect(created.name).toBe("Invalid");
+      expect(created.area.geojson.type).toBe("Polygon");
+      expect(created.area.geojson.coordinates).toHaveLength(3);
+    });
+
+    it("should leave the geometries an update does not set", async () => {
+      const { schema, resolvedPreset } = await createSchema("makeValid");
+      const createResult = await executeGraphQLQuery(
+        schema,
+        resolvedPreset,
+        `
+          mutation {
+            createTestMutation(
+              input: {
+                testMutation: {
+                  name: "Kept"
+                  location: { type: "Point", coordinates: [30, 10] }
+                }
+              }
+            ) {
+              testMutation {
+                id
+              }
+            }
+          }
+        `
+      );
+      const { id } = createResult.data.createTestMutation.testMutation;
+
+      const result = await executeGraphQLQuery(
+        schema,
+        resolvedPreset,
+        `
+          mutation {
+            updateTestMutationById(
+              input: { id: ${id}, testMutationPatch: { name: "Renamed" } }
+            ) {
+              testMutation {
+                name
+                location {
+                  x
+                  y
+                }
+              }
+            }
+          }
+        `
+      );
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.updateTestMutationById.testMutation).toEqual({
+        name: "Renamed",
+        location: { x: 30, y: 10 },
+      });
+    });
+
+    describe("of FeatureCollections", () => {
+      const bulkMutation = `
+        mutation {
+          createTestMutationsFromFeatureCollection(
+            input: {
+              featureCollection: {
+                type: "FeatureCollection"
+                features: [
+                  {
+                    type: "Feature"
+                    geometry: { type: "Polygon", coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] }
+                    properties: { name: "Valid" }
+                  }
+                  {
+                    type: "Feature"
+                    geometry: ${bowTieHole}
+                    properties: { name: "Invalid" }
+                  }
+                ]
+              }
+              geometryColumn: AREA
+            }
+          ) {
+            testMutations {
+              name
+              area {
+                geojson
+              }
+            }
+          }
+        }
+      `;
+
+      it("should reject invalid features with the reason", async () => {
+        const { schema, resolvedPreset } = await createSchema("reject");
+        const result = await executeGraphQLQuery(
+          schema,
+          resolvedPreset,
+          bulkMutation
+        );
+
+        expect(result.errors).toBeDefined();
+        expect(result.errors![0].message).toContain(
+          "features[1]: Invalid geometry:"
+        );
+        expect(result.errors![0].message).toMatch(/ at POINT\(/);
+      });
+
+      it("should repair invalid features with ST_MakeValid", async () => {
+        const { schema, resolvedPreset } = await createSchema("makeValid");
+        const result = await executeGraphQLQuery(
+          schema,
+          resolvedPreset,
+          bulkMutation
+        );
+
+        expect(result.errors).toBeUndefined();
+        const created =
+          result.data.createTestMutationsFromFeatureCollection.testMutations;
+        expect(created.map(({ name }: any) => name)).toEqual([
+          "Valid",
+          "Invalid",
+        ]);
+        expect(created[0].area.geojson.coordinates).toHaveLength(1);
+        expect(created[1].area.geojson.coordinates).toHaveLength(3);
+      });
+    });
+  });
+
+  describe("Structured input", () => {
+    let structuredSchema: any;
+    let structuredPreset: any;
+
+    beforeAll(async () => {
+      await withPgPool(async (pool) => {
+        const result = await createPostGraphileSchema(
+          pool,
+          ["graphile_postgis_test"],
+          {},
+          [{ schema: { postgis: { structuredInput: true } } }]
+        );
+        structuredSchema = result.schema;
+        structuredPreset = result.resolvedPreset;
+      });
+    });
+
+    it("should type the input of constrained columns by subtype", () => {
+      const inputType = structuredSchema.getType("TestMutationInput");
+      const fields = inputType.getFields();
+      expect(String(fields.location.type)).toBe("GeometryPointInput");
+      expect(String(fields.area.type)).toBe("GeometryPolygonInput");
+    });
+
+    it("should create a record from structured input", async () => {
+      const mutation = `
+        mutation {
+          createTestMutation(
+            input: {
+              testMutation: {
+                name: "Structured"
+                location: { x: 30, y: 10 }
+                area: {
+                  exterior: {
+                    points: [
+                      { x: 0, y: 0 }
+                      { x: 4, y: 0 }
+                      { x: 4, y: 4 }
+                      { x: 0, y: 0 }
+                    ]
+                  }
+                }
+              }
+            }
+          ) {
+            testMutation {
+              location {
+                geojson
+                srid
+              }
+              area {
+                geojson
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(
+        structuredSchema,
+        structuredPreset,
+        mutation
+      );
+
+      expect(result.errors).toBeUndefined();
+      const created = result.data.createTestMutation.testMutation;
+      expect(created.location.geojson).toEqual({
+        type: "Point",
+        coordinates: [30, 10],
+      });
+      expect(created.location.srid).toBe(4326);
+      expect(created.area.geojson.coordinates[0]).toHaveLength(4);
+    });
+  });
+});
@@ -85,6 +85,28 @@ describe("PostGIS Query Integration Tests", () => {
         expect(typeof firstNode.geomPoint.y).toBe("number");
       }
     });
+
+    it("should return x and y fields for geography Points", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geogPoint {
+                x
+                y
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const firstNode = result.data.allTestGeometries.nodes[0];
+      expect(firstNode.geogPoint.x).toBe(30);
+      expect(firstNode.geogPoint.y).toBe(10);
+    });
   });
 
   describe("T038: Point z field", () => {
@@ -313,6 +335,43 @@ describe("PostGIS Query Integration Tests", () => {
     });
   });
 
+  describe("Concrete types of collection members", () => {
+    it("should resolve each member to the type of its GeoJSON type", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomGeometrycollection {
+                geometries {
+                  __typename
+                  ... on GeometryPoint {
+                    x
+                    y
+                  }
+                  ... on GeometryLineString {
+                    points {
+                      x
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const { geometries } =
+        result.data.allTestGeometries.nodes[0].geomGeometrycollection;
+      expect(geometries).toEqual([
+        { __typename: "GeometryPoint", x: 4, y: 6 },
+        { __typename: "GeometryLineString", points: [{ x: 4 }, { x: 7 }] },
+      ]);
+    });
+  });
+
   describe("T052: Unconstrained geometry", () => {
     it("should handle unconstrained geometry columns with dynamic type detection", async () => {
       const query = `
@@ -340,6 +399,35 @@ describe("PostGIS Query Integration Tests", () => {
         expect(firstNode.geomUnconstrained.geojson.type).toBeDefined();
       }
     });
+
+    it("should resolve values to the type of their GeoJSON type", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomUnconstrained {
+                __typename
+                ... on GeometryPoint {
+                  x
+                  y
+                  wkt
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.allTestGeometries.nodes[0].geomUnconstrained).toEqual({
+        __typename: "GeometryPoint",
+        x: 30,
+        y: 10,
+        wkt: "POINT(30 10)",
+      });
+    });
   });
 
   describe("Null handling", () => {
@@ -369,5 +457,798 @@ describe("PostGIS Query Integration Tests", () => {
       expect(nodeWithNull).toBeDefined();
     });
   });
-});
 
+  describe("Bounding box conditions", () => {
+    it("should filter by bounding box with an envelope", async () => {
+      const query = `
+        query {
+          inside: allTestGeometries(
+            condition: {
+              geomPointBbox: {
+                intersects: { xmin: 0, ymin: 0, xmax: 50, ymax: 50 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+          outside: allTestGeometries(
+            condition: {
+              geomPointBbox: {
+                intersects: { xmin: 100, ymin: 100, xmax: 110, ymax: 110 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.inside.nodes.length).toBeGreaterThan(0);
+      expect(result.data.outside.nodes).toEqual([]);
+    });
+
+    it("should combine bounding box operators", async () => {
+      const query = `
+        query {
+          allTestGeometries(
+            condition: {
+              geomPolygonBbox: {
+                containedBy: { xmin: 0, ymin: 0, xmax: 50, ymax: 50 }
+                contains: { xmin: 20, ymin: 20, xmax: 30, ymax: 30 }
+                leftOf: { xmin: 60, ymin: 0, xmax: 70, ymax: 10 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.allTestGeometries.nodes.length).toBeGreaterThan(0);
+    });
+
+    it("should support geography columns and envelope SRIDs", async () => {
+      const query = `
+        query {
+          allTestGeometries(
+            condition: {
+              geogPointBbox: {
+                intersects: { xmin: 29, ymin: 9, xmax: 31, ymax: 11, srid: 4326 }
+              }
+            }
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.allTestGeometries.nodes.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("Distance ordering", () => {
+    it("should order by distance to a reference point", async () => {
+      const query = `
+        query ($orderBy: [TestPlacesOrderBy!]) {
+          allTestPlaces(
+            orderByDistanceFrom: { type: "Point", coordinates: [3, 0] }
+            orderBy: $orderBy
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      for (const [orderBy, ids] of [
+        ["LOCATION_DISTANCE_ASC", [2, 1, 3, 4]],
+        ["LOCATION_DISTANCE_DESC", [4, 3, 1, 2]],
+        ["POSITION_BBOX_DISTANCE_ASC", [2, 1, 3, 4]],
+      ] as const) {
+        const variables = { orderBy: [orderBy] };
+        const result = await executeGraphQLQuery(
+          schema,
+          resolvedPreset,
+          query,
+          variables
+        );
+
+        expect(result.errors).toBeUndefined();
+        expect(
+          result.data.allTestPlaces.nodes.map((node: any) => node.id)
+        ).toEqual(ids);
+      }
+    });
+
+    it("should measure from a point whatever the column's type", async () => {
+      const query = `
+        query ($orderBy: [TestPlacesOrderBy!]) {
+          allTestPlaces(
+            orderByDistanceFrom: {
+              type: "Feature"
+              geometry: { type: "Point", coordinates: [3.5, 0.5] }
+              properties: null
+            }
+            orderBy: $orderBy
+          ) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      for (const [orderBy, ids] of [
+        ["BOUNDARY_DISTANCE_ASC", [2, 1, 3, 4]],
+        ["BOUNDARY_DISTANCE_DESC", [4, 3, 1, 2]],
+      ] as const) {
+        const variables = { orderBy: [orderBy] };
+        const result = await executeGraphQLQuery(
+          schema,
+          resolvedPreset,
+          query,
+          variables
+        );
+
+        expect(result.errors).toBeUndefined();
+        expect(
+          result.data.allTestPlaces.nodes.map((node: any) => node.id)
+        ).toEqual(ids);
+      }
+    });
+
+    it("should paginate with cursors", async () => {
+      const query = `
+        query ($after: Cursor) {
+          allTestPlaces(
+            orderByDistanceFrom: { type: "Point", coordinates: [3, 0] }
+            orderBy: POSITION_DISTANCE_ASC
+            first: 2
+            after: $after
+          ) {
+            edges {
+              cursor
+              node {
+                id
+              }
+            }
+          }
+        }
+      `;
+
+      const first = await executeGraphQLQuery(schema, resolvedPreset, query);
+      expect(first.errors).toBeUndefined();
+      const edges = first.data.allTestPlaces.edges;
+      expect(edges.map((e: any) => e.node.id)).toEqual([2, 1]);
+
+      const next = await executeGraphQLQuery(schema, resolvedPreset, query, {
+        after: edges[1].cursor,
+      });
+      expect(next.errors).toBeUndefined();
+      const nextIds = next.data.allTestPlaces.edges.map((e: any) => e.node.id);
+      expect(nextIds).toEqual([3, 4]);
+    });
+
+    it("should require a reference point", async () => {
+      const query = `
+        query {
+          allTestGeometries(orderBy: GEOM_POINT_DISTANCE_ASC) {
+            nodes {
+              id
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeDefined();
+      expect(result.errors?.[0].message).toContain("orderByDistanceFrom");
+    });
+  });
+
+  describe("Measurement fields", () => {
+    it("should compute area, perimeter and length in SQL", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomPolygon {
+                area
+                perimeter
+              }
+              geomLinestring {
+                length
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const node = result.data.allTestGeometries.nodes[0];
+      expect(node.geomPolygon.area).toBeCloseTo(675);
+      expect(node.geomPolygon.perimeter).toBeCloseTo(160.1206);
+      expect(node.geomLinestring.length).toBeCloseTo(59.907);
+    });
+
+    it("should measure geography in meters with optional spheroid", async () => {
+      const query = `
+        query ($useSpheroid: Boolean) {
+          allTestGeometries {
+            nodes {
+              geogPolygon {
+                spheroid: area
+                sphere: area(useSpheroid: $useSpheroid)
+              }
+              geogLinestring {
+                length
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query, {
+        useSpheroid: false,
+      });
+
+      expect(result.errors).toBeUndefined();
+      const node = result.data.allTestGeometries.nodes[0];
+      expect(node.geogPolygon.spheroid).toBeGreaterThan(1e12);
+      expect(node.geogPolygon.sphere).toBeGreaterThan(1e12);
+      expect(node.geogPolygon.sphere).not.toBeCloseTo(node.geogPolygon.spheroid);
+      expect(node.geogLinestring.length).toBeGreaterThan(1e6);
+    });
+
+    it("should return null for nested geometries", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomMultipolygon {
+                area
+                polygons {
+                  area
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const multipolygon = result.data.allTestGeometries.nodes[0].geomMultipolygon;
+      expect(multipolygon.area).toBeGreaterThan(0);
+      expect(multipolygon.polygons[0].area).toBeNull();
+    });
+  });
+
+  describe("Distance fields", () => {
+    it("should compute distances in the requested unit", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              meters: geomPoint4326Distance(
+                to: { type: "Point", coordinates: [31, 10] }
+              )
+              kilometers: geomPoint4326Distance(
+                to: { type: "Point", coordinates: [31, 10] }
+                unit: KILOMETERS
+              )
+              miles: geogPointDistance(
+                to: { type: "Point", coordinates: [31, 10] }
+                unit: MILES
+              )
+              unpinned: geomPointDistance(
+                to: { type: "Point", coordinates: [31, 10] }
+              )
+              unpinnedDeclared: geomPointDistance(
+                to: { type: "Point", coordinates: [31, 10], srid: 4326 }
+              )
+              nullable: geomNullableDistance(
+                to: { type: "Point", coordinates: [31, 10] }
+              )
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const node = result.data.allTestGeometries.nodes[0];
+      expect(node.meters).toBeGreaterThan(109000);
+      expect(node.meters).toBeLessThan(110000);
+      expect(node.kilometers).toBeCloseTo(node.meters / 1000);
+      expect(node.miles).toBeCloseTo(node.meters / 1609.344);
+      // Without an SRID, the distance is in the units of the coordinates
+      expect(node.unpinned).toBe(1);
+      expect(node.unpinnedDeclared).toBeNull();
+      expect(node.nullable).toBeNull();
+    });
+
+    it("should honor the CRS of the reference geometry", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomPoint4326Distance(
+                to: {
+                  type: "Polygon"
+                  coordinates: [
+                    [[3339584.7, 1118889.9], [3450904.6, 1118889.9], [3450904.6, 1230000], [3339584.7, 1118889.9]]
+                  ]
+                  crs: { type: "name", properties: { name: "EPSG:3857" } }
+                }
+              )
+              geomPoint27700Distance(
+                to: { type: "Point", coordinates: [437300, 115500], srid: 27700 }
+              )
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const node = result.data.allTestGeometries.nodes[0];
+      expect(node.geomPoint4326Distance).toBeLessThan(1);
+      expect(node.geomPoint27700Distance).toBe(0);
+    });
+
+    it("should reject an invalid reference geometry", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geogPointDistance(to: { type: "Point", coordinates: ["a", 10] })
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeDefined();
+      expect(result.errors![0].message).toContain("Invalid GeoJSON");
+    });
+
+    it("should accept the reference geometry as a variable", async () => {
+      const query = `
+        query ($to: GeoJSON!, $unit: DistanceUnit) {
+          allTestGeometries {
+            nodes {
+              geogPointDistance(to: $to, unit: $unit)
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query, {
+        to: { type: "Point", coordinates: [30, 10] },
+        unit: "FEET",
+      });
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.allTestGeometries.nodes[0].geogPointDistance).toBe(0);
+    });
+  });
+
+  describe("Output formats", () => {
+    it("should output WKT, EWKT, WKB and GeoHash", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomPoint {
+                wkt
+                ewkt
+                wkbHex
+              }
+              geomPoint4326 {
+                ewkt
+                geohash(precision: 5)
+              }
+              geogPoint {
+                wkt
+                geohash(precision: 5)
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const node = result.data.allTestGeometries.nodes[0];
+      expect(node.geomPoint.wkt).toBe("POINT(30 10)");
+      expect(node.geomPoint.ewkt).toBe("POINT(30 10)");
+      expect(node.geomPoint.wkbHex).toBe(
+        "01010000000000000000003e400000000000002440"
+      );
+      expect(node.geomPoint4326.ewkt).toBe("SRID=4326;POINT(30 10)");
+      expect(node.geomPoint4326.geohash).toBe("s9v2f");
+      expect(node.geogPoint.wkt).toBe("POINT(30 10)");
+      expect(node.geogPoint.geohash).toBe("s9v2f");
+    });
+
+    it("should be available through GeometryInterface", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomUnconstrained {
+                ... on GeometryInterface {
+                  wkt
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      expect(
+        result.data.allTestGeometries.nodes[0].geomUnconstrained.wkt
+      ).toBe("POINT(30 10)");
+    });
+  });
+
+  describe("Reprojection", () => {
+    it("should reproject into the given SRID", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomPoint4326 {
+                geojson(srid: 3857)
+                srid(srid: 3857)
+                x(srid: 3857)
+                y(srid: 3857)
+              }
+              geogPoint {
+                x(srid: 3857)
+              }
+              original: geomPoint4326 {
+                geojson
+                srid
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const node = result.data.allTestGeometries.nodes[0];
+      expect(node.geomPoint4326.srid).toBe(3857);
+      expect(node.geomPoint4326.x).toBeCloseTo(3339584.72, 1);
+      expect(node.geomPoint4326.y).toBeCloseTo(1118889.97, 1);
+      expect(node.geomPoint4326.geojson.coordinates[0]).toBeCloseTo(
+        3339584.72,
+        1
+      );
+      expect(node.geogPoint.x).toBeCloseTo(3339584.72, 1);
+      expect(node.original.srid).toBe(4326);
+      expect(node.original.geojson.coordinates).toEqual([30, 10]);
+    });
+
+    it("should be available through GeometryInterface", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomPoint4326 {
+                ... on GeometryInterface {
+                  srid(srid: 3857)
+                  geojson(srid: 3857)
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const point = result.data.allTestGeometries.nodes[0].geomPoint4326;
+      expect(point.srid).toBe(3857);
+      expect(point.geojson.coordinates[1]).toBeCloseTo(1118889.97, 1);
+    });
+
+    it("should leave geometries without an SRID as they are", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomPoint {
+                geojson(srid: 3857)
+                srid(srid: 3857)
+                x(srid: 3857)
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const point = result.data.allTestGeometries.nodes[0].geomPoint;
+      expect(point.srid).toBe(0);
+      expect(point.x).toBe(30);
+      expect(point.geojson.coordinates).toEqual([30, 10]);
+    });
+  });
+
+  describe("GeoJSON options", () => {
+    it("should apply precision, bbox and CRS options", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomLinestring {
+                geojson(includeBbox: true)
+              }
+              geomPoint27700 {
+                geojson(includeCrs: true)
+                withoutCrs: geojson(includeCrs: false)
+              }
+              geomPoint4326 {
+                geojson(srid: 3857, precision: 2)
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const node = result.data.allTestGeometries.nodes[0];
+      expect(node.geomLinestring.geojson.bbox).toEqual([10, 10, 40, 40]);
+      expect(node.geomPoint27700.geojson.crs.properties.name).toBe(
+        "EPSG:27700"
+      );
+      expect(node.geomPoint27700.withoutCrs.crs).toBeUndefined();
+      expect(node.geomPoint4326.geojson.coordinates).toEqual([
+        3339584.72, 1118889.97,
+      ]);
+    });
+
+    it("should round nested geometries", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomMultipolygon {
+                polygons {
+                  geojson(precision: 0)
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const polygons =
+        result.data.allTestGeometries.nodes[0].geomMultipolygon.polygons;
+      expect(polygons[0].geojson.coordinates[0][0]).toEqual([40, 40]);
+    });
+  });
+
+  describe("Simplification", () => {
+    it("should simplify geometries in SQL", async () => {
+      const query = `
+        query {
+          allTestGeometries {
+            nodes {
+              geomLinestring {
+                simplified(tolerance: 100) {
+                  geojson
+                  length
+                }
+              }
+              geomPolygon {
+                simplified(tolerance: 100, preserveTopology: true) {
+                  geojson
+                }
+              }
+              geogLinestring {
+                simplified(tolerance: 0.000001) {
+                  srid
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const node = result.data.allTestGeometries.nodes[0];
+      // Only the end points of the line remain
+      expect(node.geomLinestring.simplified.geojson.coordinates).toEqual([
+        [30, 10],
+        [40, 40],
+      ]);
+      expect(node.geomLinestring.simplified.length).toBeCloseTo(31.623, 2);
+      // Preserving topology keeps the polygon valid
+      expect(node.geomPolygon.simplified.geojson.type).toBe("Polygon");
+      expect(node.geogLinestring.simplified.srid).toBe(4326);
+    });
+  });
+
+  describe("GeoJSON FeatureCollection", () => {
+    it("should build a FeatureCollection of the connection in SQL", async () => {
+      const query = `
+        query {
+          allTestGeometries(first: 1) {
+            geojsonFeatureCollection(
+              geometryColumn: GEOM_POINT_4326
+              properties: [ID]
+            )
+          }
+          allTestMutations {
+            geojsonFeatureCollection
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const { geojsonFeatureCollection } = result.data.allTestGeometries;
+      expect(geojsonFeatureCollection.type).toBe("FeatureCollection");
+      expect(geojsonFeatureCollection.features).toHaveLength(1);
+      const feature = geojsonFeatureCollection.features[0];
+      expect(feature.type).toBe("Feature");
+      expect(feature.id).toEqual(expect.any(Number));
+      expect(feature.properties).toEqual({ id: feature.id });
+      expect(feature.geometry.type).toBe("Point");
+      expect(result.data.allTestMutations.geojsonFeatureCollection).toEqual({
+        type: "FeatureCollection",
+        features: [],
+      });
+    });
+
+    it("should hold the page of the connection, in its order", async () => {
+      const query = `
+        query ($after: Cursor) {
+          allTestPlaces(first: 2, after: $after, orderBy: ID_DESC) {
+            edges {
+              cursor
+            }
+            geojsonFeatureCollection(properties: [CATEGORY])
+          }
+        }
+      `;
+
+      const first = await executeGraphQLQuery(schema, resolvedPreset, query);
+      expect(first.errors).toBeUndefined();
+      const { edges, geojsonFeatureCollection } = first.data.allTestPlaces;
+      expect(
+        geojsonFeatureCollection.features.map((feature: any) => feature.id)
+      ).toEqual([4, 3]);
+      expect(geojsonFeatureCollection.features[0].properties).toEqual({
+        category: "shop",
+      });
+
+      const next = await executeGraphQLQuery(schema, resolvedPreset, query, {
+        after: edges[1].cursor,
+      });
+      expect(next.errors).toBeUndefined();
+      expect(
+        next.data.allTestPlaces.geojsonFeatureCollection.features.map(
+          (feature: any) => feature.id
+        )
+      ).toEqual([2, 1]);
+    });
+  });
+
+  describe("Column options", () => {
+    it("should output columns with their precision and SRID", async () => {
+      const query = `
+        query {
+          allTestColumnOptions {
+            nodes {
+              location {
+                geojson
+                srid
+                x
+                wkt
+              }
+            }
+            geojsonFeatureCollection(geometryColumn: LOCATION)
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const { nodes, geojsonFeatureCollection } =
+        result.data.allTestColumnOptions;
+      const { location } = nodes[0];
+      expect(location.srid).toBe(3857);
+      expect(location.x).toBeCloseTo(3353327.78, 0);
+      const [x, y] = location.geojson.coordinates;
+      expect(x).toBeCloseTo(3353327.78, 0);
+      expect(Math.round(x * 100) / 100).toBe(x);
+      expect(Math.round(y * 100) / 100).toBe(y);
+      expect(location.wkt).toMatch(/^POINT\(3353327\.7/);
+      expect(geojsonFeatureCollection.features[0].geometry).toEqual(
+        location.geojson
+      );
+    });
+
+    it("should leave omitted fields out of the column type", async () => {
+      const query = `
+        query {
+          columnType: __type(name: "TestColumnOptionsBoundaryGeometryPolygon") {
+            fields {
+              name
+            }
+            interfaces {
+              name
+            }
+          }
+          sharedType: __type(name: "GeometryPolygon") {
+            fields {
+              name
+            }
+          }
+        }
+      `;
+
+      const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+      expect(result.errors).toBeUndefined();
+      const fieldNames = result.data.columnType.fields.map(
+        (field: any) => field.name
+      );
+      expect(fieldNames).toContain("perimeter");
+      expect(fieldNames).not.toContain("area");
+      expect(fieldNames).not.toContain("wkt");
+      // GeometryInterface has a wkt field, so it is no longer implemented
+      expect(result.data.columnType.interfaces).toEqual([]);
+      expect(
+        result.data.sharedType.fields.map((field: any) => field.name)
+      ).toEqual(expect.arrayContaining(["area", "wkt"]));
+    });
+  });
+});
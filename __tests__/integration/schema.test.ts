@@ -34,9 +34,23 @@ describe("PostGIS Schema Generation", () => {
         expect(schemaString).toContain("type GeometryMultiPolygon");
         expect(schemaString).toContain("type GeometryCollection");
 
-        // Verify Point fields
-        expect(schemaString).toContain("x: Float!");
-        expect(schemaString).toContain("y: Float!");
+        // Verify Point fields, which take the SRID to reproject into
+        const pointFields = (
+          schema.getType("GeometryPoint") as any
+        ).getFields();
+        for (const fieldName of ["x", "y"]) {
+          expect(String(pointFields[fieldName].type)).toBe("Float!");
+          expect(
+            pointFields[fieldName].args.map(
+              (arg: any) => `${arg.name}: ${arg.type}`
+            )
+          ).toEqual(["srid: Int"]);
+        }
+
+        // Verify unconstrained columns keep their unconstrained codec
+        expect(schemaString).toContain(
+          "geomUnconstrained: GeometryInterface\n"
+        );
 
         // Verify LineString fields
         expect(schemaString).toContain("points: [GeometryPoint!]!");
@@ -83,5 +97,88 @@ describe("PostGIS Schema Generation", () => {
       });
     });
   });
-});
 
+  describe("schema.postgis options", () => {
+    it("should only register the types used by columns lazily", async () => {
+      await withPgPool(async (pool) => {
+        const { schema: eagerSchema } = await createPostGraphileSchema(pool, [
+          "graphile_postgis_test",
+        ]);
+        const { schema: lazySchema } = await createPostGraphileSchema(
+          pool,
+          ["graphile_postgis_test"],
+          {},
+          [{ schema: { postgis: { registerAllTypes: false } } }]
+        );
+
+        expect(eagerSchema.getType("GeographyMultiPolygonZM")).toBeDefined();
+        expect(lazySchema.getType("GeographyMultiPolygonZM")).toBeUndefined();
+        expect(lazySchema.getType("GeometryPoint")).toBeDefined();
+      });
+    });
+
+    it("should leave out disabled features", async () => {
+      await withPgPool(async (pool) => {
+        const { schema } = await createPostGraphileSchema(
+          pool,
+          ["graphile_postgis_test"],
+          {},
+          [
+            {
+              schema: {
+                postgis: {
+                  measurements: false,
+                  outputFormats: false,
+                  coordinateFieldNames: "lonLat",
+                },
+              },
+            },
+          ]
+        );
+
+        const schemaString = printSchemaOrdered(schema);
+        expect(schemaString).not.toContain("wkt: String");
+        expect(schemaString).not.toContain("geohash(");
+        const polygonFields = (
+          schema.getType("GeometryPolygon") as any
+        ).getFields();
+        expect(polygonFields).not.toHaveProperty("area");
+        const pointFields = (
+          schema.getType("GeometryPoint") as any
+        ).getFields();
+        expect(Object.keys(pointFields)).toEqual(
+          expect.arrayContaining(["longitude", "latitude"])
+        );
+        expect(pointFields).not.toHaveProperty("x");
+      });
+    });
+
+    it("should type unconstrained columns as configured", async () => {
+      await withPgPool(async (pool) => {
+        const typeOfUnconstrained = async (
+          unconstrainedColumns?: "interface" | "union" | "object"
+        ) => {
+          const { schema } = await createPostGraphileSchema(
+            pool,
+            ["graphile_postgis_test"],
+            {},
+            [{ schema: { postgis: { unconstrainedColumns } } }]
+          );
+          const schemaString = printSchemaOrdered(schema);
+          return {
+            schemaString,
+            type: schemaString.match(/geomUnconstrained: (\w+)/)?.[1],
+          };
+        };
+
+        expect((await typeOfUnconstrained()).type).toBe("GeometryInterface");
+        expect((await typeOfUnconstrained("object")).type).toBe("Geometry");
+        const union = await typeOfUnconstrained("union");
+        expect(union.type).toBe("GeometryUnion");
+        expect(union.schemaString).toMatch(
+          /union GeometryUnion =[^\n]*\bGeometryPointM\b/
+        );
+      });
+    });
+  });
+});
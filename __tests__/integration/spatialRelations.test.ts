@@ -0,0 +1,94 @@
+/**
+ * Integration tests for spatial relations.
+ *
+ * Tests that PostgisSpatialRelationsPlugin adds connection fields between the
+ * tables of a `@spatialRelation` smart tag.
+ */
+
+import { PostgisSpatialRelationsPlugin } from "../../src/index";
+import { withPgPool } from "../helpers";
+import { createPostGraphileSchema, executeGraphQLQuery } from "./helpers";
+
+describe("PostGIS Spatial Relation Integration Tests", () => {
+  let schema: any;
+  let resolvedPreset: any;
+
+  beforeAll(async () => {
+    await withPgPool(async (pool) => {
+      const result = await createPostGraphileSchema(
+        pool,
+        ["graphile_postgis_test"],
+        {},
+        [{ plugins: [PostgisSpatialRelationsPlugin] }]
+      );
+      schema = result.schema;
+      resolvedPreset = result.resolvedPreset;
+    });
+  });
+
+  it("should add forward and backward connection fields", () => {
+    const parcelFields = schema.getType("TestParcel").getFields();
+    const districtFields = schema.getType("TestDistrict").getFields();
+    expect(String(parcelFields.testDistrictsByDistrict.type)).toBe(
+      "TestDistrictsConnection!"
+    );
+    expect(String(districtFields.testParcelsByDistrict.type)).toBe(
+      "TestParcelsConnection!"
+    );
+    expect(
+      districtFields.testParcelsByDistrict.args.map((arg: any) => arg.name)
+    ).toEqual(expect.arrayContaining(["first", "orderBy", "condition"]));
+  });
+
+  it("should fetch the rows related by the predicate", async () => {
+    const query = `
+      query {
+        allTestDistricts(orderBy: ID_ASC) {
+          nodes {
+            name
+            testParcelsByDistrict(orderBy: NAME_ASC) {
+              totalCount
+              nodes { name }
+            }
+          }
+        }
+        allTestParcels(orderBy: NAME_ASC) {
+          nodes {
+            name
+            testDistrictsByDistrict { nodes { name } }
+          }
+        }
+      }
+    `;
+
+    const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.allTestDistricts.nodes).toEqual([
+      {
+        name: "west",
+        testParcelsByDistrict: {
+          totalCount: 2,
+          nodes: [{ name: "a" }, { name: "b" }],
+        },
+      },
+      {
+        name: "east",
+        testParcelsByDistrict: { totalCount: 1, nodes: [{ name: "c" }] },
+      },
+    ]);
+    expect(
+      result.data.allTestParcels.nodes.map((parcel: any) => [
+        parcel.name,
+        parcel.testDistrictsByDistrict.nodes.map(
+          (district: any) => district.name
+        ),
+      ])
+    ).toEqual([
+      ["a", ["west"]],
+      ["b", ["west"]],
+      ["c", ["east"]],
+      ["d", []],
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Integration tests for Mapbox Vector Tile fields.
+ *
+ * Tests that PostgisMVTPlugin adds root tile fields built with ST_AsMVT.
+ */
+
+import { PostgisMVTPlugin } from "../../src/index";
+import { withPgPool } from "../helpers";
+import { createPostGraphileSchema, executeGraphQLQuery } from "./helpers";
+
+describe("PostGIS Vector Tile Integration Tests", () => {
+  let schema: any;
+  let resolvedPreset: any;
+
+  beforeAll(async () => {
+    await withPgPool(async (pool) => {
+      const result = await createPostGraphileSchema(
+        pool,
+        ["graphile_postgis_test"],
+        {},
+        [{ plugins: [PostgisMVTPlugin] }]
+      );
+      schema = result.schema;
+      resolvedPreset = result.resolvedPreset;
+    });
+  });
+
+  it("should add a tile field per PostGIS column", () => {
+    const fields = schema.getQueryType().getFields();
+    expect(fields.testGeometriesGeomPoint4326Tile).toBeDefined();
+    expect(fields.testMutationsLocationTile).toBeDefined();
+  });
+
+  it("should build a tile with ST_AsMVT", async () => {
+    const query = `
+      query {
+        world: testGeometriesGeomPoint4326Tile(z: 0, x: 0, y: 0)
+        empty: testGeometriesGeomPoint4326Tile(z: 4, x: 0, y: 0, extent: 512)
+        unconstrained: testGeometriesGeomUnconstrainedTile(z: 0, x: 0, y: 0)
+      }
+    `;
+
+    const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+    expect(result.errors).toBeUndefined();
+    const world = Buffer.from(result.data.world, "base64");
+    expect(world.length).toBeGreaterThan(0);
+    // The layer is named after the table
+    expect(world.toString("latin1")).toContain("test_geometries");
+    expect(result.data.empty).toBe("");
+    expect(result.data.unconstrained.length).toBeGreaterThan(0);
+  });
+
+  it("should reject tiles that do not exist", async () => {
+    const query = `
+      query {
+        testGeometriesGeomPoint4326Tile(z: 1, x: 2, y: 0)
+      }
+    `;
+
+    const result = await executeGraphQLQuery(schema, resolvedPreset, query);
+
+    expect(result.errors).toBeDefined();
+    expect(result.errors![0].message).toContain("does not exist");
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for per-column configuration with smart tags.
+ *
+ * Tests parsing the smart tags in src/columnOptions.ts, the codecs created
+ * for configured columns, and the input format check.
+ */
+
+import { assertInputFormat, parseColumnOptions } from "../../src/columnOptions";
+import { createPostGISCodec } from "../../src/codec";
+import { WellKnownGeometry } from "../../src/wellKnown";
+
+describe("Column options", () => {
+  describe("parseColumnOptions", () => {
+    it("should return null without PostGIS smart tags", () => {
+      expect(parseColumnOptions(undefined, "places.geom")).toBeNull();
+      expect(parseColumnOptions({ omit: "update" }, "places.geom")).toBeNull();
+    });
+
+    it("should parse every tag", () => {
+      expect(
+        parseColumnOptions(
+          {
+            postgisPrecision: "6",
+            postgisOutputSrid: "3857",
+            postgisInput: "GeoJSON, wkt",
+            postgisOmit: "area,length",
+          },
+          "places.geom"
+        )
+      ).toEqual({
+        precision: 6,
+        outputSrid: 3857,
+        inputFormats: ["geojson", "wkt"],
+        omit: ["area", "length"],
+      });
+    });
+
+    it("should combine repeated list tags", () => {
+      expect(
+        parseColumnOptions(
+          { postgisOmit: ["area", "perimeter wkt", "area"] },
+          "places.geom"
+        )
+      ).toEqual({ omit: ["area", "perimeter", "wkt"] });
+    });
+
+    it("should reject invalid values", () => {
+      expect(() =>
+        parseColumnOptions({ postgisPrecision: "-1" }, "places.geom")
+      ).toThrow("@postgisPrecision smart tag on places.geom");
+      expect(() =>
+        parseColumnOptions({ postgisPrecision: true }, "places.geom")
+      ).toThrow("@postgisPrecision");
+      expect(() =>
+        parseColumnOptions({ postgisOutputSrid: "EPSG:3857" }, "places.geom")
+      ).toThrow("@postgisOutputSrid");
+      expect(() =>
+        parseColumnOptions({ postgisInput: "geojson,kml" }, "places.geom")
+      ).toThrow("@postgisInput");
+      expect(() =>
+        parseColumnOptions({ postgisOmit: true }, "places.geom")
+      ).toThrow("@postgisOmit");
+    });
+  });
+
+  describe("column codecs", () => {
+    it("should be named after the column", () => {
+      const column = {
+        className: "places",
+        attributeName: "geom",
+        options: { precision: 6 },
+      };
+      const codec = createPostGISCodec("geometry", null, "1", {}, column);
+      expect(codec.name).toBe("geometry__places_geom");
+      expect((codec.extensions as any).column).toBe(column);
+    });
+  });
+
+  describe("assertInputFormat", () => {
+    const codec = createPostGISCodec(
+      "geometry",
+      null,
+      "1",
+      {},
+      {
+        className: "places",
+        attributeName: "geom",
+        options: { inputFormats: ["wkt"] },
+      }
+    );
+
+    it("should accept the configured input formats", () => {
+      expect(() =>
+        assertInputFormat(
+          new WellKnownGeometry("wkt", "POINT(30 10)"),
+          codec,
+          "geom"
+        )
+      ).not.toThrow();
+      expect(() =>
+        assertInputFormat("POINT(30 10)", codec, "geom")
+      ).not.toThrow();
+      expect(() => assertInputFormat(null, codec, "geom")).not.toThrow();
+    });
+
+    it("should reject other input formats", () => {
+      expect(() =>
+        assertInputFormat(
+          { type: "Point", coordinates: [30, 10] },
+          codec,
+          "geom"
+        )
+      ).toThrow("'geom' does not accept GEOJSON input; it accepts WKT");
+      expect(() =>
+        assertInputFormat("SRID=4326;POINT(30 10)", codec, "geom")
+      ).toThrow("does not accept EWKT input");
+    });
+
+    it("should accept every format on other columns", () => {
+      const sharedCodec = createPostGISCodec("geometry", null, "1");
+      expect(() =>
+        assertInputFormat(
+          { type: "Point", coordinates: [30, 10] },
+          sharedCodec,
+          "geom"
+        )
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for spatial relations.
+ *
+ * Tests parsing the `@spatialRelation` smart tag in src/spatialRelations.ts,
+ * and the SQL of the relation predicates.
+ */
+
+import { sql } from "pg-sql2";
+import type { SpatialRelation } from "../../src/spatialRelations";
+import {
+  parseSpatialRelationTags,
+  sqlSpatialRelationPredicate,
+} from "../../src/spatialRelations";
+
+describe("Spatial relations", () => {
+  describe("parseSpatialRelationTags", () => {
+    it("should return no relations without the tag", () => {
+      expect(parseSpatialRelationTags(undefined, "parcels")).toEqual([]);
+    });
+
+    it("should parse repeated tags", () => {
+      expect(
+        parseSpatialRelationTags(
+          [
+            "district parcels.geom st_within districts.geom",
+            "touching  gis.parcels.geom ST_Touches gis.parcels.geom ",
+          ],
+          "parcels"
+        )
+      ).toEqual([
+        {
+          name: "district",
+          left: {
+            schemaName: null,
+            tableName: "parcels",
+            attributeName: "geom",
+          },
+          fn: "ST_Within",
+          right: {
+            schemaName: null,
+            tableName: "districts",
+            attributeName: "geom",
+          },
+        },
+        {
+          name: "touching",
+          left: {
+            schemaName: "gis",
+            tableName: "parcels",
+            attributeName: "geom",
+          },
+          fn: "ST_Touches",
+          right: {
+            schemaName: "gis",
+            tableName: "parcels",
+            attributeName: "geom",
+          },
+        },
+      ]);
+    });
+
+    it("should reject invalid values", () => {
+      expect(() =>
+        parseSpatialRelationTags(
+          "parcels.geom ST_Within districts.geom",
+          "parcels"
+        )
+      ).toThrow("Invalid @spatialRelation smart tag on parcels");
+      expect(() =>
+        parseSpatialRelationTags(
+          "district geom ST_Within districts.geom",
+          "parcels"
+        )
+      ).toThrow("expected '<name> <table>.<column>");
+      expect(() =>
+        parseSpatialRelationTags(
+          "district parcels.geom ST_DWithin districts.geom",
+          "parcels"
+        )
+      ).toThrow('but received "ST_DWithin"');
+      expect(() => parseSpatialRelationTags(true, "parcels")).toThrow(
+        "@spatialRelation"
+      );
+    });
+  });
+
+  describe("sqlSpatialRelationPredicate", () => {
+    const side = (typeName: string) => ({
+      resource: {
+        codec: {
+          attributes: { geom: { codec: { extensions: { typeName } } } },
+        },
+      } as any,
+      attributeName: "geom",
+    });
+    const compile = (relation: SpatialRelation) =>
+      sql.compile(sqlSpatialRelationPredicate(relation, sql`l`, sql`r`)).text;
+
+    it("should apply the predicate to both columns", () => {
+      expect(
+        compile({
+          name: "district",
+          fn: "ST_Within",
+          left: side("geometry"),
+          right: side("geometry"),
+        })
+      ).toBe("ST_Within(l, r)");
+    });
+
+    it("should cast geography unless the predicate supports it", () => {
+      expect(
+        compile({
+          name: "near",
+          fn: "ST_Intersects",
+          left: side("geography"),
+          right: side("geography"),
+        })
+      ).toBe("ST_Intersects(l, r)");
+      expect(
+        compile({
+          name: "district",
+          fn: "ST_Within",
+          left: side("geography"),
+          right: side("geography"),
+        })
+      ).toBe("ST_Within((l)::geometry, (r)::geometry)");
+      expect(
+        compile({
+          name: "near",
+          fn: "ST_Intersects",
+          left: side("geography"),
+          right: side("geometry"),
+        })
+      ).toBe("ST_Intersects((l)::geometry, r)");
+    });
+  });
+});
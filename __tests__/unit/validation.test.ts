@@ -1,15 +1,39 @@
 /**
  * Unit tests for GeoJSON validation functions.
- * 
+ *
  * Tests the validation functions in src/validation.ts to ensure
  * GeoJSON input is properly validated according to RFC 7946.
  */
 
 import {
+  autoFixGeoJSON,
   validateGeoJSON,
+  validateGeoJSONForColumn,
   validateGeoJSONStructure,
   validateCoordinates,
+  validateWellKnownGeometry,
 } from "../../src/validation";
+import { createPostGISCodec } from "../../src/codec";
+import { sql } from "pg-sql2";
+import {
+  acceptsStructuredInput,
+  geoJSONFromStructuredInput,
+  sqlGeoJSONOperandWithPostGISCodec,
+} from "../../src/mutationUtils";
+import {
+  getFeatureGeometry,
+  getGeoJSONSRID,
+  getGISTypeModifier,
+  getGeoJSONTypeDetails,
+  getSQLGeometryTypeDetails,
+} from "../../src/utils";
+import {
+  parseGeometryInput,
+  WellKnownGeometry,
+  wellKnownGeometrySRID,
+  wellKnownGeometryType,
+  wellKnownGeometryWithSRID,
+} from "../../src/wellKnown";
 
 describe("GeoJSON Validation", () => {
   describe("validateGeoJSONStructure", () => {
@@ -123,6 +147,106 @@ describe("GeoJSON Validation", () => {
       const errors = validateCoordinates("not an array");
       expect(errors.length).toBeGreaterThan(0);
     });
+
+    it("should reject NaN and Infinity", () => {
+      const errors = validateCoordinates([
+        [100.0, NaN],
+        [Infinity, 1.0],
+      ]);
+      expect(errors.map((error) => error.field)).toEqual([
+        "coordinates[0][1]",
+        "coordinates[1][0]",
+      ]);
+      expect(errors[0].message).toContain("finite");
+    });
+
+    it("should check the number of dimensions when given", () => {
+      expect(validateCoordinates([100.0, 0.0, 50.0], 3)).toEqual([]);
+      const errors = validateCoordinates(
+        [
+          [100.0, 0.0, 50.0],
+          [101.0, 1.0],
+        ],
+        3
+      );
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("coordinates[1]");
+    });
+  });
+
+  describe("validateGeoJSONForColumn", () => {
+    const geography = { typeName: "geography" as const, typeDetails: null };
+
+    it("should check longitude and latitude ranges for geography", () => {
+      const errors = validateGeoJSONForColumn(
+        {
+          type: "LineString",
+          coordinates: [
+            [30, 10],
+            [250, -120],
+          ],
+        },
+        geography
+      );
+      expect(errors.map((error) => error.field)).toEqual([
+        "coordinates[1][0]",
+        "coordinates[1][1]",
+      ]);
+      expect(errors[0].message).toContain("Longitude");
+      expect(errors[1].message).toContain("Latitude");
+    });
+
+    it("should check ranges for SRID 4326 only", () => {
+      const point = { type: "Point", coordinates: [250, 10] };
+      const column = (srid: number) => ({
+        typeName: "geometry" as const,
+        typeDetails: { subtype: 1 as const, hasZ: false, hasM: false, srid },
+      });
+      expect(validateGeoJSONForColumn(point, column(4326))[0].field).toBe(
+        "coordinates[0]"
+      );
+      expect(validateGeoJSONForColumn(point, column(3857))).toEqual([]);
+      expect(
+        validateGeoJSONForColumn({ ...point, srid: 4326 }, column(3857))
+      ).toHaveLength(1);
+      // Input in another SRID is transformed, so its coordinates are not checked
+      expect(
+        validateGeoJSONForColumn(
+          { ...point, coordinates: [3339584, 1118890], srid: 3857 },
+          geography
+        )
+      ).toEqual([]);
+    });
+
+    it("should check dimensions against the column", () => {
+      const column = {
+        typeName: "geometry" as const,
+        typeDetails: { subtype: 0 as const, hasZ: true, hasM: false, srid: 0 },
+      };
+      const errors = validateGeoJSONForColumn(
+        {
+          type: "Feature",
+          geometry: {
+            type: "GeometryCollection",
+            geometries: [
+              { type: "Point", coordinates: [30, 10, 5] },
+              { type: "Point", coordinates: [30, 10] },
+            ],
+          },
+          properties: null,
+        },
+        column
+      );
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("geometry.geometries[1].coordinates");
+      expect(errors[0].message).toContain("3 values (x, y, z)");
+      expect(
+        validateGeoJSONForColumn(
+          { type: "Point", coordinates: [30, 10, 5] },
+          geography
+        )
+      ).toEqual([]);
+    });
   });
 
   describe("validateGeoJSON", () => {
@@ -262,6 +386,714 @@ describe("GeoJSON Validation", () => {
       expect(errors[0].field).toBeDefined();
       expect(errors[0].message).toBeDefined();
     });
+
+    it("should accept a declared crs or srid", () => {
+      const point = { type: "Point", coordinates: [1113194.9, 1118890.0] };
+      expect(
+        validateGeoJSON({
+          ...point,
+          crs: { type: "name", properties: { name: "EPSG:3857" } },
+        })
+      ).toEqual([]);
+      expect(validateGeoJSON({ ...point, srid: 3857 })).toEqual([]);
+    });
+
+    it("should reject an invalid crs or srid", () => {
+      const point = { type: "Point", coordinates: [1, 2] };
+      expect(
+        validateGeoJSON({
+          ...point,
+          crs: { type: "link", properties: { href: "http://example.com" } },
+        }).map((err) => err.field)
+      ).toEqual(["crs"]);
+      expect(
+        validateGeoJSON({ ...point, srid: "3857" }).map((err) => err.field)
+      ).toEqual(["srid"]);
+    });
   });
-});
 
+  describe("multi-geometries and collections", () => {
+    it("should reject invalid members of multi-geometries", () => {
+      expect(
+        validateGeoJSON({
+          type: "MultiPoint",
+          coordinates: [[30, 10], [40]],
+        }).map((err) => err.field)
+      ).toEqual(["coordinates[1]"]);
+      expect(
+        validateGeoJSON({
+          type: "MultiLineString",
+          coordinates: [
+            [
+              [10, 10],
+              [20, 20],
+            ],
+            [[40, 40]],
+          ],
+        }).map((err) => err.field)
+      ).toEqual(["coordinates[1]"]);
+      expect(
+        validateGeoJSON({
+          type: "MultiPolygon",
+          coordinates: [
+            [
+              [
+                [0, 0],
+                [1, 0],
+                [1, 1],
+                [0, 0],
+              ],
+              [
+                [0, 0],
+                [1, 1],
+              ],
+            ],
+          ],
+        }).map((err) => err.field)
+      ).toEqual(["coordinates[0][1]"]);
+    });
+
+    it("should reject coordinates nested at the wrong depth", () => {
+      expect(
+        validateGeoJSON({
+          type: "LineString",
+          coordinates: [[[30, 10]], [[10, 30]]],
+        }).length
+      ).toBeGreaterThan(0);
+      expect(
+        validateGeoJSON({
+          type: "Point",
+          coordinates: [[[[[[30, 10]]]]]],
+        })[0].message
+      ).toContain("nested more deeply");
+    });
+
+    it("should validate geometry collections recursively", () => {
+      const errors = validateGeoJSON({
+        type: "GeometryCollection",
+        geometries: [
+          { type: "Point", coordinates: [30, 10] },
+          {
+            type: "GeometryCollection",
+            geometries: [
+              { type: "MultiPoint", coordinates: [[30, "10"]] },
+              null,
+              { type: "Feature", geometry: null, properties: null },
+            ],
+          },
+        ],
+      });
+      expect(errors.map((err) => err.field)).toEqual([
+        "geometries[1].geometries[0].coordinates[0][1]",
+        "geometries[1].geometries[1]",
+        "geometries[1].geometries[2]",
+      ]);
+      expect(
+        validateGeoJSON({ type: "GeometryCollection" }).map((err) => err.field)
+      ).toEqual(["geometries"]);
+    });
+
+    it("should accept empty geometries", () => {
+      expect(validateGeoJSON({ type: "Point", coordinates: [] })).toEqual([]);
+      expect(
+        validateGeoJSON({ type: "MultiPolygon", coordinates: [] })
+      ).toEqual([]);
+      expect(
+        validateGeoJSON({ type: "GeometryCollection", geometries: [] })
+      ).toEqual([]);
+      expect(
+        validateGeoJSON({ type: "LineString" }).map((err) => err.field)
+      ).toEqual(["coordinates"]);
+    });
+
+    it("should enforce the nesting depth and vertex limits", () => {
+      let nested: any = { type: "Point", coordinates: [30, 10] };
+      for (let i = 0; i < 3; i++) {
+        nested = { type: "GeometryCollection", geometries: [nested] };
+      }
+      expect(validateGeoJSON(nested)).toEqual([]);
+      const depthErrors = validateGeoJSON(nested, undefined, {
+        maxNestingDepth: 3,
+      });
+      expect(depthErrors).toHaveLength(1);
+      expect(depthErrors[0].field).toBe(
+        "geometries[0].geometries[0].geometries[0]"
+      );
+
+      const line = {
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [1, 1],
+          [2, 2],
+        ],
+      };
+      expect(validateGeoJSON(line, undefined, { maxVertices: 3 })).toEqual([]);
+      const vertexErrors = validateGeoJSON(line, undefined, { maxVertices: 2 });
+      expect(vertexErrors).toHaveLength(1);
+      expect(vertexErrors[0].message).toContain("more than 2 positions");
+    });
+  });
+
+  describe("getGeoJSONSRID", () => {
+    it("should read the declared SRID", () => {
+      const crs = (name: string) => ({
+        type: "Point",
+        coordinates: [0, 0],
+        crs: { type: "name", properties: { name } },
+      });
+      expect(getGeoJSONSRID(crs("EPSG:3857"))).toBe(3857);
+      expect(getGeoJSONSRID(crs("urn:ogc:def:crs:EPSG::2154"))).toBe(2154);
+      expect(getGeoJSONSRID(crs("urn:ogc:def:crs:OGC:1.3:CRS84"))).toBe(4326);
+      expect(
+        getGeoJSONSRID({ type: "Point", coordinates: [0, 0], srid: 27700 })
+      ).toBe(27700);
+      expect(getGeoJSONSRID({ type: "Point", coordinates: [0, 0] })).toBeNull();
+    });
+  });
+
+  describe("getGeoJSONTypeDetails", () => {
+    it("should read the subtype and dimensions", () => {
+      expect(
+        getGeoJSONTypeDetails({ type: "Point", coordinates: [30, 10] })
+      ).toEqual({ subtype: 1, hasZ: false, hasM: false });
+      expect(
+        getGeoJSONTypeDetails({
+          type: "MultiPolygon",
+          coordinates: [[[[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 0, 1]]]],
+        })
+      ).toEqual({ subtype: 6, hasZ: true, hasM: false });
+      expect(
+        getGeoJSONTypeDetails({
+          type: "LineString",
+          coordinates: [
+            [0, 0, 1, 2],
+            [1, 1, 1, 2],
+          ],
+        })
+      ).toEqual({ subtype: 2, hasZ: true, hasM: true });
+    });
+
+    it("should take the dimensions of collections from their members", () => {
+      expect(
+        getGeoJSONTypeDetails({
+          type: "GeometryCollection",
+          geometries: [
+            { type: "Point", coordinates: [] },
+            { type: "Point", coordinates: [4, 6, 8] },
+          ],
+        })
+      ).toEqual({ subtype: 7, hasZ: true, hasM: false });
+    });
+
+    it("should return null for other GeoJSON and empty geometries", () => {
+      expect(getGeoJSONTypeDetails(null)).toBeNull();
+      expect(
+        getGeoJSONTypeDetails({ type: "Feature", geometry: null })
+      ).toBeNull();
+      expect(getGeoJSONTypeDetails({ type: "toString" })).toBeNull();
+      expect(
+        getGeoJSONTypeDetails({ type: "Point", coordinates: [] })
+      ).toBeNull();
+    });
+  });
+
+  describe("getSQLGeometryTypeDetails", () => {
+    it("should read the subtype and dimensions", () => {
+      expect(getSQLGeometryTypeDetails("POINT", 2)).toEqual({
+        subtype: 1,
+        hasZ: false,
+        hasM: false,
+      });
+      expect(getSQLGeometryTypeDetails("MULTIPOLYGON", 3)).toEqual({
+        subtype: 6,
+        hasZ: true,
+        hasM: false,
+      });
+      expect(getSQLGeometryTypeDetails("GEOMETRYCOLLECTION", 4)).toEqual({
+        subtype: 7,
+        hasZ: true,
+        hasM: true,
+      });
+    });
+
+    it("should tell XYM geometries from XYZ geometries", () => {
+      expect(getSQLGeometryTypeDetails("LINESTRINGM", 3)).toEqual({
+        subtype: 2,
+        hasZ: false,
+        hasM: true,
+      });
+      expect(getSQLGeometryTypeDetails("GEOMETRYCOLLECTIONM", 3)).toEqual({
+        subtype: 7,
+        hasZ: false,
+        hasM: true,
+      });
+    });
+
+    it("should return null for other types", () => {
+      expect(getSQLGeometryTypeDetails("CIRCULARSTRING", 2)).toBeNull();
+      expect(getSQLGeometryTypeDetails("GEOMETRY", 2)).toBeNull();
+      expect(getSQLGeometryTypeDetails(null, null)).toBeNull();
+    });
+  });
+
+  describe("Features", () => {
+    const point = { type: "Point", coordinates: [30, 10] };
+
+    it("should validate a Feature's geometry and properties", () => {
+      expect(
+        validateGeoJSON({ type: "Feature", geometry: point, properties: {} })
+      ).toEqual([]);
+      expect(
+        validateGeoJSON({
+          type: "Feature",
+          geometry: { type: "Point", coordinates: ["a", 10] },
+          properties: [],
+        }).map((error) => error.field)
+      ).toEqual(["geometry.coordinates[0]", "properties"]);
+      expect(
+        validateGeoJSON({ type: "Feature", geometry: null, properties: null })
+          .map((error) => error.field)
+      ).toEqual(["geometry"]);
+    });
+
+    it("should validate the features of a FeatureCollection", () => {
+      expect(
+        validateGeoJSON({
+          type: "FeatureCollection",
+          features: [{ type: "Feature", geometry: point, properties: null }],
+        })
+      ).toEqual([]);
+      expect(
+        validateGeoJSON({
+          type: "FeatureCollection",
+          features: [point, { type: "Feature", properties: null }],
+        }).map((error) => error.field)
+      ).toEqual(["features[0]", "features[1].geometry"]);
+      expect(
+        validateGeoJSON({ type: "FeatureCollection" }).map(
+          (error) => error.field
+        )
+      ).toEqual(["features"]);
+    });
+
+    it("should get a Feature's geometry with the Feature's CRS", () => {
+      const crs = { type: "name", properties: { name: "EPSG:3857" } };
+      expect(getFeatureGeometry(point)).toBe(point);
+      expect(
+        getFeatureGeometry({ type: "Feature", geometry: point, properties: {} })
+      ).toBe(point);
+      expect(
+        getFeatureGeometry({
+          type: "Feature",
+          geometry: point,
+          properties: {},
+          crs,
+        })
+      ).toEqual({ ...point, crs });
+      expect(
+        getFeatureGeometry({ type: "Feature", geometry: point, srid: 27700 })
+      ).toEqual({ ...point, srid: 27700 });
+    });
+  });
+
+  describe("topology", () => {
+    const square = [
+      [0, 0],
+      [4, 0],
+      [4, 4],
+      [0, 4],
+      [0, 0],
+    ];
+    const hole = [
+      [1, 1],
+      [1, 2],
+      [2, 2],
+      [2, 1],
+      [1, 1],
+    ];
+
+    it("should accept valid polygons", () => {
+      expect(
+        validateGeoJSON(
+          { type: "Polygon", coordinates: [square, hole] },
+          "Polygon",
+          {
+            checkWindingOrder: true,
+            checkDuplicateVertices: true,
+            checkSelfIntersection: true,
+          }
+        )
+      ).toEqual([]);
+    });
+
+    it("should reject unclosed rings with the position's path", () => {
+      const errors = validateGeoJSON({
+        type: "Polygon",
+        coordinates: [[[0, 0], [4, 0], [4, 4], [0, 4]]],
+      });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("coordinates[0][3]");
+      expect(errors[0].message).toContain("closed");
+
+      const multiErrors = validateGeoJSON({
+        type: "MultiPolygon",
+        coordinates: [[square], [[[0, 0], [4, 0], [4, 4], [0, 4]]]],
+      });
+      expect(multiErrors[0].field).toBe("coordinates[1][0][3]");
+    });
+
+    it("should reject holes outside the exterior ring", () => {
+      const errors = validateGeoJSON({
+        type: "Polygon",
+        coordinates: [
+          square,
+          [
+            [1, 1],
+            [1, 2],
+            [5, 2],
+            [2, 1],
+            [1, 1],
+          ],
+        ],
+      });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("coordinates[1][2]");
+    });
+
+    it("should check winding order only when enabled", () => {
+      const clockwise = {
+        type: "Polygon",
+        coordinates: [[...square].reverse(), [...hole].reverse()],
+      };
+      expect(validateGeoJSON(clockwise)).toEqual([]);
+      const errors = validateGeoJSON(clockwise, undefined, {
+        checkWindingOrder: true,
+      });
+      expect(errors.map((error) => error.field)).toEqual([
+        "coordinates[0]",
+        "coordinates[1]",
+      ]);
+      expect(errors[0].message).toContain("right-hand rule");
+    });
+
+    it("should check duplicate vertices only when enabled", () => {
+      const line = {
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [1, 1],
+          [1, 1],
+          [2, 2],
+        ],
+      };
+      expect(validateGeoJSON(line)).toEqual([]);
+      const errors = validateGeoJSON(line, undefined, {
+        checkDuplicateVertices: true,
+      });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("coordinates[2]");
+    });
+
+    it("should check self-intersection only when enabled", () => {
+      const bowTie = {
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [4, 4],
+            [4, 0],
+            [0, 4],
+            [0, 0],
+          ],
+        ],
+      };
+      expect(validateGeoJSON(bowTie)).toEqual([]);
+      const errors = validateGeoJSON(bowTie, undefined, {
+        checkSelfIntersection: true,
+      });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("coordinates[0][2]");
+      expect(errors[0].message).toContain("coordinates[0][0]");
+
+      const loop = {
+        type: "MultiLineString",
+        coordinates: [
+          [
+            [0, 0],
+            [2, 2],
+          ],
+          [
+            [0, 0],
+            [2, 2],
+            [2, 0],
+            [0, 2],
+          ],
+        ],
+      };
+      expect(
+        validateGeoJSON(loop, undefined, { checkSelfIntersection: true })[0]
+          .field
+      ).toBe("coordinates[1][2]");
+    });
+
+    it("should close and rewind rings with autoFixGeoJSON", () => {
+      const fixed = autoFixGeoJSON({
+        type: "Feature",
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [0, 0],
+              [0, 4],
+              [4, 4],
+              [4, 0],
+            ],
+            hole.slice(0, 4).reverse(),
+          ],
+        },
+        properties: null,
+      });
+      expect(fixed.geometry.coordinates).toEqual([
+        square,
+        [
+          [2, 1],
+          [1, 1],
+          [1, 2],
+          [2, 2],
+          [2, 1],
+        ],
+      ]);
+      expect(
+        validateGeoJSON(fixed, undefined, { checkWindingOrder: true })
+      ).toEqual([]);
+    });
+  });
+
+  describe("well-known geometries", () => {
+    it("should detect the input format", () => {
+      expect(
+        parseGeometryInput('{"type":"Point","coordinates":[1,2]}')
+      ).toEqual({ type: "Point", coordinates: [1, 2] });
+      expect(parseGeometryInput("POINT(30 10)")).toEqual(
+        new WellKnownGeometry("wkt", "POINT(30 10)")
+      );
+      expect(parseGeometryInput(" SRID=4326;POINT(30 10)")).toEqual(
+        new WellKnownGeometry("ewkt", "SRID=4326;POINT(30 10)")
+      );
+      expect(
+        parseGeometryInput("01010000000000000000003e400000000000002440")
+      ).toEqual(
+        new WellKnownGeometry(
+          "wkb",
+          "01010000000000000000003e400000000000002440"
+        )
+      );
+    });
+
+    it("should read the geometry type and SRID", () => {
+      expect(
+        wellKnownGeometryType(
+          new WellKnownGeometry("wkt", "multipolygon z EMPTY")
+        )
+      ).toBe("MultiPolygon");
+      expect(
+        wellKnownGeometryType(
+          new WellKnownGeometry("ewkt", "SRID=4326;LINESTRINGM(0 0 1, 1 1 1)")
+        )
+      ).toBe("LineString");
+      expect(
+        wellKnownGeometrySRID(
+          new WellKnownGeometry(
+            "wkb",
+            "0101000020e61000000000000000003e400000000000002440"
+          )
+        )
+      ).toBe(4326);
+      // Big-endian ISO WKB for a Point Z
+      expect(
+        wellKnownGeometryType(new WellKnownGeometry("wkb", "00000003e9"))
+      ).toBe("Point");
+    });
+
+    it("should embed an SRID", () => {
+      expect(
+        wellKnownGeometryWithSRID(
+          new WellKnownGeometry("wkt", "POINT(30 10)"),
+          4326
+        )
+      ).toEqual(new WellKnownGeometry("ewkt", "SRID=4326;POINT(30 10)"));
+      expect(
+        wellKnownGeometryWithSRID(
+          new WellKnownGeometry(
+            "wkb",
+            "01010000000000000000003e400000000000002440"
+          ),
+          4326
+        ).text
+      ).toBe("0101000020e61000000000000000003e400000000000002440");
+    });
+
+    it("should accept valid input", () => {
+      expect(
+        validateWellKnownGeometry(
+          new WellKnownGeometry("wkt", "POLYGON((0 0, 1 0, 1 1, 0 0))")
+        )
+      ).toEqual([]);
+      expect(
+        validateWellKnownGeometry(
+          new WellKnownGeometry(
+            "wkb",
+            "01010000000000000000003e400000000000002440"
+          ),
+          "Point"
+        )
+      ).toEqual([]);
+    });
+
+    it("should reject invalid input", () => {
+      const unbalanced = validateWellKnownGeometry(
+        new WellKnownGeometry("wkt", "POINT(30 10")
+      );
+      expect(unbalanced[0].field).toBe("wkt");
+      expect(unbalanced[0].message).toContain("Parentheses");
+
+      const unknownType = validateWellKnownGeometry(
+        new WellKnownGeometry("wkt", "CIRCLE(30 10)")
+      );
+      expect(unknownType[0].message).toContain("geometry type");
+
+      const oddWKB = validateWellKnownGeometry(
+        new WellKnownGeometry("wkb", "010")
+      );
+      expect(oddWKB[0].field).toBe("wkb");
+
+      const wrongType = validateWellKnownGeometry(
+        new WellKnownGeometry("wkt", "POINT(30 10)"),
+        "Polygon"
+      );
+      expect(wrongType[0].message).toContain("'Polygon'");
+    });
+  });
+
+  describe("Structured input", () => {
+    it("should convert each subtype to GeoJSON", () => {
+      const ring = {
+        points: [
+          { x: 0, y: 0 },
+          { x: 1, y: 0 },
+          { x: 0, y: 0 },
+        ],
+      };
+      expect(geoJSONFromStructuredInput({ x: 30, y: 10, z: 5 }, 1)).toEqual({
+        type: "Point",
+        coordinates: [30, 10, 5],
+      });
+      expect(
+        geoJSONFromStructuredInput({ exterior: ring, interiors: [ring] }, 3)
+      ).toEqual({
+        type: "Polygon",
+        coordinates: [
+          [[0, 0], [1, 0], [0, 0]],
+          [[0, 0], [1, 0], [0, 0]],
+        ],
+      });
+      expect(geoJSONFromStructuredInput({ lineStrings: [ring] }, 5)).toEqual({
+        type: "MultiLineString",
+        coordinates: [[[0, 0], [1, 0], [0, 0]]],
+      });
+    });
+
+    it("should return GeoJSON and well-known input as given", () => {
+      const point = { type: "Point", coordinates: [30, 10] };
+      expect(geoJSONFromStructuredInput(point, 1)).toBe(point);
+      const wkt = new WellKnownGeometry("wkt", "POINT(30 10)");
+      expect(geoJSONFromStructuredInput(wkt, 1)).toBe(wkt);
+    });
+
+    it("should only apply to columns of subtypes without M", () => {
+      const details = (subtype: any, hasM = false) => ({
+        subtype,
+        hasZ: false,
+        hasM,
+        srid: 0,
+      });
+      expect(acceptsStructuredInput(details(1), null)).toBe(true);
+      expect(acceptsStructuredInput(details(6), null)).toBe(true);
+      expect(acceptsStructuredInput(details(0), null)).toBe(false);
+      expect(acceptsStructuredInput(details(7), null)).toBe(false);
+      expect(acceptsStructuredInput(details(1, true), null)).toBe(false);
+      expect(acceptsStructuredInput(null, null)).toBe(false);
+      expect(
+        acceptsStructuredInput(details(1), { inputFormats: ["geojson"] })
+      ).toBe(false);
+    });
+
+    it("should be written by codecs when enabled", () => {
+      const modifier = getGISTypeModifier(1, false, false, 4326);
+      const codec = createPostGISCodec("geometry", modifier, "1", {
+        structuredInput: true,
+      });
+      expect(JSON.parse(codec.toPg({ x: 30, y: 10 }) as string)).toEqual({
+        type: "Point",
+        coordinates: [30, 10],
+      });
+      const geojsonCodec = createPostGISCodec("geometry", modifier, "1");
+      expect(() => geojsonCodec.toPg({ x: 30, y: 10 })).toThrow(
+        "Invalid GeoJSON"
+      );
+    });
+  });
+
+  describe("Operands", () => {
+    const pointCodec = createPostGISCodec(
+      "geometry",
+      getGISTypeModifier(1, false, false, 4326),
+      "1"
+    );
+    const compile = (value: unknown) =>
+      sql.compile(sqlGeoJSONOperandWithPostGISCodec(value, pointCodec));
+    const polygon = {
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+    };
+
+    it("should accept any geometry type in the column's SRID", () => {
+      const { text, values } = compile(polygon);
+      expect(text).toBe(
+        "ST_SetSRID(ST_GeomFromGeoJSON($1::text), $2)::geometry"
+      );
+      expect(values).toEqual([JSON.stringify(polygon), 4326]);
+      expect(() => pointCodec.toPg(polygon)).toThrow("GeoJSON type mismatch");
+    });
+
+    it("should transform operands that declare their SRID", () => {
+      const { text, values } = compile({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [0, 0] },
+        properties: null,
+        srid: 3857,
+      });
+      expect(text).toBe(
+        "ST_Transform(ST_SetSRID(ST_GeomFromGeoJSON($1::text), $2), $3)::geometry"
+      );
+      expect(values.slice(1)).toEqual([3857, 4326]);
+    });
+
+    it("should reject invalid GeoJSON and FeatureCollections", () => {
+      expect(() => compile({ type: "Point", coordinates: ["a", 0] })).toThrow(
+        "Invalid GeoJSON: coordinates[0]"
+      );
+      expect(() =>
+        compile({ type: "FeatureCollection", features: [] })
+      ).toThrow("expected a geometry or a Feature");
+    });
+  });
+});
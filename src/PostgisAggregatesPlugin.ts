@@ -0,0 +1,272 @@
+import type { GraphileConfig } from "graphile-config";
+import { gatherConfig } from "graphile-build";
+import "graphile-build-pg";
+import type { PgCodec } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import { GIS_SUBTYPE } from "./constants";
+import { getGISTypeModifier } from "./utils";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileConfig {
+    interface GatherHelpers {
+      postgisAggregates: Record<string, never>;
+    }
+  }
+}
+
+/**
+ * An aggregate spec of @graphile/pg-aggregates: the aggregate is added to
+ * the `aggregates` and `groupedAggregates` of connections, with a field per
+ * attribute of a suitable type, whose value is the SQL aggregate of the
+ * attribute, decoded by its codec.
+ */
+interface PgAggregateSpec {
+  id: string;
+  humanLabel: string;
+  HumanLabel: string;
+  isSuitableType: (
+    codec: PgCodec<any, any, any, any, any, any, any>
+  ) => boolean;
+  sqlAggregateWrap: (
+    sqlFrag: SQL,
+    codec: PgCodec<any, any, any, any, any, any, any>
+  ) => SQL;
+  pgTypeCodecModifier?: (
+    codec: PgCodec<any, any, any, any, any, any, any>
+  ) => PgCodec<any, any, any, any, any, any, any>;
+}
+
+/** The codecs of the aggregated values of geometry or geography columns */
+interface AggregateCodecs {
+  /** Any geometry, resolved to its concrete type */
+  geometry: PgCodec;
+  /** A 2D point */
+  point: PgCodec;
+}
+
+/** The type modifier of the codec of 2D points, such as centroids */
+const POINT_TYPE_MODIFIER = getGISTypeModifier(
+  GIS_SUBTYPE.Point,
+  false,
+  false,
+  0
+);
+
+/**
+ * Finds the registered codec of the aggregated values of a PostGIS type:
+ * unconstrained, or a 2D point without an SRID.
+ */
+function findAggregateCodec(
+  pgCodecs: Record<string, PgCodec>,
+  typeName: string,
+  isPoint: boolean
+): PgCodec | undefined {
+  return Object.values(pgCodecs).find((codec) => {
+    const extensions = codec.extensions as any;
+    if (
+      !extensions?.isPostGIS ||
+      extensions.typeName !== typeName ||
+      extensions.column
+    ) {
+      return false;
+    }
+    const typeDetails = extensions.typeDetails;
+    return isPoint
+      ? typeDetails?.subtype === GIS_SUBTYPE.Point &&
+          !typeDetails.hasZ &&
+          !typeDetails.hasM &&
+          typeDetails.srid === 0
+      : !typeDetails;
+  });
+}
+
+/**
+ * Spatial aggregates of PostGIS columns, evaluated on geometry.
+ *
+ * `sqlAggregate` is given SQL for the column as geometry and whether the
+ * column has Z coordinates; `isPoint` marks aggregates whose value is always
+ * a 2D point.
+ */
+const SPATIAL_AGGREGATES: ReadonlyArray<{
+  id: string;
+  humanLabel: string;
+  sqlAggregate: (sqlGeometry: SQL, hasZ: boolean) => SQL;
+  isPoint?: boolean;
+}> = [
+  {
+    id: "extent",
+    humanLabel: "bounding box",
+    sqlAggregate: (sqlGeometry, hasZ) =>
+      // Extents have no SRID; they take that of the geometries
+      sql`ST_SetSRID(${
+        hasZ ? sql`ST_3DExtent` : sql`ST_Extent`
+      }(${sqlGeometry})::geometry, min(ST_SRID(${sqlGeometry})))`,
+  },
+  {
+    id: "union",
+    humanLabel: "union",
+    sqlAggregate: (sqlGeometry) => sql`ST_Union(${sqlGeometry})`,
+  },
+  {
+    id: "collect",
+    humanLabel: "collection",
+    sqlAggregate: (sqlGeometry) => sql`ST_Collect(${sqlGeometry})`,
+  },
+  {
+    id: "centroid",
+    humanLabel: "centroid",
+    sqlAggregate: (sqlGeometry) =>
+      sql`ST_Force2D(ST_Centroid(ST_Collect(${sqlGeometry})))`,
+    isPoint: true,
+  },
+  {
+    id: "convexHull",
+    humanLabel: "convex hull",
+    sqlAggregate: (sqlGeometry) =>
+      sql`ST_ConvexHull(ST_Collect(${sqlGeometry}))`,
+  },
+];
+
+/**
+ * Creates SQL for a spatial aggregate of a PostGIS column. Geography is
+ * aggregated as geometry, and the result cast back to geography.
+ *
+ * @example
+ * ```ts
+ * sqlSpatialAggregate(SPATIAL_AGGREGATES[1], sql`geom`, codec); // geography
+ * // Returns: sql`(ST_Union((geom)::geometry))::geography`
+ * ```
+ */
+function sqlSpatialAggregate(
+  aggregate: (typeof SPATIAL_AGGREGATES)[number],
+  sqlColumn: SQL,
+  codec: PgCodec
+): SQL {
+  const extensions = codec.extensions as any;
+  const isGeography = extensions?.typeName === "geography";
+  const sqlGeometry = isGeography ? sql`(${sqlColumn})::geometry` : sqlColumn;
+  const sqlAggregate = aggregate.sqlAggregate(
+    sqlGeometry,
+    !!extensions?.typeDetails?.hasZ
+  );
+  return isGeography ? sql`(${sqlAggregate})::geography` : sqlAggregate;
+}
+
+/**
+ * Plugin to add spatial aggregates to @graphile/pg-aggregates
+ *
+ * Adds the `extent` (`ST_Extent`, or `ST_3DExtent` for columns with Z
+ * coordinates), `union` (`ST_Union`), `collect` (`ST_Collect`), `centroid`
+ * and `convexHull` aggregates of PostGIS columns, so connections get, for
+ * example, `aggregates { extent { location { geojson } } }`, and
+ * `groupedAggregates` the same per group. The values are typed as
+ * unconstrained columns are (see the `unconstrainedColumns` option), except
+ * `centroid`, which is a 2D point; their codecs are added to the registry
+ * when gathering, so PostgisTypesPlugin gives them their GraphQL types.
+ *
+ * Geography is aggregated as geometry. The values are in the columns'
+ * stored SRID.
+ *
+ * This plugin does nothing unless @graphile/pg-aggregates is also loaded, or
+ * when the `aggregates` option is false.
+ */
+export const PostgisAggregatesPlugin: GraphileConfig.Plugin = {
+  name: "PostgisAggregatesPlugin",
+  version,
+  after: [
+    "PostgisCodecPlugin",
+    "PostgisRegisterTypesPlugin",
+    "PgAggregatesSpecsPlugin",
+  ],
+
+  gather: gatherConfig({
+    namespace: "postgisAggregates",
+    initialCache: (): Record<string, never> => ({}),
+    initialState: (): Record<string, never> => ({}),
+    helpers: {},
+    hooks: {
+      async pgRegistry_PgRegistryBuilder_pgCodecs(info, event) {
+        const { resolvedPreset } = info;
+        if (
+          resolvedPreset.schema?.postgis?.aggregates === false ||
+          !resolvedPreset.plugins?.some(
+            (plugin) => plugin.name === "PgAggregatesSpecsPlugin"
+          )
+        ) {
+          return;
+        }
+        const postgisHelpers = info.helpers.postgis;
+        for (const { name: serviceName } of resolvedPreset.pgServices ?? []) {
+          if (!postgisHelpers.isPostGISAvailable(serviceName)) {
+            continue;
+          }
+          for (const typeName of ["geometry", "geography"] as const) {
+            const pgType =
+              typeName === "geometry"
+                ? postgisHelpers.getGeometryType(serviceName)
+                : postgisHelpers.getGeographyType(serviceName);
+            if (!pgType) {
+              continue;
+            }
+            for (const typeModifier of [null, POINT_TYPE_MODIFIER]) {
+              event.registryBuilder.addCodec(
+                info.helpers.postgisCodec.getCodec(
+                  serviceName,
+                  typeName,
+                  typeModifier,
+                  String(pgType._id)
+                )
+              );
+            }
+          }
+        }
+      },
+    },
+  }),
+
+  schema: {
+    hooks: {
+      build(build) {
+        const pgAggregateSpecs: PgAggregateSpec[] | undefined = (build as any)
+          .pgAggregateSpecs;
+        if (!pgAggregateSpecs || build.options.postgis?.aggregates === false) {
+          return build;
+        }
+
+        const { pgCodecs } = build.input.pgRegistry;
+        const codecsByTypeName: Record<string, AggregateCodecs> = {};
+        for (const typeName of ["geometry", "geography"]) {
+          const geometry = findAggregateCodec(pgCodecs, typeName, false);
+          const point = findAggregateCodec(pgCodecs, typeName, true);
+          if (geometry && point) {
+            codecsByTypeName[typeName] = { geometry, point };
+          }
+        }
+
+        for (const aggregate of SPATIAL_AGGREGATES) {
+          pgAggregateSpecs.push({
+            id: aggregate.id,
+            humanLabel: aggregate.humanLabel,
+            HumanLabel:
+              aggregate.humanLabel[0].toUpperCase() +
+              aggregate.humanLabel.slice(1),
+            isSuitableType: (codec) =>
+              !!codecsByTypeName[(codec.extensions as any)?.typeName],
+            sqlAggregateWrap: (sqlFrag, codec) =>
+              sqlSpatialAggregate(aggregate, sqlFrag, codec),
+            pgTypeCodecModifier: (codec) => {
+              const codecs =
+                codecsByTypeName[(codec.extensions as any)?.typeName];
+              return aggregate.isPoint ? codecs.point : codecs.geometry;
+            },
+          });
+        }
+
+        return build;
+      },
+    },
+  },
+};
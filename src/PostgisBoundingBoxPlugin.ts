@@ -0,0 +1,226 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import type { PgCodec } from "@dataplan/pg";
+import {
+  BOUNDING_BOX_OPERATORS,
+  sqlBoundingBoxComparison,
+} from "./boundingBox";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileBuild {
+    interface ScopeInputObject {
+      isPostGISEnvelopeInput?: boolean;
+      isPostGISBoundingBoxCondition?: boolean;
+    }
+  }
+}
+
+/**
+ * Plugin to add bounding-box comparisons to connection conditions
+ *
+ * Registers the envelope input type (`xmin`, `ymin`, `xmax`, `ymax`, `srid`),
+ * which compiles to `ST_MakeEnvelope`, and adds a bounding-box condition field
+ * for every PostGIS attribute of a table's condition type. Each bounding-box
+ * operator (`&&`, `~`, `@`, `&<`, `&>`, `<<`, `>>`, `|>>`, `<<|`) compares the
+ * column with an envelope, which lets PostgreSQL use a GiST index.
+ *
+ * The same operators are exposed as filter operators by
+ * PostgisFilterOperatorsPlugin.
+ */
+export const PostgisBoundingBoxPlugin: GraphileConfig.Plugin = {
+  name: "PostgisBoundingBoxPlugin",
+  version,
+  after: ["PostgisTypesPlugin", "PgConditionArgumentPlugin"],
+
+  schema: {
+    hooks: {
+      init(_, build) {
+        const { inflection, graphql } = build;
+        const { GraphQLNonNull, GraphQLFloat, GraphQLInt } = graphql;
+
+        const envelopeInputTypeName = inflection.gisEnvelopeInputType();
+        build.registerInputObjectType(
+          envelopeInputTypeName,
+          { isPostGISEnvelopeInput: true },
+          () => ({
+            description: build.wrapDescription(
+              "A rectangular envelope, built with `ST_MakeEnvelope`.",
+              "type"
+            ),
+            fields: () => ({
+              xmin: {
+                type: new GraphQLNonNull(GraphQLFloat),
+                description: build.wrapDescription(
+                  "The minimum x (longitude) coordinate.",
+                  "field"
+                ),
+              },
+              ymin: {
+                type: new GraphQLNonNull(GraphQLFloat),
+                description: build.wrapDescription(
+                  "The minimum y (latitude) coordinate.",
+                  "field"
+                ),
+              },
+              xmax: {
+                type: new GraphQLNonNull(GraphQLFloat),
+                description: build.wrapDescription(
+                  "The maximum x (longitude) coordinate.",
+                  "field"
+                ),
+              },
+              ymax: {
+                type: new GraphQLNonNull(GraphQLFloat),
+                description: build.wrapDescription(
+                  "The maximum y (latitude) coordinate.",
+                  "field"
+                ),
+              },
+              srid: {
+                type: GraphQLInt,
+                description: build.wrapDescription(
+                  "The Spatial Reference System Identifier (SRID) of the coordinates. Defaults to the SRID of the column.",
+                  "field"
+                ),
+              },
+            }),
+          }),
+          "PostgisBoundingBoxPlugin (envelope input)"
+        );
+
+        const conditionTypeName = inflection.gisBoundingBoxConditionType();
+        build.registerInputObjectType(
+          conditionTypeName,
+          { isPostGISBoundingBoxCondition: true },
+          () => ({
+            description: build.wrapDescription(
+              "Bounding-box comparisons against envelopes. All fields are combined with a logical ‘and.’",
+              "type"
+            ),
+            fields: () =>
+              Object.fromEntries(
+                BOUNDING_BOX_OPERATORS.map(({ name, description }) => [
+                  name,
+                  {
+                    type: build.getTypeByName(envelopeInputTypeName) as any,
+                    description: build.wrapDescription(description, "field"),
+                  },
+                ])
+              ),
+          }),
+          "PostgisBoundingBoxPlugin (bounding box condition)"
+        );
+
+        return _;
+      },
+
+      GraphQLInputObjectType_fields(fields, build, context) {
+        const { scope, fieldWithHooks } = context;
+        const { isPgCondition, pgCodec } = scope as any;
+
+        if (!isPgCondition || !pgCodec?.attributes || pgCodec.isAnonymous) {
+          return fields;
+        }
+
+        const { inflection } = build;
+        const conditionType = build.getTypeByName(
+          inflection.gisBoundingBoxConditionType()
+        ) as any;
+        if (!conditionType) {
+          return fields;
+        }
+
+        const newFields: Record<string, any> = {};
+
+        for (const [attributeName, attribute] of Object.entries(
+          pgCodec.attributes
+        )) {
+          const attributeCodec = (attribute as any).codec as PgCodec;
+          if (!(attributeCodec.extensions as any)?.isPostGIS) {
+            continue;
+          }
+          if (
+            !build.behavior.pgCodecAttributeMatches(
+              [pgCodec, attributeName],
+              "attribute:filterBy"
+            )
+          ) {
+            continue;
+          }
+
+          const attributeFieldName = inflection.attribute({
+            attributeName,
+            codec: pgCodec,
+          });
+          const fieldName =
+            inflection.gisBoundingBoxConditionFieldName(attributeFieldName);
+
+          newFields[fieldName] = fieldWithHooks(
+            {
+              fieldName,
+              pgCodec,
+              pgAttribute: attribute,
+              isPgConnectionConditionInputField: true,
+            } as any,
+            {
+              description: build.wrapDescription(
+                `Compares the bounding box of the object’s \`${attributeFieldName}\` field with envelopes.`,
+                "field"
+              ),
+              type: conditionType,
+              apply: EXPORTABLE(
+                (
+                  BOUNDING_BOX_OPERATORS,
+                  attributeCodec,
+                  attributeName,
+                  sqlBoundingBoxComparison
+                ) =>
+                  function apply($condition: any, val: any) {
+                    if (val == null) {
+                      return;
+                    }
+                    for (const bboxOperator of BOUNDING_BOX_OPERATORS) {
+                      const envelope = val[bboxOperator.name];
+                      if (envelope == null) {
+                        continue;
+                      }
+                      $condition.where({
+                        type: "attribute",
+                        attribute: attributeName,
+                        callback: (expression: any) =>
+                          sqlBoundingBoxComparison(
+                            expression,
+                            attributeCodec,
+                            bboxOperator,
+                            envelope
+                          ),
+                      });
+                    }
+                  },
+                [
+                  BOUNDING_BOX_OPERATORS,
+                  attributeCodec,
+                  attributeName,
+                  sqlBoundingBoxComparison,
+                ]
+              ),
+            }
+          );
+        }
+
+        if (Object.keys(newFields).length === 0) {
+          return fields;
+        }
+
+        return build.extend(
+          fields,
+          newFields,
+          "Adding PostGIS bounding box condition fields"
+        );
+      },
+    },
+  },
+};
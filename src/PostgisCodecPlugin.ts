@@ -1,7 +1,10 @@
 import type { GraphileConfig } from "graphile-config";
 import { gatherConfig } from "graphile-build";
 import type { GatherPluginContext } from "graphile-build";
+import "graphile-build-pg";
+import type { PgCodec } from "@dataplan/pg";
 import { createPostGISCodec } from "./codec";
+import { parseColumnOptions } from "./columnOptions";
 import debugFactory from "debug";
 
 const debug = debugFactory("graphile-postgis:codec");
@@ -16,11 +19,49 @@ interface Cache {}
 declare global {
   namespace GraphileConfig {
     interface GatherHelpers {
-      postgisCodec: Record<string, never>;
+      postgisCodec: {
+        getCodec(
+          serviceName: string,
+          typeName: "geometry" | "geography",
+          typeModifier: number | null,
+          typeId: string
+        ): PgCodec;
+      };
     }
   }
 }
 
+/**
+ * Gets the codec of a PostGIS type and modifier, creating it on first use, so
+ * that all columns (and other users) of a type and modifier share a codec.
+ */
+function getOrCreateCodec(
+  info: GatherPluginContext<State, Cache>,
+  serviceName: string,
+  typeName: "geometry" | "geography",
+  typeModifier: number | null,
+  typeId: string
+): PgCodec {
+  let serviceMap = info.state.codecByModifier.get(serviceName);
+  if (!serviceMap) {
+    serviceMap = new Map();
+    info.state.codecByModifier.set(serviceName, serviceMap);
+  }
+  const key = `${typeName}_${typeModifier ?? -1}`;
+  let codec = serviceMap.get(key);
+  if (!codec) {
+    debug(`Creating codec for ${typeName} type (modifier: ${typeModifier})`);
+    codec = createPostGISCodec(
+      typeName,
+      typeModifier,
+      typeId,
+      info.resolvedPreset.schema?.postgis
+    );
+    serviceMap.set(key, codec);
+  }
+  return codec;
+}
+
 export const PostgisCodecPlugin: GraphileConfig.Plugin = {
   name: "PostgisCodecPlugin",
   version,
@@ -32,7 +73,17 @@ export const PostgisCodecPlugin: GraphileConfig.Plugin = {
     initialState: (): State => ({
       codecByModifier: new Map(),
     }),
-    helpers: {},
+    helpers: {
+      getCodec(info, serviceName, typeName, typeModifier, typeId) {
+        return getOrCreateCodec(
+          info,
+          serviceName,
+          typeName,
+          typeModifier,
+          typeId
+        );
+      },
+    },
     hooks: {
       async pgCodecs_findPgCodec(
         info: GatherPluginContext<State, Cache>,
@@ -97,46 +148,14 @@ export const PostgisCodecPlugin: GraphileConfig.Plugin = {
           (namespace?.nspname === geographyNamespace?.nspname ||
             pgType.typnamespace === geographyType.typnamespace);
 
-        if (isGeometryType) {
-          debug(
-            `Creating codec for geometry type (modifier: ${modifierNumber})`
-          );
-          const codec = createPostGISCodec(
-            "geometry",
-            modifierNumber,
-            String(pgType.oid)
-          );
-          
-          // Store codec by type and modifier so we can retrieve it later for attributes
-          let serviceMap = info.state.codecByModifier.get(serviceName);
-          if (!serviceMap) {
-            serviceMap = new Map();
-            info.state.codecByModifier.set(serviceName, serviceMap);
-          }
-          const key = `geometry_${modifierNumber ?? -1}`;
-          serviceMap.set(key, codec);
-          
-          event.pgCodec = codec;
-        } else if (isGeographyType) {
-          debug(
-            `Creating codec for geography type (modifier: ${modifierNumber})`
-          );
-          const codec = createPostGISCodec(
-            "geography",
-            modifierNumber,
+        if (isGeometryType || isGeographyType) {
+          event.pgCodec = getOrCreateCodec(
+            info,
+            serviceName,
+            isGeometryType ? "geometry" : "geography",
+            modifierNumber === -1 ? null : modifierNumber,
             String(pgType.oid)
           );
-          
-          // Store codec by type and modifier so we can retrieve it later for attributes
-          let serviceMap = info.state.codecByModifier.get(serviceName);
-          if (!serviceMap) {
-            serviceMap = new Map();
-            info.state.codecByModifier.set(serviceName, serviceMap);
-          }
-          const key = `geography_${modifierNumber ?? -1}`;
-          serviceMap.set(key, codec);
-          
-          event.pgCodec = codec;
         }
       },
       
@@ -144,7 +163,7 @@ export const PostgisCodecPlugin: GraphileConfig.Plugin = {
       // This is necessary because PostGraphile caches codecs by typeId only, not by typeId + modifier,
       // so all columns with the same base type get the same cached codec (usually the unconstrained one).
       async pgCodecs_attribute(info, event) {
-        const { attribute, pgAttribute, serviceName } = event;
+        const { attribute, pgAttribute, pgClass, serviceName } = event;
         const attributeCodec = attribute.codec;
         
         // Check if this is a PostGIS codec (but might be the wrong one due to caching)
@@ -200,37 +219,47 @@ export const PostgisCodecPlugin: GraphileConfig.Plugin = {
         }
         
         const baseTypeName = isGeometry ? "geometry" : "geography";
-        
-        // If modifier is -1 or null, the unconstrained codec is correct
-        if (modifierNumber === null || modifierNumber === -1) {
-          debug(`pgCodecs_attribute: Modifier is -1/null for ${pgAttribute.attname}, keeping unconstrained codec`);
-          return; // Already has the correct codec
-        }
-        
-        // Get or create the correct codec for this type and modifier
-        let serviceMap = info.state.codecByModifier.get(serviceName);
-        if (!serviceMap) {
-          serviceMap = new Map();
-          info.state.codecByModifier.set(serviceName, serviceMap);
-        }
-        
-        const key = `${baseTypeName}_${modifierNumber}`;
-        let correctCodec = serviceMap.get(key);
-        
-        // If codec doesn't exist yet, create it now
-        if (!correctCodec) {
-          debug(`pgCodecs_attribute: Creating codec on-demand for ${pgAttribute.attname} with modifier ${modifierNumber}`);
-          correctCodec = createPostGISCodec(
-            baseTypeName as "geometry" | "geography",
+
+        // Columns configured with smart tags get a codec of their own, which
+        // carries the configuration to the schema plugins
+        const columnOptions = parseColumnOptions(
+          attribute.extensions?.tags as Record<string, unknown> | undefined,
+          `${pgClass.relname}.${pgAttribute.attname}`
+        );
+        if (columnOptions) {
+          debug(
+            `pgCodecs_attribute: Creating codec with column options for ${pgAttribute.attname}`
+          );
+          attribute.codec = createPostGISCodec(
+            baseTypeName,
             modifierNumber,
-            String(pgType._id)
+            String(pgType._id),
+            info.resolvedPreset.schema?.postgis,
+            {
+              className: pgClass.relname,
+              attributeName: pgAttribute.attname,
+              options: columnOptions,
+            }
           );
-          serviceMap.set(key, correctCodec);
+          return;
         }
         
+        // A modifier of -1 or null is an unconstrained column; the cached
+        // codec may be a constrained one, so it is replaced too
+        const modifier = modifierNumber === -1 ? null : modifierNumber;
+
+        // Get or create the correct codec for this type and modifier
+        const correctCodec = getOrCreateCodec(
+          info,
+          serviceName,
+          baseTypeName,
+          modifier,
+          String(pgType._id)
+        );
+
         if (correctCodec && correctCodec !== attributeCodec) {
           debug(
-            `Replacing codec for attribute ${pgAttribute.attname}: ${attributeCodec.name} -> ${correctCodec.name} (modifier: ${modifierNumber})`
+            `Replacing codec for attribute ${pgAttribute.attname}: ${attributeCodec.name} -> ${correctCodec.name} (modifier: ${modifier})`
           );
           attribute.codec = correctCodec;
         } else {
@@ -239,5 +268,26 @@ export const PostgisCodecPlugin: GraphileConfig.Plugin = {
       },
     },
   }),
+
+  schema: {
+    entityBehavior: {
+      pgCodecAttribute: {
+        inferred: {
+          provides: ["postgis"],
+          after: ["default"],
+          callback(behavior, [codec, attributeName]) {
+            const attributeCodec = codec.attributes[attributeName]?.codec;
+            if (!(attributeCodec?.extensions as any)?.isPostGIS) {
+              return behavior;
+            }
+            // PostGIS codecs have no natural equality, which disables
+            // filtering by default; PostGIS attributes are filterable with
+            // spatial operators, and PostGIS parses GeoJSON for equality
+            return [behavior, "attribute:filterBy"];
+          },
+        },
+      },
+    },
+  },
 };
 
@@ -0,0 +1,282 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import type { FieldArgs, Step } from "grafast";
+import { TYPES } from "@dataplan/pg";
+import type { PgCodec } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import {
+  encodeGeoJSONOperand,
+  sqlGeoJSONWithPostGISCodec,
+} from "./mutationUtils";
+import { pgPostGISExpression } from "./pgExpression";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileBuild {
+    interface ScopeEnum {
+      isPostGISDistanceUnit?: boolean;
+    }
+  }
+}
+
+/**
+ * The values of the distance unit enum; each value is the length of the unit
+ * in meters.
+ */
+const DISTANCE_UNITS: Record<string, { value: number; description: string }> = {
+  METERS: { value: 1, description: "Meters." },
+  KILOMETERS: { value: 1000, description: "Kilometers." },
+  MILES: { value: 1609.344, description: "International miles." },
+  FEET: { value: 0.3048, description: "International feet." },
+};
+
+/**
+ * Creates SQL converting a geometry in a known SRID into WGS 84 geography, so
+ * that `ST_Distance` measures meters on the spheroid.
+ *
+ * @param srid - The SRID of the geometry, if pinned by its column
+ */
+function sqlAsGeography(sqlGeometry: SQL, srid: number | undefined): SQL {
+  if (srid === 4326) {
+    return sql`(${sqlGeometry})::geography`;
+  }
+  if (srid) {
+    return sql`ST_Transform(${sqlGeometry}, 4326)::geography`;
+  }
+  return sql`(case when ST_SRID(${sqlGeometry}) = 4326 then ${sqlGeometry} else ST_Transform(${sqlGeometry}, 4326) end)::geography`;
+}
+
+/**
+ * Creates SQL for the distance between a PostGIS value and the `to`
+ * geometry, given as SQL for its GeoJSON text and the SRID it declares,
+ * in the given unit (its length in meters).
+ *
+ * `to` is read in the value's spatial reference system unless it declares
+ * its own. Geometries without an SRID cannot be placed on the spheroid, as
+ * their units are unknown: their distance is measured on the plane, in the
+ * units of their coordinates, and is null if `to` declares an SRID.
+ */
+function sqlDistance(
+  sqlValue: SQL,
+  codec: PgCodec,
+  sqlGeoJSON: SQL,
+  sqlSRID: SQL,
+  sqlUnit: SQL
+): SQL {
+  const extensions = codec.extensions as any;
+  if (extensions?.typeName === "geography") {
+    return sql`ST_Distance(${sqlValue}, ${sqlGeoJSONWithPostGISCodec(
+      sqlGeoJSON,
+      codec,
+      sqlSRID
+    )}) / ${sqlUnit}`;
+  }
+  const srid: number | undefined = extensions?.typeDetails?.srid;
+  if (srid) {
+    return sql`ST_Distance(${sqlAsGeography(sqlValue, srid)}, ${sqlAsGeography(
+      sqlGeoJSONWithPostGISCodec(sqlGeoJSON, codec, sqlSRID),
+      srid
+    )}) / ${sqlUnit}`;
+  }
+  // The column does not pin an SRID; `to` takes that of each row unless it
+  // declares its own
+  const sqlTo = sql`ST_SetSRID(ST_GeomFromGeoJSON(${sqlGeoJSON}::text), coalesce(${sqlSRID}, ST_SRID(${sqlValue})))`;
+  return sql`(case when ST_SRID(${sqlValue}) <> 0 then ST_Distance(${sqlAsGeography(
+    sqlValue,
+    undefined
+  )}, ${sqlAsGeography(
+    sqlTo,
+    undefined
+  )}) / ${sqlUnit} when ${sqlSRID} is null then ST_Distance(${sqlValue}, ${sqlTo}) end)`;
+}
+
+/**
+ * The codec of the `to` argument: it is validated and encoded by
+ * `encodeGeoJSONOperand` when sent to the database, as JSON with its GeoJSON
+ * text (`geojson`) and the SRID it declares (`srid`). Literals are encoded
+ * when planning.
+ */
+const geoJSONOperandCodec: PgCodec = {
+  ...TYPES.json,
+  name: "postgisGeoJSONOperand",
+  toPg: (value) => JSON.stringify(encodeGeoJSONOperand(value)),
+};
+
+/**
+ * Plugin to add distance fields next to PostGIS columns
+ *
+ * Adds a `<column>Distance(to: GeoJSON!, unit: DistanceUnit = METERS)` field
+ * to table types for every PostGIS column. The distance is computed in the
+ * query with `ST_Distance` on geography, so it is measured on the spheroid
+ * whatever the column type; geometry columns are transformed to WGS 84 first.
+ *
+ * The `to` geometry may be of any type, and is read in the column's spatial
+ * reference system unless it declares its own, like filter values.
+ * Geometries without an SRID are measured on the plane instead, in the units
+ * of their coordinates.
+ */
+export const PostgisDistanceFieldsPlugin: GraphileConfig.Plugin = {
+  name: "PostgisDistanceFieldsPlugin",
+  version,
+  after: ["PostgisTypesPlugin", "PgAttributesPlugin"],
+
+  schema: {
+    hooks: {
+      init(_, build) {
+        const { inflection } = build;
+        build.registerEnumType(
+          inflection.gisDistanceUnitEnum(),
+          { isPostGISDistanceUnit: true },
+          () => ({
+            description: build.wrapDescription(
+              "Units in which distances are returned.",
+              "type"
+            ),
+            values: Object.fromEntries(
+              Object.entries(DISTANCE_UNITS).map(
+                ([name, { value, description }]) => [
+                  name,
+                  {
+                    value,
+                    description: build.wrapDescription(description, "field"),
+                  },
+                ]
+              )
+            ),
+          }),
+          "PostgisDistanceFieldsPlugin (distance unit enum)"
+        );
+        return _;
+      },
+
+      GraphQLObjectType_fields(fields, build, context) {
+        const { scope, fieldWithHooks } = context;
+        const { isPgClassType, pgCodec } = scope as any;
+
+        if (!isPgClassType || !pgCodec?.attributes) {
+          return fields;
+        }
+
+        const { inflection, graphql } = build;
+        const { GraphQLFloat, GraphQLNonNull } = graphql;
+        const newFields: Record<string, any> = {};
+
+        for (const [attributeName, attribute] of Object.entries(
+          pgCodec.attributes
+        )) {
+          const attributeCodec = (attribute as any).codec as PgCodec;
+          if (!(attributeCodec.extensions as any)?.isPostGIS) {
+            continue;
+          }
+          if (
+            !build.behavior.pgCodecAttributeMatches(
+              [pgCodec, attributeName],
+              "attribute:select"
+            )
+          ) {
+            continue;
+          }
+
+          const attributeFieldName = inflection.attribute({
+            attributeName,
+            codec: pgCodec,
+          });
+          const fieldName = inflection.gisDistanceFieldName(attributeFieldName);
+          const extensions = attributeCodec.extensions as any;
+          const pinsSRID =
+            extensions?.typeName === "geography" ||
+            !!extensions?.typeDetails?.srid;
+
+          newFields[fieldName] = fieldWithHooks(
+            { fieldName, pgCodec, pgAttribute: attribute } as any,
+            {
+              description: build.wrapDescription(
+                `The distance between \`${attributeFieldName}\` and \`to\` (ST_Distance), measured on the spheroid.${
+                  pinsSRID
+                    ? ""
+                    : " Geometries without an SRID are measured on the plane, in the units of their coordinates."
+                }`,
+                "field"
+              ),
+              type: GraphQLFloat,
+              args: {
+                to: {
+                  type: new GraphQLNonNull(
+                    build.getTypeByName("GeoJSON") as any
+                  ),
+                  description: build.wrapDescription(
+                    "The geometry to measure the distance to.",
+                    "arg"
+                  ),
+                },
+                unit: {
+                  type: build.getTypeByName(
+                    inflection.gisDistanceUnitEnum()
+                  ) as any,
+                  defaultValue: DISTANCE_UNITS.METERS.value,
+                  description: build.wrapDescription(
+                    "The unit of the returned distance.",
+                    "arg"
+                  ),
+                },
+              },
+              plan: EXPORTABLE(
+                (
+                  TYPES,
+                  attributeName,
+                  geoJSONOperandCodec,
+                  pgPostGISExpression,
+                  sql,
+                  sqlDistance
+                ) =>
+                  function plan($record: any, fieldArgs: FieldArgs): Step {
+                    return pgPostGISExpression(
+                      $record.get(attributeName),
+                      TYPES.float,
+                      (sqlValue, codec, sqlArgument) => {
+                        const sqlTo = sqlArgument(
+                          fieldArgs.getRaw("to"),
+                          geoJSONOperandCodec
+                        );
+                        return sqlDistance(
+                          sqlValue,
+                          codec,
+                          sql`(${sqlTo}->>'geojson')`,
+                          sql`(${sqlTo}->>'srid')::int`,
+                          sql`coalesce(${sqlArgument(
+                            fieldArgs.getRaw("unit"),
+                            TYPES.float
+                          )}, 1)`
+                        );
+                      }
+                    );
+                  },
+                [
+                  TYPES,
+                  attributeName,
+                  geoJSONOperandCodec,
+                  pgPostGISExpression,
+                  sql,
+                  sqlDistance,
+                ]
+              ),
+            }
+          );
+        }
+
+        if (Object.keys(newFields).length === 0) {
+          return fields;
+        }
+
+        return build.extend(
+          fields,
+          newFields,
+          `Adding PostGIS distance fields to ${pgCodec.name}`
+        );
+      },
+    },
+  },
+};
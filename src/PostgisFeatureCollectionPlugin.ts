@@ -0,0 +1,320 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import { lambda, listTransform, type FieldArgs } from "grafast";
+import { listOfCodec, TYPES } from "@dataplan/pg";
+import type { PgCodec, PgResource } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import { getColumnOptions, sqlOutputGeometry } from "./columnOptions";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileBuild {
+    interface ScopeEnum {
+      isPostGISGeometryColumnEnum?: boolean;
+      isPostGISFeaturePropertyEnum?: boolean;
+    }
+  }
+}
+
+/** The PostGIS and other attributes of a table, as used in features */
+interface FeatureAttributes {
+  postgisAttributes: string[];
+  properties: Array<{ attributeName: string; propertyName: string }>;
+}
+
+/**
+ * Gets the selectable attributes of a table codec, split into the PostGIS
+ * attributes (geometry columns) and the others (feature properties), or null
+ * if the table has no PostGIS attribute.
+ */
+function getFeatureAttributes(
+  build: GraphileBuild.Build,
+  codec: PgCodec<any, any, any, any, any, any, any>
+): FeatureAttributes | null {
+  if (!codec.attributes || codec.isAnonymous) {
+    return null;
+  }
+  const selectable = Object.keys(codec.attributes).filter((attributeName) =>
+    build.behavior.pgCodecAttributeMatches(
+      [codec, attributeName],
+      "attribute:select"
+    )
+  );
+  const postgisAttributes = selectable.filter(
+    (attributeName) =>
+      (codec.attributes[attributeName].codec.extensions as any)?.isPostGIS
+  );
+  if (postgisAttributes.length === 0) {
+    return null;
+  }
+  const properties = selectable
+    .filter((attributeName) => !postgisAttributes.includes(attributeName))
+    .map((attributeName) => ({
+      attributeName,
+      propertyName: build.inflection.attribute({ attributeName, codec }),
+    }));
+  return { postgisAttributes, properties };
+}
+
+/**
+ * Plugin to add a GeoJSON `FeatureCollection` field to connections
+ *
+ * Connections of tables with PostGIS columns get a
+ * `geojsonFeatureCollection(geometryColumn: ..., properties: [...])` field,
+ * whose features are built in SQL with `json_build_object`. Each node
+ * becomes a `Feature` whose geometry is the chosen column (by default, the first), whose
+ * properties are the table's other selectable attributes (or those listed),
+ * named as their GraphQL fields, and whose `id` is the primary key. The
+ * geometry honors the column's `@postgisPrecision` and `@postgisOutputSrid`.
+ *
+ * The collection holds the connection's page of nodes, in its order, so it
+ * is bounded by `first` and `last` like `nodes`.
+ */
+export const PostgisFeatureCollectionPlugin: GraphileConfig.Plugin = {
+  name: "PostgisFeatureCollectionPlugin",
+  version,
+  after: ["PostgisTypesPlugin"],
+
+  schema: {
+    hooks: {
+      init(_, build) {
+        const { inflection } = build;
+        for (const codec of Object.values(build.input.pgRegistry.pgCodecs)) {
+          const featureAttributes = getFeatureAttributes(build, codec as any);
+          if (!featureAttributes) {
+            continue;
+          }
+          const { postgisAttributes, properties } = featureAttributes;
+          const tableTypeName = inflection.tableType(codec as any);
+
+          build.registerEnumType(
+            inflection.gisGeometryColumnEnum(codec as any),
+            { isPostGISGeometryColumnEnum: true, pgCodec: codec as any },
+            () => ({
+              description: build.wrapDescription(
+                `The PostGIS columns of \`${tableTypeName}\` that features can take their geometry from.`,
+                "type"
+              ),
+              values: Object.fromEntries(
+                postgisAttributes.map((attributeName) => [
+                  inflection.constantCase(attributeName),
+                  { value: attributeName },
+                ])
+              ),
+            }),
+            `PostgisFeatureCollectionPlugin (geometry columns of ${codec.name})`
+          );
+
+          if (properties.length > 0) {
+            build.registerEnumType(
+              inflection.gisFeaturePropertyEnum(codec as any),
+              { isPostGISFeaturePropertyEnum: true, pgCodec: codec as any },
+              () => ({
+                description: build.wrapDescription(
+                  `The attributes of \`${tableTypeName}\` that can be feature properties.`,
+                  "type"
+                ),
+                values: Object.fromEntries(
+                  properties.map(({ attributeName, propertyName }) => [
+                    inflection.constantCase(attributeName),
+                    { value: propertyName },
+                  ])
+                ),
+              }),
+              `PostgisFeatureCollectionPlugin (feature properties of ${codec.name})`
+            );
+          }
+        }
+        return _;
+      },
+
+      GraphQLObjectType_fields(fields, build, context) {
+        const { scope, fieldWithHooks, Self } = context;
+        const { isPgConnectionRelated, isConnectionType, pgCodec } =
+          scope as any;
+        if (!isPgConnectionRelated || !isConnectionType || !pgCodec) {
+          return fields;
+        }
+        const featureAttributes = getFeatureAttributes(build, pgCodec);
+        if (!featureAttributes) {
+          return fields;
+        }
+        const { postgisAttributes, properties } = featureAttributes;
+
+        const { inflection, graphql } = build;
+        const { GraphQLList, GraphQLNonNull } = graphql;
+        const GeometryColumnType = build.getTypeByName(
+          inflection.gisGeometryColumnEnum(pgCodec)
+        ) as any;
+        const FeaturePropertyType = build.getTypeByName(
+          inflection.gisFeaturePropertyEnum(pgCodec)
+        ) as any;
+        if (!GeometryColumnType) {
+          return fields;
+        }
+
+        // The feature id is the primary key; composite keys are joined
+        const resource = (
+          Object.values(build.input.pgRegistry.pgResources) as PgResource<
+            any,
+            any,
+            any,
+            any,
+            any
+          >[]
+        ).find(
+          (resource) =>
+            resource.codec === pgCodec &&
+            !resource.parameters &&
+            !resource.isVirtual
+        );
+        const primaryKeyAttributes: string[] =
+          resource?.uniques?.find((unique: any) => unique.isPrimary)
+            ?.attributes ?? [];
+
+        const fieldName = inflection.gisFeatureCollectionFieldName();
+        return build.extend(
+          fields,
+          {
+            [fieldName]: fieldWithHooks({ fieldName } as any, {
+              description: build.wrapDescription(
+                "The nodes of this connection as a GeoJSON FeatureCollection.",
+                "field"
+              ),
+              type: new GraphQLNonNull(build.getTypeByName("GeoJSON") as any),
+              args: {
+                geometryColumn: {
+                  type: GeometryColumnType,
+                  defaultValue: postgisAttributes[0],
+                  description: build.wrapDescription(
+                    "The column the features take their geometry from.",
+                    "arg"
+                  ),
+                },
+                ...(FeaturePropertyType
+                  ? {
+                      properties: {
+                        type: new GraphQLList(
+                          new GraphQLNonNull(FeaturePropertyType)
+                        ),
+                        description: build.wrapDescription(
+                          "The attributes to include as feature properties; by default, all of them.",
+                          "arg"
+                        ),
+                      },
+                    }
+                  : null),
+              },
+              plan: EXPORTABLE(
+                (
+                  TYPES,
+                  getColumnOptions,
+                  lambda,
+                  listOfCodec,
+                  listTransform,
+                  pgCodec,
+                  postgisAttributes,
+                  primaryKeyAttributes,
+                  properties,
+                  sql,
+                  sqlOutputGeometry
+                ) =>
+                  function plan($connection: any, fieldArgs: FieldArgs) {
+                    const $select = $connection.getSubplan();
+                    const alias: SQL = $select.alias;
+                    const column = (attributeName: string) =>
+                      sql`${alias}.${sql.identifier(attributeName)}`;
+
+                    const sqlGeometryColumn = $select.placeholder(
+                      fieldArgs.getRaw("geometryColumn"),
+                      TYPES.text
+                    );
+                    const sqlGeometry = sql`case ${sqlGeometryColumn}${sql.join(
+                      postgisAttributes.map((attributeName) => {
+                        const codec = pgCodec.attributes[attributeName].codec;
+                        const precision = getColumnOptions(codec)?.precision;
+                        return sql` when ${sql.literal(
+                          attributeName
+                        )} then ST_AsGeoJSON(${sqlOutputGeometry(
+                          column(attributeName),
+                          codec
+                        )}${
+                          precision != null
+                            ? sql`, ${sql.literal(precision)}`
+                            : sql.blank
+                        })::json`;
+                      }),
+                      ""
+                    )} end`;
+
+                    const sqlId =
+                      primaryKeyAttributes.length === 0
+                        ? sql`null`
+                        : primaryKeyAttributes.length === 1
+                        ? column(primaryKeyAttributes[0])
+                        : sql`concat_ws(',', ${sql.join(
+                            primaryKeyAttributes.map(column),
+                            ", "
+                          )})`;
+
+                    let sqlProperties = sql`json_build_object(${sql.join(
+                      properties.map(
+                        ({ attributeName, propertyName }) =>
+                          sql`${sql.literal(propertyName)}, ${column(
+                            attributeName
+                          )}`
+                      ),
+                      ", "
+                    )})`;
+                    if (properties.length > 0) {
+                      // Only keep the requested properties, if any are listed
+                      const sqlNames = $select.placeholder(
+                        fieldArgs.getRaw("properties"),
+                        listOfCodec(TYPES.text)
+                      );
+                      sqlProperties = sql`case when ${sqlNames} is null then ${sqlProperties} else (select coalesce(json_object_agg(__property__.key, __property__.value), '{}'::json) from json_each(${sqlProperties}) as __property__ where __property__.key = any(${sqlNames})) end`;
+                    }
+
+                    const sqlFeature = sql`json_build_object('type', 'Feature', 'id', ${sqlId}, 'geometry', ${sqlGeometry}, 'properties', ${sqlProperties})`;
+                    const $nodes = $connection.nodes();
+                    const $features = listTransform<any, any, any, any>({
+                      listStep: $nodes,
+                      itemPlanCallback: ($item) =>
+                        $nodes.listItem($item).select(sqlFeature, TYPES.json),
+                      initialState: () => [],
+                      reduceCallback: (features, _node, feature) => {
+                        features.push(feature);
+                        return features;
+                      },
+                    });
+                    return lambda(
+                      $features,
+                      (features) => ({ type: "FeatureCollection", features }),
+                      true
+                    );
+                  },
+                [
+                  TYPES,
+                  getColumnOptions,
+                  lambda,
+                  listOfCodec,
+                  listTransform,
+                  pgCodec,
+                  postgisAttributes,
+                  primaryKeyAttributes,
+                  properties,
+                  sql,
+                  sqlOutputGeometry,
+                ]
+              ),
+            }),
+          },
+          `Adding GeoJSON FeatureCollection to connection '${Self.name}'`
+        );
+      },
+    },
+  },
+};
@@ -0,0 +1,648 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import { object, SafeError, type FieldArgs, type Step } from "grafast";
+import { listOfCodec, sideEffectWithPgClient, TYPES } from "@dataplan/pg";
+import type { PgCodec, PgResource } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import { getColumnOptions } from "./columnOptions";
+import { sqlGeoJSONWithPostGISCodec, sqlMadeValid } from "./mutationUtils";
+import { getFeatureGeometry, getGeoJSONSRID } from "./utils";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileBuild {
+    interface ScopeObject {
+      isPostGISFeatureCollectionPayload?: boolean;
+    }
+    interface ScopeInputObject {
+      isPostGISFeatureCollectionInput?: boolean;
+    }
+    interface ScopeObjectFieldsField {
+      isPostGISCreateFromFeatureCollectionMutation?: boolean;
+    }
+  }
+}
+
+/** A table attribute that a feature property maps onto */
+interface PropertyAttribute {
+  attributeName: string;
+  propertyName: string;
+}
+
+/**
+ * Gets the attributes of a table that feature properties can be stored in:
+ * the non-PostGIS, non-composite attributes allowed by the behavior, named
+ * by their GraphQL fields.
+ */
+function getPropertyAttributes(
+  build: GraphileBuild.Build,
+  codec: PgCodec<any, any, any, any, any, any, any>,
+  behavior: "attribute:insert" | "attribute:update"
+): PropertyAttribute[] {
+  return Object.entries(codec.attributes ?? {})
+    .filter(
+      ([attributeName, attribute]: [string, any]) =>
+        !attribute.codec.extensions?.isPostGIS &&
+        !attribute.codec.attributes &&
+        build.behavior.pgCodecAttributeMatches([codec, attributeName], behavior)
+    )
+    .map(([attributeName]) => ({
+      attributeName,
+      propertyName: build.inflection.attribute({ attributeName, codec }),
+    }));
+}
+
+/**
+ * Details of a resource that features can be bulk inserted into.
+ */
+interface FeatureCollectionResource {
+  resource: PgResource<any, any, any, any, any>;
+  postgisAttributes: string[];
+  primaryKeyAttribute: string;
+  propertyAttributes: PropertyAttribute[];
+}
+
+/**
+ * Gets the details needed to bulk insert features into a resource, or null if
+ * it cannot be: it must be an insertable table with an insertable PostGIS
+ * column that accepts GeoJSON input, and a single-column primary key (which
+ * identifies the new rows).
+ */
+function getFeatureCollectionResource(
+  build: GraphileBuild.Build,
+  resource: PgResource<any, any, any, any, any>
+): FeatureCollectionResource | null {
+  const { codec } = resource;
+  if (
+    resource.parameters ||
+    resource.isVirtual ||
+    !codec.attributes ||
+    codec.isAnonymous ||
+    codec.polymorphism ||
+    !build.behavior.pgResourceMatches(resource, "resource:insert")
+  ) {
+    return null;
+  }
+  const postgisAttributes = Object.keys(codec.attributes).filter(
+    (attributeName) =>
+      (codec.attributes[attributeName].codec.extensions as any)?.isPostGIS &&
+      (getColumnOptions(
+        codec.attributes[attributeName].codec
+      )?.inputFormats?.includes("geojson") ??
+        true) &&
+      build.behavior.pgCodecAttributeMatches(
+        [codec, attributeName],
+        "attribute:insert"
+      )
+  );
+  const primaryKey = resource.uniques?.find((unique: any) => unique.isPrimary);
+  if (postgisAttributes.length === 0 || primaryKey?.attributes.length !== 1) {
+    return null;
+  }
+  return {
+    resource,
+    postgisAttributes,
+    primaryKeyAttribute: primaryKey.attributes[0],
+    propertyAttributes: getPropertyAttributes(build, codec, "attribute:insert"),
+  };
+}
+
+/** A feature of a FeatureCollection, as sent to the database */
+interface FeatureRow {
+  geometry: string;
+  srid: number | null;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Gets the rows to insert for the features of a FeatureCollection.
+ *
+ * Features are validated by the geometry column's codec (which unwraps them
+ * into their geometry, with the configured topology checks), and their
+ * properties are renamed from GraphQL field names to attribute names.
+ */
+function getFeatureRows(
+  { propertyAttributes }: FeatureCollectionResource,
+  codec: PgCodec,
+  features: ReadonlyArray<any>
+): FeatureRow[] {
+  return features.map((feature, i) => {
+    let geometry: string;
+    try {
+      if (feature?.type !== "Feature") {
+        throw new Error("FeatureCollection features must be Features");
+      }
+      geometry = codec.toPg(feature) as string;
+    } catch (e) {
+      throw new SafeError(
+        `features[${i}]: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+    const properties: Record<string, unknown> = Object.create(null);
+    for (const { attributeName, propertyName } of propertyAttributes) {
+      if (feature.properties && propertyName in feature.properties) {
+        properties[attributeName] = feature.properties[propertyName];
+      }
+    }
+    return {
+      geometry,
+      srid: getGeoJSONSRID(getFeatureGeometry(feature)),
+      properties,
+    };
+  });
+}
+
+/**
+ * Creates SQL listing feature rows as `value` and `index` (from 1) under an
+ * alias, along with the SQL converting the geometry of each into a value of
+ * the codec.
+ */
+function sqlFeatureRows(
+  rows: ReadonlyArray<FeatureRow>,
+  codec: PgCodec,
+  featureAlias: SQL
+): { sqlFrom: SQL; sqlGeometry: SQL } {
+  return {
+    sqlFrom: sql`json_array_elements(${sql.value(
+      JSON.stringify(rows)
+    )}::json) with ordinality as ${featureAlias}(value, index)`,
+    sqlGeometry: sqlGeoJSONWithPostGISCodec(
+      sql`(${featureAlias}.value->>'geometry')`,
+      codec,
+      sql`(${featureAlias}.value->>'srid')::int`
+    ),
+  };
+}
+
+/**
+ * Creates SQL selecting the first feature row whose geometry
+ * `ST_IsValidDetail` finds invalid, with its index (from 1), the reason and
+ * the location.
+ */
+function sqlFirstInvalidFeature(
+  rows: ReadonlyArray<FeatureRow>,
+  codec: PgCodec
+): SQL {
+  const featureAlias = sql.identifier(Symbol("feature"));
+  const { sqlFrom, sqlGeometry } = sqlFeatureRows(rows, codec, featureAlias);
+  return sql`select ${featureAlias}.index, __detail__.reason, ST_AsText(__detail__.location) as location
+from ${sqlFrom},
+  lateral ST_IsValidDetail((${sqlGeometry})::geometry) as __detail__
+where not __detail__.valid
+order by ${featureAlias}.index
+limit 1`;
+}
+
+/**
+ * Creates SQL inserting one row per feature of a FeatureCollection, in a
+ * single statement, returning the primary keys of the new rows. With
+ * `makeValid`, the geometries are repaired with `ST_MakeValid`.
+ *
+ * `json_populate_record` casts the properties of the rows to the column
+ * types.
+ */
+function sqlInsertFeatures(
+  {
+    resource,
+    primaryKeyAttribute,
+    propertyAttributes,
+  }: FeatureCollectionResource,
+  attributeName: string,
+  rows: ReadonlyArray<FeatureRow>,
+  makeValid: boolean
+): SQL {
+  const codec = resource.codec.attributes[attributeName].codec as PgCodec;
+
+  // Columns no feature sets are left to their defaults
+  const attributeNames = propertyAttributes
+    .map(({ attributeName }) => attributeName)
+    .filter((attributeName) =>
+      rows.some(({ properties }) => attributeName in properties)
+    );
+
+  const featureAlias = sql.identifier(Symbol("feature"));
+  const rowAlias = sql.identifier(Symbol("row"));
+  const { sqlFrom, sqlGeometry } = sqlFeatureRows(rows, codec, featureAlias);
+
+  return sql`insert into ${resource.from as SQL} (${sql.join(
+    [attributeName, ...attributeNames].map((name) => sql.identifier(name)),
+    ", "
+  )})
+select ${sql.join(
+    [
+      makeValid ? sqlMadeValid(sqlGeometry, codec) : sqlGeometry,
+      ...attributeNames.map((name) => sql`${rowAlias}.${sql.identifier(name)}`),
+    ],
+    ", "
+  )}
+from ${sqlFrom},
+  json_populate_record(null::${
+    resource.codec.sqlType
+  }, ${featureAlias}.value->'properties') as ${rowAlias}
+order by ${featureAlias}.index
+returning ${sql.identifier(primaryKeyAttribute)} as id`;
+}
+
+/**
+ * Plugin to accept GeoJSON Features in mutations
+ *
+ * PostGIS columns of create and update mutations accept a `Feature`, which is
+ * stored as its geometry. With the `mapFeatureProperties` option, the
+ * feature's `properties` also set the row's other columns (those whose
+ * GraphQL field names match), unless they are given explicitly.
+ *
+ * Tables with a PostGIS column and a single-column primary key also get a
+ * `create<Table>FromFeatureCollection` mutation, inserting one row per
+ * feature of a `FeatureCollection` in a single statement; the properties of
+ * each feature set the matching columns, as above.
+ */
+export const PostgisFeatureMutationPlugin: GraphileConfig.Plugin = {
+  name: "PostgisFeatureMutationPlugin",
+  version,
+  after: [
+    "PostgisFeatureCollectionPlugin",
+    "PgAttributesPlugin",
+    "PgMutationCreatePlugin",
+    "PostgisMutationPlugin",
+  ],
+
+  schema: {
+    hooks: {
+      init(_, build) {
+        const { inflection } = build;
+        const { GraphQLList, GraphQLNonNull, GraphQLString } = build.graphql;
+
+        for (const resource of Object.values(
+          build.input.pgRegistry.pgResources
+        ) as PgResource<any, any, any, any, any>[]) {
+          const details = getFeatureCollectionResource(build, resource);
+          if (!details) {
+            continue;
+          }
+          const { codec } = resource;
+          const tableTypeName = inflection.tableType(codec);
+
+          build.registerInputObjectType(
+            inflection.gisCreateFromFeatureCollectionInputType(resource),
+            { isPostGISFeatureCollectionInput: true, pgCodec: codec },
+            () => ({
+              description: build.wrapDescription(
+                `All input for the create \`${tableTypeName}\` from a FeatureCollection mutation.`,
+                "type"
+              ),
+              fields: () => {
+                const GeometryColumnType = build.getTypeByName(
+                  inflection.gisGeometryColumnEnum(codec)
+                ) as any;
+                return {
+                  clientMutationId: {
+                    type: GraphQLString,
+                  },
+                  featureCollection: {
+                    type: new GraphQLNonNull(
+                      build.getTypeByName("GeoJSON") as any
+                    ),
+                    description: build.wrapDescription(
+                      "The GeoJSON FeatureCollection, one row of which is created per feature.",
+                      "field"
+                    ),
+                  },
+                  ...(GeometryColumnType
+                    ? {
+                        geometryColumn: {
+                          type: GeometryColumnType,
+                          description: build.wrapDescription(
+                            "The column the geometries of the features are stored in; by default, the first PostGIS column.",
+                            "field"
+                          ),
+                        },
+                      }
+                    : null),
+                };
+              },
+            }),
+            `PostgisFeatureMutationPlugin input for ${resource.name}`
+          );
+
+          build.registerObjectType(
+            inflection.gisCreateFromFeatureCollectionPayloadType(resource),
+            {
+              isMutationPayload: true,
+              isPostGISFeatureCollectionPayload: true,
+              pgTypeResource: resource,
+            },
+            () => ({
+              description: build.wrapDescription(
+                `The output of our create \`${tableTypeName}\` from a FeatureCollection mutation.`,
+                "type"
+              ),
+              fields: () => {
+                const TableType = build.getGraphQLTypeByPgCodec(
+                  codec,
+                  "output"
+                ) as any;
+                const pkCodec = codec.attributes[details.primaryKeyAttribute]
+                  .codec as PgCodec<any, any, any, any, undefined, any, any>;
+                const sqlPrimaryKey = sql.identifier(
+                  details.primaryKeyAttribute
+                );
+                return {
+                  clientMutationId: {
+                    type: GraphQLString,
+                    plan: EXPORTABLE(
+                      () =>
+                        function plan($object: any) {
+                          return $object.get("clientMutationId");
+                        },
+                      []
+                    ),
+                  },
+                  [inflection.gisCreateFromFeatureCollectionPayloadField(
+                    resource
+                  )]: {
+                    description: build.wrapDescription(
+                      `The \`${tableTypeName}\` rows that were created by this mutation, in the order of the features.`,
+                      "field"
+                    ),
+                    type: new GraphQLNonNull(
+                      new GraphQLList(new GraphQLNonNull(TableType))
+                    ),
+                    plan: EXPORTABLE(
+                      (
+                        TYPES,
+                        listOfCodec,
+                        pkCodec,
+                        resource,
+                        sql,
+                        sqlPrimaryKey
+                      ) =>
+                        function plan($object: any) {
+                          const $ids = $object.get("ids");
+                          const $rows = resource.find();
+                          const sqlIds = $rows.placeholder(
+                            $ids,
+                            listOfCodec(pkCodec)
+                          );
+                          $rows.where(
+                            sql`${$rows.alias}.${sqlPrimaryKey} = any(${sqlIds})`
+                          );
+                          $rows.orderBy({
+                            fragment: sql`array_position(${sqlIds}, ${$rows.alias}.${sqlPrimaryKey})`,
+                            codec: TYPES.int,
+                            direction: "ASC",
+                          });
+                          return $rows;
+                        },
+                      [
+                        TYPES,
+                        listOfCodec,
+                        pkCodec,
+                        resource,
+                        sql,
+                        sqlPrimaryKey,
+                      ]
+                    ),
+                  },
+                };
+              },
+            }),
+            `PostgisFeatureMutationPlugin payload for ${resource.name}`
+          );
+        }
+        return _;
+      },
+
+      GraphQLInputObjectType_fields_field(field, build, context) {
+        const { fieldBehaviorScope, pgCodec, pgAttribute } =
+          context.scope as any;
+        if (
+          !build.options.postgis?.mapFeatureProperties ||
+          !pgCodec ||
+          !pgAttribute?.codec?.extensions?.isPostGIS ||
+          (fieldBehaviorScope !== "attribute:insert" &&
+            fieldBehaviorScope !== "attribute:update") ||
+          !(field as any).apply
+        ) {
+          return field;
+        }
+
+        const propertyAttributes = getPropertyAttributes(
+          build,
+          pgCodec,
+          fieldBehaviorScope
+        );
+        if (propertyAttributes.length === 0) {
+          return field;
+        }
+        const originalApply = (field as any).apply;
+
+        return {
+          ...field,
+          apply: EXPORTABLE(
+            (originalApply, propertyAttributes) =>
+              function apply(obj: any, val: any, info: any) {
+                originalApply(obj, val, info);
+                if (
+                  val?.type !== "Feature" ||
+                  !val.properties ||
+                  typeof val.properties !== "object"
+                ) {
+                  return;
+                }
+                for (const {
+                  attributeName,
+                  propertyName,
+                } of propertyAttributes) {
+                  // Attributes given explicitly take precedence; those given
+                  // after this field override the property when applied
+                  if (
+                    propertyName in val.properties &&
+                    !obj.setters?.has(attributeName)
+                  ) {
+                    obj.set(attributeName, val.properties[propertyName]);
+                  }
+                }
+              },
+            [originalApply, propertyAttributes]
+          ),
+        };
+      },
+
+      GraphQLObjectType_fields(fields, build, context) {
+        const { scope, fieldWithHooks } = context;
+        if (!scope.isRootMutation) {
+          return fields;
+        }
+
+        const { inflection } = build;
+        const { GraphQLNonNull } = build.graphql;
+        const geometryValidity = build.options.postgis?.geometryValidity;
+        const newFields: Record<string, any> = {};
+
+        for (const resource of Object.values(
+          build.input.pgRegistry.pgResources
+        ) as PgResource<any, any, any, any, any>[]) {
+          const details = getFeatureCollectionResource(build, resource);
+          if (!details) {
+            continue;
+          }
+          const InputType = build.getTypeByName(
+            inflection.gisCreateFromFeatureCollectionInputType(resource)
+          ) as any;
+          const PayloadType = build.getTypeByName(
+            inflection.gisCreateFromFeatureCollectionPayloadType(resource)
+          ) as any;
+          if (!InputType || !PayloadType) {
+            continue;
+          }
+
+          const fieldName =
+            inflection.gisCreateFromFeatureCollectionField(resource);
+          const insertFeatures = EXPORTABLE(
+            (
+              SafeError,
+              details,
+              geometryValidity,
+              getFeatureRows,
+              sql,
+              sqlFirstInvalidFeature,
+              sqlInsertFeatures
+            ) =>
+              async function insertFeatures(
+                pgClient: any,
+                {
+                  featureCollection,
+                  geometryColumn,
+                }: { featureCollection: any; geometryColumn: string | null }
+              ): Promise<unknown[]> {
+                // The features themselves are validated by the codec
+                if (
+                  featureCollection?.type !== "FeatureCollection" ||
+                  !Array.isArray(featureCollection.features)
+                ) {
+                  throw new SafeError(
+                    "Invalid GeoJSON: expected a FeatureCollection with an array of features."
+                  );
+                }
+                const attributeName =
+                  geometryColumn ?? details.postgisAttributes[0];
+                if (!details.postgisAttributes.includes(attributeName)) {
+                  throw new SafeError(
+                    `Features cannot be inserted into '${attributeName}'.`
+                  );
+                }
+                if (featureCollection.features.length === 0) {
+                  return [];
+                }
+                const codec = details.resource.codec.attributes[attributeName]
+                  .codec as PgCodec;
+                const featureRows = getFeatureRows(
+                  details,
+                  codec,
+                  featureCollection.features
+                );
+                if (geometryValidity === "reject") {
+                  const { text, values } = sql.compile(
+                    sqlFirstInvalidFeature(featureRows, codec)
+                  );
+                  const {
+                    rows: [invalid],
+                  } = await pgClient.query({ text, values });
+                  if (invalid) {
+                    throw new SafeError(
+                      `features[${
+                        Number(invalid.index) - 1
+                      }]: Invalid geometry: ${invalid.reason}${
+                        invalid.location ? ` at ${invalid.location}` : ""
+                      }.`
+                    );
+                  }
+                }
+                const { text, values } = sql.compile(
+                  sqlInsertFeatures(
+                    details,
+                    attributeName,
+                    featureRows,
+                    geometryValidity === "makeValid"
+                  )
+                );
+                const { rows } = await pgClient.query({ text, values });
+                return rows.map((row: any) => row.id);
+              },
+            [
+              SafeError,
+              details,
+              geometryValidity,
+              getFeatureRows,
+              sql,
+              sqlFirstInvalidFeature,
+              sqlInsertFeatures,
+            ]
+          );
+
+          newFields[fieldName] = fieldWithHooks(
+            {
+              fieldName,
+              isPostGISCreateFromFeatureCollectionMutation: true,
+              pgFieldResource: resource,
+            } as any,
+            {
+              description: build.wrapDescription(
+                `Creates one \`${inflection.tableType(
+                  resource.codec
+                )}\` per feature of a GeoJSON FeatureCollection, in a single statement.`,
+                "field"
+              ),
+              type: PayloadType,
+              args: {
+                input: {
+                  type: new GraphQLNonNull(InputType),
+                },
+              },
+              plan: EXPORTABLE(
+                (insertFeatures, object, resource, sideEffectWithPgClient) =>
+                  function plan(_$root: Step, fieldArgs: FieldArgs): Step {
+                    const $ids = sideEffectWithPgClient(
+                      resource.executor,
+                      {
+                        featureCollection: fieldArgs.getRaw([
+                          "input",
+                          "featureCollection",
+                        ]),
+                        geometryColumn: fieldArgs.getRaw([
+                          "input",
+                          "geometryColumn",
+                        ]),
+                      },
+                      insertFeatures
+                    );
+                    return object({
+                      ids: $ids,
+                      clientMutationId: fieldArgs.getRaw([
+                        "input",
+                        "clientMutationId",
+                      ]),
+                    });
+                  },
+                [insertFeatures, object, resource, sideEffectWithPgClient]
+              ),
+            }
+          );
+        }
+
+        if (Object.keys(newFields).length === 0) {
+          return fields;
+        }
+
+        return build.extend(
+          fields,
+          newFields,
+          "Adding PostGIS create from FeatureCollection mutations"
+        );
+      },
+    },
+  },
+};
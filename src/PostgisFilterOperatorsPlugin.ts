@@ -0,0 +1,389 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import type {
+  PgCodec,
+  PgCondition,
+  PgConditionCapableParent,
+} from "@dataplan/pg";
+import type { GraphQLInputType } from "graphql";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+// Only the types, for the build augmentations: the plugin is optional
+import type {} from "postgraphile-plugin-connection-filter";
+import { sqlGeoJSONOperandWithPostGISCodec } from "./mutationUtils";
+import { BOUNDING_BOX_OPERATORS, sqlEnvelope } from "./boundingBox";
+import type { Envelope } from "./boundingBox";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileBuild {
+    interface ScopeInputObject {
+      isPostGISDistanceWithinInput?: boolean;
+    }
+  }
+}
+
+/** The value of the `dWithin` operator */
+interface DistanceWithin {
+  geometry: unknown;
+  distance: number;
+}
+
+/**
+ * Spatial relationship operators exposed on PostGIS filter types.
+ *
+ * `geographyNative` marks functions PostGIS implements for `geography`; every
+ * other function is evaluated on `geometry`, so geography columns and values
+ * are cast before the function is applied.
+ */
+export const SPATIAL_OPERATORS: ReadonlyArray<{
+  name: string;
+  fn: string;
+  /** The function, as SQL */
+  sqlFn: SQL;
+  description: string;
+  geographyNative: boolean;
+  /** When true, the input value is the first argument of the function */
+  reversed?: boolean;
+}> = [
+  {
+    name: "intersects",
+    fn: "ST_Intersects",
+    sqlFn: sql`ST_Intersects`,
+    description:
+      "Shares any portion of space with the specified geometry (ST_Intersects).",
+    geographyNative: true,
+  },
+  {
+    name: "contains",
+    fn: "ST_Contains",
+    sqlFn: sql`ST_Contains`,
+    description: "Contains the specified geometry (ST_Contains).",
+    geographyNative: false,
+  },
+  {
+    name: "containedBy",
+    fn: "ST_Contains",
+    sqlFn: sql`ST_Contains`,
+    description:
+      "Is contained by the specified geometry (ST_Contains, with the specified geometry as the container).",
+    geographyNative: false,
+    reversed: true,
+  },
+  {
+    name: "within",
+    fn: "ST_Within",
+    sqlFn: sql`ST_Within`,
+    description: "Is completely inside the specified geometry (ST_Within).",
+    geographyNative: false,
+  },
+  {
+    name: "crosses",
+    fn: "ST_Crosses",
+    sqlFn: sql`ST_Crosses`,
+    description:
+      "Has some, but not all, interior points in common with the specified geometry (ST_Crosses).",
+    geographyNative: false,
+  },
+  {
+    name: "touches",
+    fn: "ST_Touches",
+    sqlFn: sql`ST_Touches`,
+    description:
+      "Has at least one point in common with the specified geometry, but their interiors do not intersect (ST_Touches).",
+    geographyNative: false,
+  },
+  {
+    name: "overlaps",
+    fn: "ST_Overlaps",
+    sqlFn: sql`ST_Overlaps`,
+    description:
+      "Shares space with the specified geometry, but is not completely contained by it (ST_Overlaps).",
+    geographyNative: false,
+  },
+  {
+    name: "equals",
+    fn: "ST_Equals",
+    sqlFn: sql`ST_Equals`,
+    description: "Is spatially equal to the specified geometry (ST_Equals).",
+    geographyNative: false,
+  },
+  {
+    name: "disjoint",
+    fn: "ST_Disjoint",
+    sqlFn: sql`ST_Disjoint`,
+    description:
+      "Does not share any space with the specified geometry (ST_Disjoint).",
+    geographyNative: false,
+  },
+  {
+    name: "coveredBy",
+    fn: "ST_CoveredBy",
+    sqlFn: sql`ST_CoveredBy`,
+    description: "No point is outside the specified geometry (ST_CoveredBy).",
+    geographyNative: true,
+  },
+  {
+    name: "covers",
+    fn: "ST_Covers",
+    sqlFn: sql`ST_Covers`,
+    description:
+      "No point in the specified geometry is outside this one (ST_Covers).",
+    geographyNative: true,
+  },
+];
+
+/**
+ * Builds the SQL for the column the filter is being applied to.
+ *
+ * Mirrors how postgraphile-plugin-connection-filter resolves the identifier,
+ * so operators can reference the column from within `resolveSqlValue`, which
+ * it passes the condition of the filtered column.
+ */
+function sqlIdentifierFromCondition($where: PgConditionCapableParent): SQL {
+  const { attributeName, attribute, expression } =
+    ($where as PgCondition).extensions?.pgFilterAttribute ?? {};
+  if (attribute) {
+    return attribute.expression
+      ? attribute.expression($where.alias)
+      : sql`${$where.alias}.${sql.identifier(attributeName!)}`;
+  }
+  return expression ?? $where.alias;
+}
+
+/**
+ * Converts a filter input value into a PostGIS value comparable with the
+ * filtered column. The value may be of any geometry type, whatever the
+ * column's.
+ *
+ * Values take the column SRID from `extensions.typeDetails`. When the column
+ * does not pin an SRID (unconstrained, or SRID 0), the SRID of each row is
+ * used instead so that PostGIS does not reject the comparison for mixing
+ * SRIDs; note that this prevents the use of a spatial index.
+ */
+function sqlFilterValue(
+  $where: PgConditionCapableParent,
+  value: unknown,
+  codec: PgCodec,
+  asGeometry: boolean
+): SQL {
+  const extensions = codec.extensions as any;
+  const isGeography = extensions?.typeName === "geography";
+  let sqlValue = sqlGeoJSONOperandWithPostGISCodec(value, codec);
+  if (!isGeography && !extensions?.typeDetails?.srid) {
+    sqlValue = sql`ST_SetSRID(${sqlValue}, ST_SRID(${sqlIdentifierFromCondition(
+      $where
+    )}))`;
+  }
+  return isGeography && asGeometry ? sql`(${sqlValue})::geometry` : sqlValue;
+}
+
+/**
+ * Plugin to add spatial filter operators for postgraphile-plugin-connection-filter
+ *
+ * Registers operators such as `intersects`, `contains`, `within` and `dWithin`
+ * on the filter type of every PostGIS geometry/geography codec. Operator
+ * values are GeoJSON and compile to the matching `ST_*` function call.
+ *
+ * Bounding-box operators (`bboxIntersects`, `bboxContains`, ...) take an
+ * envelope instead and compile to the matching PostGIS operator (`&&`, `~`,
+ * ...).
+ *
+ * This plugin does nothing unless postgraphile-plugin-connection-filter is
+ * also loaded, or when the `filters` option is false.
+ */
+export const PostgisFilterOperatorsPlugin: GraphileConfig.Plugin = {
+  name: "PostgisFilterOperatorsPlugin",
+  version,
+  after: [
+    "PostgisTypesPlugin",
+    "AddConnectionFilterOperatorPlugin",
+    "PgConnectionArgFilterPlugin",
+  ],
+
+  schema: {
+    hooks: {
+      init(_, build) {
+        if (build.options.postgis?.filters === false) {
+          return _;
+        }
+        const { addConnectionFilterOperator } = build;
+        if (!addConnectionFilterOperator) {
+          // postgraphile-plugin-connection-filter is not loaded
+          return _;
+        }
+
+        const { inflection, graphql } = build;
+        const { GraphQLNonNull, GraphQLFloat } = graphql;
+
+        // Collect the output type name of every PostGIS codec; the filter
+        // types are named after these
+        const typeNames = new Set<string>();
+        for (const codec of build.allPgCodecs) {
+          if (!(codec.extensions as any)?.isPostGIS) {
+            continue;
+          }
+          const typeName = build.getGraphQLTypeNameByPgCodec(codec, "output");
+          if (typeName) {
+            typeNames.add(typeName);
+          }
+        }
+
+        if (typeNames.size === 0) {
+          return _;
+        }
+
+        const distanceWithinInputTypeName =
+          inflection.gisDistanceWithinInputType();
+        build.registerInputObjectType(
+          distanceWithinInputTypeName,
+          { isPostGISDistanceWithinInput: true },
+          () => ({
+            description: build.wrapDescription(
+              "A geometry and a distance, used to find values within that distance of the geometry.",
+              "type"
+            ),
+            fields: () => ({
+              geometry: {
+                type: new GraphQLNonNull(build.getTypeByName("GeoJSON") as any),
+                description: build.wrapDescription(
+                  "The geometry to measure the distance from.",
+                  "field"
+                ),
+              },
+              distance: {
+                type: new GraphQLNonNull(GraphQLFloat),
+                description: build.wrapDescription(
+                  "The distance, in units of the column's spatial reference system (meters for geography).",
+                  "field"
+                ),
+              },
+            }),
+          }),
+          "PostgisFilterOperatorsPlugin (distance within input)"
+        );
+
+        const operatorTypeNames = [...typeNames];
+
+        for (const {
+          name,
+          sqlFn,
+          description,
+          geographyNative,
+          reversed,
+        } of SPATIAL_OPERATORS) {
+          addConnectionFilterOperator(operatorTypeNames, name, {
+            description,
+            resolveSqlIdentifier: EXPORTABLE(
+              (geographyNative, sql) =>
+                (sqlIdentifier: SQL, codec: PgCodec): readonly [SQL, PgCodec] =>
+                  !geographyNative &&
+                  (codec.extensions as any)?.typeName === "geography"
+                    ? [sql`(${sqlIdentifier})::geometry`, codec]
+                    : [sqlIdentifier, codec],
+              [geographyNative, sql]
+            ),
+            resolveSqlValue: EXPORTABLE(
+              (geographyNative, sqlFilterValue) =>
+                (
+                  $where: PgConditionCapableParent,
+                  value: unknown,
+                  codec: PgCodec
+                ): SQL =>
+                  sqlFilterValue($where, value, codec, !geographyNative),
+              [geographyNative, sqlFilterValue]
+            ),
+            resolve: EXPORTABLE(
+              (reversed, sql, sqlFn) =>
+                (sqlIdentifier: SQL, sqlValue: SQL): SQL =>
+                  reversed
+                    ? sql`${sqlFn}(${sqlValue}, ${sqlIdentifier})`
+                    : sql`${sqlFn}(${sqlIdentifier}, ${sqlValue})`,
+              [reversed ?? false, sql, sqlFn]
+            ),
+          });
+        }
+
+        addConnectionFilterOperator(operatorTypeNames, "dWithin", {
+          description:
+            "Is within the specified distance of the specified geometry (ST_DWithin).",
+          resolveType: () =>
+            build.getTypeByName(
+              distanceWithinInputTypeName
+            ) as GraphQLInputType,
+          resolveSqlValue: EXPORTABLE(
+            (sqlFilterValue) =>
+              (
+                $where: PgConditionCapableParent,
+                value: DistanceWithin,
+                codec: PgCodec
+              ): SQL =>
+                sqlFilterValue($where, value.geometry, codec, false),
+            [sqlFilterValue]
+          ),
+          resolve: EXPORTABLE(
+            (sql) =>
+              (sqlIdentifier: SQL, sqlValue: SQL, input: unknown): SQL =>
+                sql`ST_DWithin(${sqlIdentifier}, ${sqlValue}, ${sql.value(
+                  (input as DistanceWithin).distance
+                )})`,
+            [sql]
+          ),
+        });
+
+        const envelopeInputTypeName = inflection.gisEnvelopeInputType();
+        for (const bboxOperator of BOUNDING_BOX_OPERATORS) {
+          const { name, sqlOperator, description, geographyNative } =
+            bboxOperator;
+          addConnectionFilterOperator(
+            operatorTypeNames,
+            inflection.camelCase(`bbox-${name}`),
+            {
+              description,
+              resolveType: () =>
+                build.getTypeByName(envelopeInputTypeName) as GraphQLInputType,
+              resolveSqlIdentifier: EXPORTABLE(
+                (geographyNative, sql) =>
+                  (
+                    sqlIdentifier: SQL,
+                    codec: PgCodec
+                  ): readonly [SQL, PgCodec] =>
+                    !geographyNative &&
+                    (codec.extensions as any)?.typeName === "geography"
+                      ? [sql`(${sqlIdentifier})::geometry`, codec]
+                      : [sqlIdentifier, codec],
+                [geographyNative, sql]
+              ),
+              resolveSqlValue: EXPORTABLE(
+                (geographyNative, sqlEnvelope, sqlIdentifierFromCondition) =>
+                  (
+                    $where: PgConditionCapableParent,
+                    value: Envelope,
+                    codec: PgCodec
+                  ): SQL =>
+                    sqlEnvelope(
+                      value,
+                      codec,
+                      sqlIdentifierFromCondition($where),
+                      geographyNative &&
+                        (codec.extensions as any)?.typeName === "geography"
+                    ),
+                [geographyNative, sqlEnvelope, sqlIdentifierFromCondition]
+              ),
+              resolve: EXPORTABLE(
+                (sql, sqlOperator) =>
+                  (sqlIdentifier: SQL, sqlValue: SQL): SQL =>
+                    sql`${sqlIdentifier} ${sqlOperator} ${sqlValue}`,
+                [sql, sqlOperator]
+              ),
+            }
+          );
+        }
+
+        return _;
+      },
+    },
+  },
+};
@@ -0,0 +1,227 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import { lambda, SafeError, type FieldArgs, type Step } from "grafast";
+import { PgClassExpressionStep, TYPES } from "@dataplan/pg";
+import { sql } from "pg-sql2";
+import { getColumnOptions, sqlOutputGeometry } from "./columnOptions";
+import {
+  hasArgument,
+  pgPostGISExpression,
+  sqlTransformed,
+} from "./pgExpression";
+import { roundGeoJSONCoordinates } from "./utils";
+
+const { version } = require("../package.json");
+
+/** `ST_AsGeoJSON`'s default `maxdecimaldigits` */
+const DEFAULT_PRECISION = 9;
+
+/**
+ * Plugin to add output options to the `geojson` field of the geometry types
+ *
+ * `geojson(srid: Int, precision: Int, includeBbox: Boolean, includeCrs:
+ * Boolean)` maps onto `ST_AsGeoJSON`'s `maxdecimaldigits` and options
+ * bitmask (and `ST_Transform` for `srid`), computed per selection in SQL.
+ * Without arguments the GeoJSON selected by the codec is returned, unless the
+ * `geojsonPrecision` option sets a default precision. A
+ * column's `@postgisPrecision` and `@postgisOutputSrid` smart tags take
+ * precedence over the defaults.
+ *
+ * Geometries nested within other geometries (such as the polygons of a
+ * MultiPolygon) are built from the column's GeoJSON; their coordinates are
+ * rounded in JavaScript, and the other options are not supported on them.
+ */
+export const PostgisGeoJSONFieldPlugin: GraphileConfig.Plugin = {
+  name: "PostgisGeoJSONFieldPlugin",
+  version,
+  after: ["PostgisRegisterTypesPlugin"],
+
+  schema: {
+    hooks: {
+      GraphQLInterfaceType_fields_field(field, build, context) {
+        const { isPostGISInterface, fieldName } = context.scope as any;
+        if (
+          !isPostGISInterface ||
+          fieldName !== build.inflection.geojsonFieldName()
+        ) {
+          return field;
+        }
+        return {
+          ...field,
+          args: build.extend(
+            field.args ?? {},
+            getGeoJSONArgs(build),
+            `Adding GeoJSON output arguments to ${fieldName}`
+          ),
+        };
+      },
+
+      GraphQLObjectType_fields_field(field, build, context) {
+        const { isPostGISType, isGeometryType, fieldName } =
+          context.scope as any;
+        if (
+          !isPostGISType ||
+          !isGeometryType ||
+          fieldName !== build.inflection.geojsonFieldName()
+        ) {
+          return field;
+        }
+
+        const originalPlan = field.plan as any;
+        const defaultPrecision =
+          build.options.postgis?.geojsonPrecision ?? null;
+
+        return {
+          ...field,
+          args: build.extend(
+            field.args ?? {},
+            getGeoJSONArgs(build),
+            `Adding GeoJSON output arguments to ${fieldName}`
+          ),
+          plan: EXPORTABLE(
+            (
+              DEFAULT_PRECISION,
+              PgClassExpressionStep,
+              SafeError,
+              TYPES,
+              defaultPrecision,
+              getColumnOptions,
+              hasArgument,
+              lambda,
+              originalPlan,
+              pgPostGISExpression,
+              roundGeoJSONCoordinates,
+              sql,
+              sqlOutputGeometry,
+              sqlTransformed
+            ) =>
+              function plan(
+                $source: Step,
+                fieldArgs: FieldArgs,
+                info: any
+              ): Step {
+                const $srid = fieldArgs.getRaw("srid");
+                const $precision = fieldArgs.getRaw("precision");
+                const $includeBbox = fieldArgs.getRaw("includeBbox");
+                const $includeCrs = fieldArgs.getRaw("includeCrs");
+                const hasSQLOptions = [$srid, $includeBbox, $includeCrs].some(
+                  hasArgument
+                );
+                // The codec of a column with its own precision selects
+                // GeoJSON with that precision already
+                const columnPrecision =
+                  $source instanceof PgClassExpressionStep
+                    ? getColumnOptions($source.pgCodec)?.precision
+                    : undefined;
+                if (
+                  !hasSQLOptions &&
+                  !hasArgument($precision) &&
+                  (defaultPrecision == null || columnPrecision != null)
+                ) {
+                  return originalPlan($source, fieldArgs, info);
+                }
+
+                if (!($source instanceof PgClassExpressionStep)) {
+                  if (hasSQLOptions) {
+                    throw new SafeError(
+                      "The srid, includeBbox and includeCrs arguments are only supported on geometries selected from a column, not on geometries nested within them."
+                    );
+                  }
+                  return lambda(
+                    [originalPlan($source, fieldArgs, info), $precision],
+                    ([geojson, precision]) =>
+                      roundGeoJSONCoordinates(
+                        geojson,
+                        precision ?? defaultPrecision ?? DEFAULT_PRECISION
+                      ),
+                    true
+                  );
+                }
+
+                return pgPostGISExpression(
+                  $source,
+                  TYPES.json,
+                  (sqlValue, codec, sqlArgument) => {
+                    const sqlGeometry = hasArgument($srid)
+                      ? sqlTransformed(
+                          sqlValue,
+                          codec,
+                          sqlArgument($srid, TYPES.int)
+                        )
+                      : sqlOutputGeometry(sqlValue, codec);
+                    // Options: 1 adds the bbox; 2 adds the short CRS; 8
+                    // (the default) adds the short CRS unless it is EPSG:4326
+                    return sql`ST_AsGeoJSON(${sqlGeometry}, coalesce(${sqlArgument(
+                      $precision,
+                      TYPES.int
+                    )}, ${sql.literal(
+                      columnPrecision ?? defaultPrecision ?? DEFAULT_PRECISION
+                    )}), (case when ${sqlArgument(
+                      $includeBbox,
+                      TYPES.boolean
+                    )} then 1 else 0 end) + (case ${sqlArgument(
+                      $includeCrs,
+                      TYPES.boolean
+                    )} when true then 2 when false then 0 else 8 end))::json`;
+                  }
+                );
+              },
+            [
+              DEFAULT_PRECISION,
+              PgClassExpressionStep,
+              SafeError,
+              TYPES,
+              defaultPrecision,
+              getColumnOptions,
+              hasArgument,
+              lambda,
+              originalPlan,
+              pgPostGISExpression,
+              roundGeoJSONCoordinates,
+              sql,
+              sqlOutputGeometry,
+              sqlTransformed,
+            ]
+          ),
+        };
+      },
+    },
+  },
+};
+
+/**
+ * The arguments of the `geojson` field.
+ */
+function getGeoJSONArgs(build: GraphileBuild.Build) {
+  const { GraphQLInt, GraphQLBoolean } = build.graphql;
+  return {
+    srid: {
+      type: GraphQLInt,
+      description: build.wrapDescription(
+        "The SRID to reproject the geometry into (ST_Transform); by default, the column's output SRID, or the geometry's own SRID.",
+        "arg"
+      ),
+    },
+    precision: {
+      type: GraphQLInt,
+      description: build.wrapDescription(
+        "The maximum number of decimal digits of the coordinates.",
+        "arg"
+      ),
+    },
+    includeBbox: {
+      type: GraphQLBoolean,
+      description: build.wrapDescription(
+        "Whether to include the bounding box (`bbox`).",
+        "arg"
+      ),
+    },
+    includeCrs: {
+      type: GraphQLBoolean,
+      description: build.wrapDescription(
+        "Whether to include the coordinate reference system (`crs`); by default, it is included unless it is EPSG:4326.",
+        "arg"
+      ),
+    },
+  };
+}
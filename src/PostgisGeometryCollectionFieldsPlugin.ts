@@ -1,7 +1,7 @@
 import type { GraphileConfig } from "graphile-config";
 import { EXPORTABLE } from "graphile-build";
 import { lambda, type Step } from "grafast";
-import { GIS_SUBTYPE } from "./constants";
+import { GIS_SUBTYPE, GIS_SUBTYPE_NAME } from "./constants";
 
 const { version } = require("../package.json");
 
@@ -11,6 +11,11 @@ const { version } = require("../package.json");
  * This plugin detects PostGIS GeometryCollection geometry/geography columns and adds
  * a `geometries` field that returns an array of GeoJSON geometry objects extracted from
  * the GeometryCollection.
+ *
+ * The members are typed as GeometryInterface, and resolve to the concrete
+ * type of their GeoJSON type with the collection's dimensions (such as
+ * `GeometryPointZ` in a `GeometryCollectionZ`), so they can be selected with
+ * fragments like `... on GeometryPoint { x y }`.
  */
 export const PostgisGeometryCollectionFieldsPlugin: GraphileConfig.Plugin = {
   name: "PostgisGeometryCollectionFieldsPlugin",
@@ -43,6 +48,28 @@ export const PostgisGeometryCollectionFieldsPlugin: GraphileConfig.Plugin = {
           const newFields: Record<string, any> = {};
           const geometryInterfaceType = build.getTypeByName("GeometryInterface") as any;
 
+          // The members have the collection's dimensions; GeometryInterface
+          // resolves each of them to the concrete type of its GeoJSON type
+          const memberTypeNames: Record<string, string> = Object.create(null);
+          for (const memberSubtype of [
+            GIS_SUBTYPE.Point,
+            GIS_SUBTYPE.LineString,
+            GIS_SUBTYPE.Polygon,
+            GIS_SUBTYPE.MultiPoint,
+            GIS_SUBTYPE.MultiLineString,
+            GIS_SUBTYPE.MultiPolygon,
+            GIS_SUBTYPE.GeometryCollection,
+          ] as const) {
+            memberTypeNames[GIS_SUBTYPE_NAME[memberSubtype]] = (
+              build as any
+            ).getPostGISGeometryType(
+              objectScope.isGeographyType ? "geography" : "geometry",
+              memberSubtype,
+              !!objectScope.hasZ,
+              !!objectScope.hasM
+            );
+          }
+
           // Add geometries field - returns array of geometry objects that implement GeometryInterface
           // Since GeometryCollection can contain different geometry types, we use GeometryInterface
           newFields["geometries"] = fieldWithHooks(
@@ -51,7 +78,7 @@ export const PostgisGeometryCollectionFieldsPlugin: GraphileConfig.Plugin = {
             } as any,
             {
               description: build.wrapDescription(
-                `An array of geometry objects in this GeometryCollection. Each geometry implements GeometryInterface.`,
+                `An array of geometry objects in this GeometryCollection. Each geometry implements GeometryInterface, and is of the concrete type of its GeoJSON type.`,
                 "field"
               ),
               type: new GraphQLNonNull(
@@ -60,51 +87,49 @@ export const PostgisGeometryCollectionFieldsPlugin: GraphileConfig.Plugin = {
                 )
               ),
               plan: EXPORTABLE(
-                () =>
+                (lambda, memberTypeNames) =>
                   function plan($source: any): Step {
                     // $source is the geometry object from the codec: { geojson, srid }
-                    // Use lambda to convert null to empty object, ensuring we never return null
-                    // This prevents GraphQL from seeing null for a non-nullable field
                     return lambda(
                       $source,
                       (parent: any) => {
-                        // Always return an object, never null
-                        // If parent is null, return empty object which resolve will convert to []
-                        if (parent == null) {
-                          return {};
+                        const geojson = parent?.geojson;
+                        // GeometryCollection GeoJSON format: { type: "GeometryCollection", geometries: [...] }
+                        if (
+                          !geojson ||
+                          geojson.type !== "GeometryCollection" ||
+                          !Array.isArray(geojson.geometries)
+                        ) {
+                          // The field is non-nullable
+                          return [];
                         }
-                        return parent;
+                        const srid = parent.srid || 0;
+                        // Each member is a geometry object like those the
+                        // codec returns, and carries its concrete type
+                        return geojson.geometries.map((geometry: any) => {
+                          const member: any = {
+                            __typename: memberTypeNames[geometry?.type] ?? null,
+                            geojson: geometry,
+                            srid,
+                          };
+                          if (
+                            geometry?.type === "Point" &&
+                            Array.isArray(geometry.coordinates)
+                          ) {
+                            const [x, y, z] = geometry.coordinates;
+                            Object.assign(
+                              member,
+                              { x, y },
+                              z !== undefined ? { z } : null
+                            );
+                          }
+                          return member;
+                        });
                       },
-                      true // allow null in input, but we convert it to {} in the function
+                      true
                     ) as Step;
                   },
-                []
-              ),
-              resolve: EXPORTABLE(
-                () =>
-                  function resolve(parent: any) {
-                    // parent is the full geometry object: { geojson, srid }
-                    if (!parent || !parent.geojson) {
-                      return [];
-                    }
-                    
-                    // parent is { geojson, srid }
-                    const geojson = parent.geojson;
-                    const srid = parent.srid || 0;
-                    
-                    // GeometryCollection GeoJSON format: { type: "GeometryCollection", geometries: [...] }
-                    if (typeof geojson === "object" && geojson && geojson.type === "GeometryCollection" && Array.isArray(geojson.geometries)) {
-                      // Return geometry objects with geojson and srid fields
-                      // Each geometry in the collection is a GeoJSON object, we wrap it with srid
-                      return geojson.geometries.map((geom: any) => ({
-                        geojson: geom,
-                        srid: srid,
-                      }));
-                    }
-                    // Return empty array if no geometries (field is non-nullable list)
-                    return [];
-                  },
-                []
+                [lambda, memberTypeNames]
               ),
             }
           );
@@ -0,0 +1,325 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import { SafeError, type FieldArgs, type Step } from "grafast";
+import { loadOneWithPgClient } from "@dataplan/pg";
+import type { PgCodec, PgResource } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileBuild {
+    interface ScopeObjectFieldsField {
+      isPostGISTileField?: boolean;
+    }
+  }
+}
+
+/** The default tile extent, in tile coordinate units */
+const DEFAULT_EXTENT = 4096;
+
+/** The default tile buffer, in tile coordinate units */
+const DEFAULT_BUFFER = 256;
+
+/** The arguments of a tile field */
+interface TileArgs {
+  z: number;
+  x: number;
+  y: number;
+  extent: number | null;
+  buffer: number | null;
+}
+
+/**
+ * Creates SQL for the Mapbox Vector Tile of a resource's PostGIS column,
+ * encoded as base64 text.
+ *
+ * Rows are selected from the tile envelope (plus the buffer) using the
+ * column's spatial index where the SRID is known, and the given attributes
+ * become the feature properties.
+ */
+function sqlTile(
+  resource: PgResource<any, any, any, any, any>,
+  attributeName: string,
+  properties: ReadonlyArray<{ attributeName: string; propertyName: string }>,
+  { z, x, y, extent, buffer }: TileArgs
+): SQL {
+  const codec = resource.codec.attributes[attributeName].codec as PgCodec;
+  const extensions = codec.extensions as any;
+  const isGeography = extensions?.typeName === "geography";
+  const srid: number | undefined = isGeography
+    ? 4326
+    : extensions?.typeDetails?.srid || undefined;
+
+  const alias = sql.identifier(Symbol(resource.name));
+  const sqlColumn = sql`${alias}.${sql.identifier(attributeName)}`;
+  const sqlExtent = sql`${sql.value(extent ?? DEFAULT_EXTENT)}::int`;
+  const sqlBuffer = sql`${sql.value(buffer ?? DEFAULT_BUFFER)}::int`;
+  const sqlTileIndex = sql`${sql.value(z)}::int, ${sql.value(
+    x
+  )}::int, ${sql.value(y)}::int`;
+  const sqlEnvelope = sql`ST_TileEnvelope(${sqlTileIndex})`;
+  const sqlBufferedEnvelope = sql`ST_TileEnvelope(${sqlTileIndex}, margin => (${sqlBuffer}::float8 / ${sqlExtent}))`;
+  // Geometries without an SRID are assumed to be in WGS 84
+  const sqlMercator = sql`ST_Transform(${
+    isGeography
+      ? sql`${sqlColumn}::geometry`
+      : srid == null
+      ? sql`(case when ST_SRID(${sqlColumn}) = 0 then ST_SetSRID(${sqlColumn}, 4326) else ${sqlColumn} end)`
+      : sqlColumn
+  }, 3857)`;
+
+  // Compare in the column's SRID where it is known, so the index is used
+  const sqlWhere =
+    srid == null
+      ? sql`${sqlMercator} && ${sqlBufferedEnvelope}`
+      : isGeography
+      ? sql`${sqlColumn} && ST_Transform(${sqlBufferedEnvelope}, 4326)::geography`
+      : sql`${sqlColumn} && ST_Transform(${sqlBufferedEnvelope}, ${sql.value(
+          srid
+        )}::int)`;
+
+  const sqlProperties = properties.map(
+    ({ attributeName, propertyName }) =>
+      sql`, ${alias}.${sql.identifier(attributeName)} as ${sql.identifier(
+        propertyName
+      )}`
+  );
+  const tileAlias = sql.identifier(Symbol("tile"));
+  const geomAlias = sql.identifier("__geom__");
+
+  return sql`select encode(ST_AsMVT(${tileAlias}.*, ${sql.value(
+    resource.name
+  )}::text, ${sqlExtent}, '__geom__'), 'base64') as tile
+from (
+  select ST_AsMVTGeom(${sqlMercator}, ${sqlEnvelope}, ${sqlExtent}, ${sqlBuffer}, true) as ${geomAlias}${sql.join(
+    sqlProperties,
+    ""
+  )}
+  from ${resource.from as SQL} as ${alias}
+  where ${sqlWhere}
+) as ${tileAlias}
+where ${tileAlias}.${geomAlias} is not null`;
+}
+
+/**
+ * Plugin to add Mapbox Vector Tile fields to the root Query type (opt-in)
+ *
+ * For every table with a PostGIS column, adds a
+ * `<table>Tile(z: Int!, x: Int!, y: Int!, extent: Int, buffer: Int)` field
+ * returning the tile built with `ST_AsMVTGeom` and `ST_AsMVT`, so tiles can
+ * be served without a separate tile server. Tables with several PostGIS
+ * columns get a field per column (`<table><Column>Tile`).
+ *
+ * The tile is queried with the request's database client, so the table's
+ * row level security policies apply. The other selectable attributes of the
+ * table become the feature properties, named as their GraphQL fields.
+ * Geometries without an SRID are assumed to be in WGS 84.
+ *
+ * This plugin is not part of `postgisPlugin`; add it to your preset to
+ * enable it. `ST_TileEnvelope` requires PostGIS 3.1 or later.
+ */
+export const PostgisMVTPlugin: GraphileConfig.Plugin = {
+  name: "PostgisMVTPlugin",
+  version,
+  after: ["PostgisTypesPlugin", "PgAllRowsPlugin"],
+
+  schema: {
+    hooks: {
+      GraphQLObjectType_fields(fields, build, context) {
+        const { fieldWithHooks, scope } = context;
+        if (!scope.isRootQuery) {
+          return fields;
+        }
+
+        const { inflection, graphql } = build;
+        const { GraphQLInt, GraphQLNonNull } = graphql;
+        const TileType = build.getTypeByName(
+          inflection.builtin("Base64EncodedBinary")
+        ) as any;
+        if (!TileType) {
+          return fields;
+        }
+        const newFields: Record<string, any> = {};
+
+        for (const resource of Object.values(
+          build.input.pgRegistry.pgResources
+        ) as PgResource<any, any, any, any, any>[]) {
+          if (
+            resource.parameters ||
+            resource.isVirtual ||
+            !resource.codec.attributes ||
+            resource.codec.isAnonymous
+          ) {
+            continue;
+          }
+          if (
+            !build.behavior.pgResourceMatches(
+              resource,
+              "query:resource:list"
+            ) &&
+            !build.behavior.pgResourceMatches(
+              resource,
+              "query:resource:connection"
+            )
+          ) {
+            continue;
+          }
+
+          const codec = resource.codec;
+          const selectable = Object.keys(codec.attributes).filter(
+            (attributeName) =>
+              build.behavior.pgCodecAttributeMatches(
+                [codec, attributeName],
+                "attribute:select"
+              )
+          );
+          const postgisAttributes = selectable.filter(
+            (attributeName) =>
+              (codec.attributes[attributeName].codec.extensions as any)
+                ?.isPostGIS
+          );
+          const properties = selectable
+            .filter(
+              (attributeName) => !postgisAttributes.includes(attributeName)
+            )
+            .map((attributeName) => ({
+              attributeName,
+              propertyName: inflection.attribute({ attributeName, codec }),
+            }));
+
+          for (const attributeName of postgisAttributes) {
+            const fieldName = inflection.gisTileField({
+              resource,
+              attributeName,
+              isOnly: postgisAttributes.length === 1,
+            });
+            const columnFieldName = inflection.attribute({
+              attributeName,
+              codec,
+            });
+            const loader = EXPORTABLE(
+              (SafeError, attributeName, properties, resource, sql, sqlTile) =>
+                async function load(
+                  pgClient: any,
+                  lookups: ReadonlyArray<TileArgs>
+                ): Promise<Array<Buffer | null>> {
+                  const tiles: Array<Buffer | null> = [];
+                  for (const args of lookups) {
+                    const { z, x, y, extent, buffer } = args;
+                    if (
+                      z < 0 ||
+                      z > 30 ||
+                      x < 0 ||
+                      y < 0 ||
+                      x >= 2 ** z ||
+                      y >= 2 ** z
+                    ) {
+                      throw new SafeError(
+                        `Tile ${z}/${x}/${y} does not exist; x and y must be between 0 and 2^z - 1.`
+                      );
+                    }
+                    if (
+                      (extent != null && extent <= 0) ||
+                      (buffer != null && buffer < 0)
+                    ) {
+                      throw new SafeError(
+                        "The tile extent must be positive and the buffer must not be negative."
+                      );
+                    }
+                    const { text, values } = sql.compile(
+                      sqlTile(resource, attributeName, properties, args)
+                    );
+                    const { rows } = await pgClient.query({ text, values });
+                    const tile = rows[0]?.tile;
+                    tiles.push(
+                      tile == null ? null : Buffer.from(tile, "base64")
+                    );
+                  }
+                  return tiles;
+                },
+              [SafeError, attributeName, properties, resource, sql, sqlTile]
+            );
+
+            newFields[fieldName] = fieldWithHooks(
+              { fieldName, isPostGISTileField: true } as any,
+              {
+                description: build.wrapDescription(
+                  `The Mapbox Vector Tile of \`${columnFieldName}\` for the tile at \`z\`/\`x\`/\`y\` (ST_AsMVT), with the other attributes as feature properties.`,
+                  "field"
+                ),
+                type: TileType,
+                args: {
+                  z: {
+                    type: new GraphQLNonNull(GraphQLInt),
+                    description: build.wrapDescription(
+                      "The zoom level of the tile.",
+                      "arg"
+                    ),
+                  },
+                  x: {
+                    type: new GraphQLNonNull(GraphQLInt),
+                    description: build.wrapDescription(
+                      "The column of the tile.",
+                      "arg"
+                    ),
+                  },
+                  y: {
+                    type: new GraphQLNonNull(GraphQLInt),
+                    description: build.wrapDescription(
+                      "The row of the tile.",
+                      "arg"
+                    ),
+                  },
+                  extent: {
+                    type: GraphQLInt,
+                    description: build.wrapDescription(
+                      `The size of the tile in tile coordinate units; by default, ${DEFAULT_EXTENT}.`,
+                      "arg"
+                    ),
+                  },
+                  buffer: {
+                    type: GraphQLInt,
+                    description: build.wrapDescription(
+                      `The size of the buffer around the tile in tile coordinate units; by default, ${DEFAULT_BUFFER}.`,
+                      "arg"
+                    ),
+                  },
+                },
+                plan: EXPORTABLE(
+                  (loadOneWithPgClient, loader, resource) =>
+                    function plan(_$root: Step, fieldArgs: FieldArgs): Step {
+                      return loadOneWithPgClient(
+                        resource.executor,
+                        {
+                          z: fieldArgs.getRaw("z"),
+                          x: fieldArgs.getRaw("x"),
+                          y: fieldArgs.getRaw("y"),
+                          extent: fieldArgs.getRaw("extent"),
+                          buffer: fieldArgs.getRaw("buffer"),
+                        },
+                        loader as any
+                      );
+                    },
+                  [loadOneWithPgClient, loader, resource]
+                ),
+              }
+            );
+          }
+        }
+
+        if (Object.keys(newFields).length === 0) {
+          return fields;
+        }
+
+        return build.extend(
+          fields,
+          newFields,
+          "Adding PostGIS vector tile fields"
+        );
+      },
+    },
+  },
+};
@@ -0,0 +1,168 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import type { FieldArgs, Step } from "grafast";
+import { TYPES } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import { GIS_SUBTYPE } from "./constants";
+import { pgPostGISExpression } from "./pgExpression";
+import type { Subtype } from "./types";
+
+const { version } = require("../package.json");
+
+/**
+ * The measurement fields and the geometry subtypes they are added to.
+ *
+ * Unconstrained geometries and collections may hold any kind of geometry, so
+ * they get every measurement.
+ */
+const MEASUREMENTS: ReadonlyArray<{
+  fieldName: string;
+  /** The function computing the measurement, as SQL */
+  sqlFn: SQL;
+  description: string;
+  subtypes: ReadonlyArray<Subtype>;
+}> = [
+  {
+    fieldName: "area",
+    sqlFn: sql`ST_Area`,
+    description: "The area of the geometry (ST_Area)",
+    subtypes: [
+      GIS_SUBTYPE.Geometry,
+      GIS_SUBTYPE.Polygon,
+      GIS_SUBTYPE.MultiPolygon,
+      GIS_SUBTYPE.GeometryCollection,
+    ],
+  },
+  {
+    fieldName: "length",
+    sqlFn: sql`ST_Length`,
+    description: "The length of the geometry's lines (ST_Length)",
+    subtypes: [
+      GIS_SUBTYPE.Geometry,
+      GIS_SUBTYPE.LineString,
+      GIS_SUBTYPE.MultiLineString,
+      GIS_SUBTYPE.GeometryCollection,
+    ],
+  },
+  {
+    fieldName: "perimeter",
+    sqlFn: sql`ST_Perimeter`,
+    description: "The length of the boundary of the geometry (ST_Perimeter)",
+    subtypes: [
+      GIS_SUBTYPE.Geometry,
+      GIS_SUBTYPE.Polygon,
+      GIS_SUBTYPE.MultiPolygon,
+      GIS_SUBTYPE.GeometryCollection,
+    ],
+  },
+];
+
+/**
+ * Plugin to add `area`, `length` and `perimeter` fields to geometry types
+ *
+ * The measurements are computed by PostGIS in the query that selects the
+ * column. Geometry measurements are in units of the spatial reference
+ * system; geography measurements are in meters (square meters for `area`),
+ * computed on the spheroid unless `useSpheroid: false` requests the faster
+ * sphere calculation.
+ *
+ * Geometries nested within other geometries (such as the polygons of a
+ * MultiPolygon) are not selected from the database, so their measurements
+ * are null.
+ *
+ * The fields are left out when the `measurements` option is false.
+ */
+export const PostgisMeasurementFieldsPlugin: GraphileConfig.Plugin = {
+  name: "PostgisMeasurementFieldsPlugin",
+  version,
+  after: ["PostgisRegisterTypesPlugin"],
+
+  schema: {
+    hooks: {
+      GraphQLObjectType_fields(fields, build, context) {
+        const { scope, fieldWithHooks } = context;
+        const { isPostGISType, isGeometryType, isGeographyType, subtype } =
+          scope;
+
+        if (
+          !isPostGISType ||
+          !isGeometryType ||
+          subtype == null ||
+          build.options.postgis?.measurements === false
+        ) {
+          return fields;
+        }
+
+        const { graphql } = build;
+        const { GraphQLFloat, GraphQLBoolean } = graphql;
+        const newFields: Record<string, any> = {};
+
+        for (const {
+          fieldName,
+          sqlFn,
+          description,
+          subtypes,
+        } of MEASUREMENTS) {
+          if (!subtypes.includes(subtype)) {
+            continue;
+          }
+          newFields[fieldName] = fieldWithHooks({ fieldName } as any, {
+            description: build.wrapDescription(
+              `${description}, in ${
+                isGeographyType
+                  ? fieldName === "area"
+                    ? "square meters"
+                    : "meters"
+                  : "units of the spatial reference system"
+              }.`,
+              "field"
+            ),
+            type: GraphQLFloat,
+            ...(isGeographyType
+              ? {
+                  args: {
+                    useSpheroid: {
+                      type: GraphQLBoolean,
+                      defaultValue: true,
+                      description: build.wrapDescription(
+                        "Measure on the spheroid; when false, the faster but less accurate sphere is used.",
+                        "arg"
+                      ),
+                    },
+                  },
+                }
+              : null),
+            plan: EXPORTABLE(
+              (TYPES, isGeographyType, pgPostGISExpression, sql, sqlFn) =>
+                function plan($source: Step, fieldArgs: FieldArgs): Step {
+                  return pgPostGISExpression(
+                    $source,
+                    TYPES.float,
+                    (sqlValue, _codec, sqlArgument) =>
+                      isGeographyType
+                        ? sql`${sqlFn}(${sqlValue}, coalesce(${sqlArgument(
+                            fieldArgs.getRaw("useSpheroid"),
+                            TYPES.boolean
+                          )}, true))`
+                        : sql`${sqlFn}(${sqlValue})`
+                  );
+                },
+              [TYPES, !!isGeographyType, pgPostGISExpression, sql, sqlFn]
+            ),
+          });
+        }
+
+        if (Object.keys(newFields).length === 0) {
+          return fields;
+        }
+
+        return build.extend(
+          fields,
+          newFields,
+          "Adding PostGIS measurement fields"
+        );
+      },
+    },
+  },
+};
@@ -1,17 +1,91 @@
 import type { GraphileConfig } from "graphile-config";
 import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import { lambda, object, SafeError } from "grafast";
+import type { FieldArgs, Step } from "grafast";
 import type { SQL } from "pg-sql2";
-import type { PgCodec } from "@dataplan/pg";
+import { sql } from "pg-sql2";
+import { sideEffectWithPgClient } from "@dataplan/pg";
+import type { PgCodec, PgResource } from "@dataplan/pg";
+import { assertInputFormat, getColumnOptions } from "./columnOptions";
 import { sqlValueWithPostGISCodec } from "./mutationUtils";
+import { parseGeometryInput, WellKnownGeometry } from "./wellKnown";
 
 const { version } = require("../package.json");
 
+/** A PostGIS attribute written by a mutation */
+interface GeometryAttribute {
+  attributeName: string;
+  fieldName: string;
+  codec: PgCodec;
+}
+
+/**
+ * Checks the geometries given to a mutation with `ST_IsValidDetail`, before
+ * anything is written.
+ *
+ * Invalid geometries are rejected with an error giving the reason and
+ * location, or, with `makeValid`, repaired with `ST_MakeValid`; the repaired
+ * geometries are returned by attribute name, as EWKB.
+ */
+async function checkGeometryValidity(
+  pgClient: any,
+  attributes: ReadonlyArray<GeometryAttribute>,
+  values: Record<string, unknown>,
+  makeValid: boolean
+): Promise<Map<string, WellKnownGeometry>> {
+  const madeValid = new Map<string, WellKnownGeometry>();
+  for (const { attributeName, fieldName, codec } of attributes) {
+    const value = values[fieldName];
+    if (value == null) {
+      continue;
+    }
+    // The value is converted as it is when written, so it is checked in
+    // the column's SRID
+    const input = typeof value === "string" ? parseGeometryInput(value) : value;
+    const sqlGeometry = sqlValueWithPostGISCodec(input, codec);
+    const sqlMadeValid = makeValid
+      ? sql`case when not __detail__.valid then encode(ST_AsEWKB(${sqlValueWithPostGISCodec(
+          input,
+          codec,
+          true
+        )}), 'hex') end`
+      : sql`null`;
+    const { text, values: sqlValues } = sql.compile(
+      sql`select __detail__.valid, __detail__.reason, ST_AsText(__detail__.location) as location, ${sqlMadeValid} as made_valid
+from (select (${sqlGeometry})::geometry as geometry) as __input__,
+lateral ST_IsValidDetail(__input__.geometry) as __detail__`
+    );
+    const { rows } = await pgClient.query({ text, values: sqlValues });
+    const row = rows[0];
+    if (!row || row.valid) {
+      continue;
+    }
+    if (makeValid && row.made_valid) {
+      madeValid.set(attributeName, parseGeometryInput(row.made_valid));
+    } else {
+      throw new SafeError(
+        `Invalid geometry for '${fieldName}': ${row.reason}${
+          row.location ? ` at ${row.location}` : ""
+        }.`
+      );
+    }
+  }
+  return madeValid;
+}
+
 /**
  * Plugin to handle PostGIS mutations by wrapping GeoJSON values with ST_GeomFromGeoJSON/ST_GeogFromGeoJSON
  * 
  * This plugin overrides sqlValueWithCodec in the build object to handle PostGIS codecs specially.
  * When a PostGIS codec is used in mutations, it wraps the GeoJSON JSON string with the appropriate
  * PostGIS function call.
+ *
+ * With the `geometryValidity` option, create and update
+ * mutations also check their geometries with `ST_IsValidDetail` before
+ * writing them, rejecting invalid ones or repairing them with `ST_MakeValid`;
+ * the mutation then writes the repaired geometries in place of the input.
+ * Columns tagged with `@postgisInput` reject input in other formats.
  */
 export const PostgisMutationPlugin: GraphileConfig.Plugin = {
   name: "PostgisMutationPlugin",
@@ -70,6 +144,179 @@ export const PostgisMutationPlugin: GraphileConfig.Plugin = {
 
         return build;
       },
+
+      GraphQLInputObjectType_fields_field(field, build, context) {
+        const { fieldBehaviorScope, fieldName, pgCodec, pgAttribute } =
+          context.scope as any;
+        if (
+          !pgCodec?.attributes ||
+          !pgAttribute?.codec?.extensions?.isPostGIS ||
+          (fieldBehaviorScope !== "attribute:insert" &&
+            fieldBehaviorScope !== "attribute:update") ||
+          !(field as any).apply
+        ) {
+          return field;
+        }
+        const attributeCodec: PgCodec = pgAttribute.codec;
+        const makeValid =
+          build.options.postgis?.geometryValidity === "makeValid";
+        if (!makeValid && !getColumnOptions(attributeCodec)?.inputFormats) {
+          return field;
+        }
+        const originalApply = (field as any).apply;
+
+        // The input must be in a format the column accepts (see
+        // `@postgisInput`); with `makeValid`, the mutation plan writes it
+        // instead, as it may have been repaired
+        return {
+          ...field,
+          apply: EXPORTABLE(
+            (
+              assertInputFormat,
+              attributeCodec,
+              fieldName,
+              makeValid,
+              originalApply
+            ) =>
+              function apply(obj: any, val: any, info: any) {
+                assertInputFormat(val, attributeCodec, fieldName);
+                if (!makeValid) {
+                  originalApply(obj, val, info);
+                }
+              },
+            [
+              assertInputFormat,
+              attributeCodec,
+              fieldName,
+              makeValid,
+              originalApply,
+            ]
+          ),
+        };
+      },
+
+      GraphQLObjectType_fields_field(field, build, context) {
+        const mode = build.options.postgis?.geometryValidity;
+        const { isPgCreateMutation, isPgUpdateMutation, pgFieldResource } =
+          context.scope as any;
+        if (
+          !mode ||
+          (!isPgCreateMutation && !isPgUpdateMutation) ||
+          !pgFieldResource ||
+          !field.plan
+        ) {
+          return field;
+        }
+
+        const { inflection } = build;
+        const resource = pgFieldResource as PgResource<any, any, any, any, any>;
+        const codec = resource.codec;
+        const fieldBehaviorScope = isPgCreateMutation
+          ? "attribute:insert"
+          : "attribute:update";
+        const attributes: GeometryAttribute[] = Object.keys(
+          codec.attributes ?? {}
+        )
+          .filter(
+            (attributeName) =>
+              (codec.attributes[attributeName].codec.extensions as any)
+                ?.isPostGIS &&
+              build.behavior.pgCodecAttributeMatches(
+                [codec, attributeName],
+                fieldBehaviorScope
+              )
+          )
+          .map((attributeName) => ({
+            attributeName,
+            fieldName: inflection.attribute({ attributeName, codec }),
+            codec: codec.attributes[attributeName].codec,
+          }));
+        if (attributes.length === 0) {
+          return field;
+        }
+        const tableFieldName = inflection.tableFieldName(resource);
+        const inputFieldName = isPgCreateMutation
+          ? tableFieldName
+          : inflection.patchField(tableFieldName);
+        const makeValid = mode === "makeValid";
+        const originalPlan = field.plan as any;
+
+        return {
+          ...field,
+          plan: EXPORTABLE(
+            (
+              attributes,
+              checkGeometryValidity,
+              inputFieldName,
+              lambda,
+              makeValid,
+              object,
+              originalPlan,
+              resource,
+              sideEffectWithPgClient
+            ) =>
+              function plan($parent: Step, fieldArgs: FieldArgs, info: any) {
+                const $values = object(
+                  Object.fromEntries(
+                    attributes.map(({ fieldName }) => [
+                      fieldName,
+                      fieldArgs.getRaw(["input", inputFieldName, fieldName]),
+                    ])
+                  )
+                );
+                // Side effects run before the steps planned after them, so
+                // the geometries are checked before the write
+                const $madeValid = sideEffectWithPgClient(
+                  resource.executor,
+                  $values,
+                  (pgClient: any, values: Record<string, unknown>) =>
+                    checkGeometryValidity(
+                      pgClient,
+                      attributes,
+                      values,
+                      makeValid
+                    )
+                );
+                if (!makeValid) {
+                  return originalPlan($parent, fieldArgs, info);
+                }
+
+                // The attribute input fields leave the geometries to be
+                // written here, repaired or as given; the values are planned
+                // before the write, which may only depend on earlier steps
+                const $geometries = attributes.map(
+                  ({ attributeName, fieldName }) =>
+                    [
+                      attributeName,
+                      lambda(
+                        [$madeValid, $values.get(fieldName)],
+                        ([madeValid, value]) =>
+                          madeValid.get(attributeName) ?? value,
+                        true
+                      ),
+                    ] as const
+                );
+                const $result = originalPlan($parent, fieldArgs, info);
+                const $mutation = $result.getStepForKey("result");
+                for (const [attributeName, $geometry] of $geometries) {
+                  $mutation.set(attributeName, $geometry);
+                }
+                return $result;
+              },
+            [
+              attributes,
+              checkGeometryValidity,
+              inputFieldName,
+              lambda,
+              makeValid,
+              object,
+              originalPlan,
+              resource,
+              sideEffectWithPgClient,
+            ]
+          ),
+        };
+      },
     },
   },
 };
@@ -0,0 +1,73 @@
+import type { GraphileConfig } from "graphile-config";
+import { getColumnOptions } from "./columnOptions";
+
+const { version } = require("../package.json");
+
+/**
+ * Gets the field names a geometry type leaves out, from the `@postgisOmit`
+ * smart tag of the column the type is for.
+ */
+function getOmittedFields(
+  scope: GraphileBuild.ScopeObject
+): ReadonlyArray<string> {
+  const { isPostGISType, postgisColumnCodec } = scope;
+  if (!isPostGISType || !postgisColumnCodec) {
+    return [];
+  }
+  return getColumnOptions(postgisColumnCodec)?.omit ?? [];
+}
+
+/**
+ * Plugin to leave fields out of the geometry types of columns tagged with
+ * `@postgisOmit`
+ *
+ * Such columns have a GraphQL type of their own (see
+ * `PostgisRegisterTypesPlugin`); this plugin removes the listed fields from
+ * it once the other plugins have added theirs. Names that are not fields of
+ * the type are ignored. The type no longer implements the interfaces whose
+ * fields it leaves out, such as `GeometryInterface` when `wkt` is omitted.
+ */
+export const PostgisOmitFieldsPlugin: GraphileConfig.Plugin = {
+  name: "PostgisOmitFieldsPlugin",
+  version,
+  after: [
+    "PostgisRegisterTypesPlugin",
+    "PostgisPointFieldsPlugin",
+    "PostgisLineStringFieldsPlugin",
+    "PostgisPolygonFieldsPlugin",
+    "PostgisMultiPointFieldsPlugin",
+    "PostgisMultiLineStringFieldsPlugin",
+    "PostgisMultiPolygonFieldsPlugin",
+    "PostgisGeometryCollectionFieldsPlugin",
+    "PostgisMeasurementFieldsPlugin",
+    "PostgisOutputFormatFieldsPlugin",
+    "PostgisSimplifyPlugin",
+  ],
+
+  schema: {
+    hooks: {
+      GraphQLObjectType_interfaces(interfaces, _build, context) {
+        const omit = getOmittedFields(context.scope);
+        if (omit.length === 0) {
+          return interfaces;
+        }
+        return interfaces.filter((iface) => {
+          const fields = iface.getFields();
+          return !omit.some((fieldName) => fieldName in fields);
+        });
+      },
+
+      GraphQLObjectType_fields(fields, _build, context) {
+        const omit = getOmittedFields(context.scope);
+        if (omit.length === 0) {
+          return fields;
+        }
+        return Object.fromEntries(
+          Object.entries(fields).filter(
+            ([fieldName]) => !omit.includes(fieldName)
+          )
+        ) as typeof fields;
+      },
+    },
+  },
+};
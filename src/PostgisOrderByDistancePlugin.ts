@@ -0,0 +1,324 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import { access, lambda, SafeError } from "grafast";
+import { TYPES } from "@dataplan/pg";
+import type { PgCodec } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import {
+  encodeGeoJSONOperand,
+  sqlGeoJSONWithPostGISCodec,
+} from "./mutationUtils";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileBuild {
+    interface BehaviorStrings {
+      "attribute:distance:orderBy": true;
+    }
+  }
+}
+
+/** Query builder meta key holding the reference geometry */
+const DISTANCE_FROM_META_KEY = "postgisOrderByDistanceFrom";
+
+/**
+ * The reference geometry, as placeholders for its GeoJSON and the SRID it
+ * declares; set at plan time, so the orderBy values can read it whether they
+ * are applied at plan time or at runtime.
+ */
+interface DistanceReference {
+  sqlGeoJSON: SQL;
+  sqlSRID: SQL;
+}
+
+/**
+ * Creates SQL for the distance between a PostGIS column and the reference
+ * geometry, using the KNN operators so that a GiST index can be used.
+ *
+ * `<->` is the true distance (meters for geography); `<#>` is the distance
+ * between bounding boxes, which PostGIS only implements for geometry.
+ */
+function sqlDistance(
+  sqlIdentifier: SQL,
+  codec: PgCodec,
+  bbox: boolean,
+  reference: DistanceReference
+): SQL {
+  const extensions = codec.extensions as any;
+  const isGeography = extensions?.typeName === "geography";
+  let sqlReference = sqlGeoJSONWithPostGISCodec(
+    reference.sqlGeoJSON,
+    codec,
+    reference.sqlSRID
+  );
+  if (!isGeography && !extensions?.typeDetails?.srid) {
+    // The column does not pin an SRID; match the SRID of each row
+    sqlReference = sql`ST_SetSRID(${sqlReference}, ST_SRID(${sqlIdentifier}))`;
+  }
+  // Parenthesized, since cursors cast the order expressions to text
+  if (bbox && isGeography) {
+    return sql.parens(
+      sql`(${sqlIdentifier})::geometry <#> (${sqlReference})::geometry`
+    );
+  }
+  return sql.parens(
+    bbox
+      ? sql`${sqlIdentifier} <#> ${sqlReference}`
+      : sql`${sqlIdentifier} <-> ${sqlReference}`
+  );
+}
+
+/**
+ * Plugin to order connections by distance to a reference geometry
+ *
+ * Adds `<COLUMN>_DISTANCE_ASC/DESC` (`<->`) and
+ * `<COLUMN>_BBOX_DISTANCE_ASC/DESC` (`<#>`) values to the orderBy enum of
+ * every table with a PostGIS column, along with an `orderByDistanceFrom`
+ * argument on the table's connections that accepts the reference GeoJSON
+ * point. Rows with a null geometry are ordered last.
+ *
+ * The primary key is appended to the order, so cursor pagination remains
+ * stable; cursors are only valid for the reference point they were created
+ * with.
+ */
+export const PostgisOrderByDistancePlugin: GraphileConfig.Plugin = {
+  name: "PostgisOrderByDistancePlugin",
+  version,
+  after: [
+    "PostgisTypesPlugin",
+    "PgConnectionArgOrderByPlugin",
+    "PgOrderAllAttributesPlugin",
+  ],
+
+  schema: {
+    behaviorRegistry: {
+      add: {
+        // PostGIS codecs have no natural ordering, so `attribute:orderBy` is
+        // disabled for them; distance ordering has its own behavior
+        "attribute:distance:orderBy": {
+          description: "can we order by the distance to this attribute?",
+          entities: ["pgCodecAttribute"],
+        },
+      },
+    },
+
+    hooks: {
+      GraphQLEnumType_values(values, build, context) {
+        const { scope } = context;
+        const { isPgRowSortEnum, pgCodec } = scope as any;
+
+        if (!isPgRowSortEnum || !pgCodec?.attributes || pgCodec.isAnonymous) {
+          return values;
+        }
+
+        const { inflection } = build;
+        const argName = inflection.gisOrderByDistanceFromArgName();
+        const newValues: Record<string, any> = {};
+
+        for (const [attributeName, attribute] of Object.entries(
+          pgCodec.attributes
+        )) {
+          const attributeCodec = (attribute as any).codec as PgCodec;
+          if (!(attributeCodec.extensions as any)?.isPostGIS) {
+            continue;
+          }
+          if (
+            !build.behavior.pgCodecAttributeMatches(
+              [pgCodec, attributeName],
+              "attribute:distance:orderBy"
+            )
+          ) {
+            continue;
+          }
+
+          for (const bbox of [false, true]) {
+            for (const variant of ["asc", "desc"] as const) {
+              const valueName = inflection.gisOrderByDistanceEnum({
+                codec: pgCodec,
+                attributeName,
+                bbox,
+                variant,
+              });
+              const direction = variant === "asc" ? "ASC" : "DESC";
+              newValues[valueName] = {
+                description: build.wrapDescription(
+                  `Orders by the ${
+                    bbox ? "bounding box distance (`<#>`)" : "distance (`<->`)"
+                  } between \`${inflection.attribute({
+                    attributeName,
+                    codec: pgCodec,
+                  })}\` and \`${argName}\`.`,
+                  "field"
+                ),
+                extensions: {
+                  grafast: {
+                    apply: EXPORTABLE(
+                      (
+                          DISTANCE_FROM_META_KEY,
+                          SafeError,
+                          TYPES,
+                          argName,
+                          attributeCodec,
+                          attributeName,
+                          bbox,
+                          direction,
+                          sql,
+                          sqlDistance,
+                          valueName
+                        ) =>
+                        (queryBuilder: any) => {
+                          const reference: DistanceReference | undefined =
+                            queryBuilder.getMetaRaw(DISTANCE_FROM_META_KEY);
+                          if (reference == null) {
+                            throw new SafeError(
+                              `Ordering by '${valueName}' requires the '${argName}' argument.`
+                            );
+                          }
+                          queryBuilder.orderBy({
+                            fragment: sqlDistance(
+                              sql`${queryBuilder.alias}.${sql.identifier(
+                                attributeName
+                              )}`,
+                              attributeCodec,
+                              bbox,
+                              reference
+                            ),
+                            codec: TYPES.float,
+                            direction,
+                            nulls: "LAST",
+                          });
+                        },
+                      [
+                        DISTANCE_FROM_META_KEY,
+                        SafeError,
+                        TYPES,
+                        argName,
+                        attributeCodec,
+                        attributeName,
+                        bbox,
+                        direction,
+                        sql,
+                        sqlDistance,
+                        valueName,
+                      ]
+                    ),
+                  },
+                },
+              };
+            }
+          }
+        }
+
+        if (Object.keys(newValues).length === 0) {
+          return values;
+        }
+
+        return build.extend(
+          values,
+          newValues,
+          `Adding PostGIS distance orderBy values for ${pgCodec.name}`
+        );
+      },
+
+      GraphQLObjectType_fields_field_args(args, build, context) {
+        const { scope } = context;
+        const {
+          fieldName,
+          isPgFieldConnection,
+          isPgFieldSimpleCollection,
+          pgFieldResource: pgResource,
+        } = scope as any;
+
+        if (!isPgFieldConnection && !isPgFieldSimpleCollection) {
+          return args;
+        }
+        if (!pgResource?.codec?.attributes || pgResource.isUnique) {
+          return args;
+        }
+        if (!args.orderBy) {
+          return args;
+        }
+
+        const { inflection } = build;
+        const codec = pgResource.codec;
+        const hasDistanceOrder = Object.entries(codec.attributes).some(
+          ([attributeName, attribute]) =>
+            (attribute as any).codec.extensions?.isPostGIS &&
+            build.behavior.pgCodecAttributeMatches(
+              [codec, attributeName],
+              "attribute:distance:orderBy"
+            )
+        );
+        if (!hasDistanceOrder) {
+          return args;
+        }
+
+        const argName = inflection.gisOrderByDistanceFromArgName();
+        const newArg = {
+          description: build.wrapDescription(
+            "The GeoJSON point to measure from when ordering by distance.",
+            "arg"
+          ),
+          type: build.getTypeByName("GeoJSON") as any,
+          applyPlan: EXPORTABLE(
+            (
+              DISTANCE_FROM_META_KEY,
+              TYPES,
+              access,
+              encodeGeoJSONOperand,
+              isPgFieldConnection,
+              lambda
+            ) =>
+              function applyPlan(_: any, $parent: any, fieldArg: any) {
+                const $select = isPgFieldConnection
+                  ? $parent.getSubplan()
+                  : $parent;
+                const $reference = lambda(
+                  fieldArg.getRaw(),
+                  encodeGeoJSONOperand
+                );
+                const reference: DistanceReference = {
+                  sqlGeoJSON: $select.placeholder(
+                    access($reference, "geojson"),
+                    TYPES.text
+                  ),
+                  sqlSRID: $select.placeholder(
+                    access($reference, "srid"),
+                    TYPES.int
+                  ),
+                };
+                $select.setMeta(DISTANCE_FROM_META_KEY, reference);
+              },
+            [
+              DISTANCE_FROM_META_KEY,
+              TYPES,
+              access,
+              encodeGeoJSONOperand,
+              !!isPgFieldConnection,
+              lambda,
+            ]
+          ),
+        };
+
+        // The reference point must be known before the orderBy values are
+        // applied, and arguments are applied in order; so insert it first.
+        const newArgs: typeof args = {};
+        for (const [name, arg] of Object.entries(args)) {
+          if (name === "orderBy") {
+            newArgs[argName] = newArg;
+          }
+          newArgs[name] = arg;
+        }
+
+        return build.extend(
+          {},
+          newArgs,
+          `Adding '${argName}' argument to field '${fieldName}'`
+        );
+      },
+    },
+  },
+};
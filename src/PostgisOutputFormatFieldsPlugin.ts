@@ -0,0 +1,186 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import type { FieldArgs, Step } from "grafast";
+import { TYPES } from "@dataplan/pg";
+import type { PgCodec } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import { sqlOutputGeometry } from "./columnOptions";
+import { pgPostGISExpression } from "./pgExpression";
+
+const { version } = require("../package.json");
+
+/**
+ * Text formats the geometry types can be output in, in addition to GeoJSON.
+ */
+const OUTPUT_FORMATS: ReadonlyArray<{
+  fieldName: string;
+  description: string;
+  /** Whether the field has a `precision` argument */
+  hasPrecision?: boolean;
+  toSQL: (sqlValue: SQL, codec: PgCodec, sqlPrecision: SQL) => SQL;
+}> = [
+  {
+    fieldName: "wkt",
+    description: "The geometry as Well-Known Text (ST_AsText).",
+    toSQL: (sqlValue, codec) =>
+      sql`ST_AsText(${sqlOutputGeometry(sqlValue, codec)})`,
+  },
+  {
+    fieldName: "ewkt",
+    description:
+      "The geometry as Extended Well-Known Text, which includes the SRID (ST_AsEWKT).",
+    toSQL: (sqlValue, codec) =>
+      sql`ST_AsEWKT(${sqlOutputGeometry(sqlValue, codec)})`,
+  },
+  {
+    fieldName: "wkbHex",
+    description: "The geometry as hex-encoded Well-Known Binary (ST_AsBinary).",
+    toSQL: (sqlValue, codec) =>
+      sql`encode(ST_AsBinary(${sqlOutputGeometry(sqlValue, codec)}), 'hex')`,
+  },
+  {
+    fieldName: "geohash",
+    description:
+      "The GeoHash of the geometry (ST_GeoHash). Requires longitude/latitude coordinates.",
+    hasPrecision: true,
+    toSQL: (sqlValue, codec, sqlPrecision) =>
+      sql`ST_GeoHash(${
+        (codec.extensions as any)?.typeName === "geography"
+          ? sql`(${sqlValue})::geometry`
+          : sqlValue
+      }, ${sqlPrecision})`,
+  },
+];
+
+/**
+ * Plugin to add text output formats to geometry types
+ *
+ * Adds `wkt`, `ewkt`, `wkbHex` and `geohash(precision)` fields to the PostGIS
+ * interfaces and every geometry type. Each field is computed by PostGIS and
+ * is only added to the query when it is requested; the codec itself only
+ * selects GeoJSON and the SRID. WKT, EWKT and WKB are output in the column's
+ * `@postgisOutputSrid`, if it has one.
+ *
+ * Geometries nested within other geometries (such as the polygons of a
+ * MultiPolygon) are not selected from the database, so these fields are null
+ * for them.
+ *
+ * The fields are left out when the `outputFormats` option is false.
+ */
+export const PostgisOutputFormatFieldsPlugin: GraphileConfig.Plugin = {
+  name: "PostgisOutputFormatFieldsPlugin",
+  version,
+  after: ["PostgisRegisterTypesPlugin"],
+
+  schema: {
+    hooks: {
+      GraphQLInterfaceType_fields(fields, build, context) {
+        const { isPostGISInterface } = context.scope;
+        if (
+          !isPostGISInterface ||
+          build.options.postgis?.outputFormats === false
+        ) {
+          return fields;
+        }
+
+        const { GraphQLString, GraphQLInt } = build.graphql;
+        const precisionDescription = build.wrapDescription(
+          "The number of characters; by default, the full precision of the geometry is used.",
+          "arg"
+        );
+        return build.extend(
+          fields,
+          Object.fromEntries(
+            OUTPUT_FORMATS.map(({ fieldName, description, hasPrecision }) => [
+              fieldName,
+              {
+                description: build.wrapDescription(description, "field"),
+                type: GraphQLString,
+                ...(hasPrecision
+                  ? {
+                      args: {
+                        precision: {
+                          type: GraphQLInt,
+                          description: precisionDescription,
+                        },
+                      },
+                    }
+                  : null),
+              },
+            ])
+          ),
+          "Adding PostGIS output format fields to interface"
+        );
+      },
+
+      GraphQLObjectType_fields(fields, build, context) {
+        const { scope, fieldWithHooks } = context;
+        const { isPostGISType, isGeometryType } = scope;
+
+        if (
+          !isPostGISType ||
+          !isGeometryType ||
+          build.options.postgis?.outputFormats === false
+        ) {
+          return fields;
+        }
+
+        const { GraphQLString, GraphQLInt } = build.graphql;
+        const newFields: Record<string, any> = {};
+
+        for (const {
+          fieldName,
+          description,
+          hasPrecision,
+          toSQL,
+        } of OUTPUT_FORMATS) {
+          newFields[fieldName] = fieldWithHooks({ fieldName } as any, {
+            description: build.wrapDescription(description, "field"),
+            type: GraphQLString,
+            ...(hasPrecision
+              ? {
+                  args: {
+                    precision: {
+                      type: GraphQLInt,
+                      description: build.wrapDescription(
+                        "The number of characters; by default, the full precision of the geometry is used.",
+                        "arg"
+                      ),
+                    },
+                  },
+                }
+              : null),
+            plan: EXPORTABLE(
+              (TYPES, hasPrecision, pgPostGISExpression, sql, toSQL) =>
+                function plan($source: Step, fieldArgs: FieldArgs): Step {
+                  return pgPostGISExpression(
+                    $source,
+                    TYPES.text,
+                    (sqlValue, codec, sqlArgument) =>
+                      toSQL(
+                        sqlValue,
+                        codec,
+                        hasPrecision
+                          ? sql`coalesce(${sqlArgument(
+                              fieldArgs.getRaw("precision"),
+                              TYPES.int
+                            )}, 0)`
+                          : sql`0`
+                      )
+                  );
+                },
+              [TYPES, !!hasPrecision, pgPostGISExpression, sql, toSQL]
+            ),
+          });
+        }
+
+        return build.extend(
+          fields,
+          newFields,
+          "Adding PostGIS output format fields"
+        );
+      },
+    },
+  },
+};
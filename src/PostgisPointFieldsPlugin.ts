@@ -1,6 +1,7 @@
 import type { GraphileConfig } from "graphile-config";
 import { EXPORTABLE } from "graphile-build";
 import { get, type Step } from "grafast";
+import { sqlOutputGeometry } from "./columnOptions";
 import { GIS_SUBTYPE } from "./constants";
 
 const { version } = require("../package.json");
@@ -192,7 +193,13 @@ export const PostgisPointFieldsPlugin: GraphileConfig.Plugin = {
               ),
               type: new GraphQLNonNull(GraphQLFloat),
               plan: EXPORTABLE(
-                (attributeName, sqlLib, float8Codec) =>
+                (
+                  attributeCodec,
+                  attributeName,
+                  sqlLib,
+                  sqlOutputGeometry,
+                  float8Codec
+                ) =>
                   function plan($source: any) {
                     // $source is a PgSelectSingleStep
                     // Get the class step (PgSelectStep) which has the alias
@@ -200,13 +207,20 @@ export const PostgisPointFieldsPlugin: GraphileConfig.Plugin = {
                     const alias = classStep.alias;
                     // Reference the geometry column directly and apply ST_X
                     return $source.select(
-                      sqlLib`ST_X(${alias}.${sqlLib.identifier(
-                        attributeName
+                      sqlLib`ST_X(${sqlOutputGeometry(
+                        sqlLib`${alias}.${sqlLib.identifier(attributeName)}`,
+                        attributeCodec
                       )})`,
                       float8Codec
                     );
                   },
-                [attributeName, sqlLib, float8Codec]
+                [
+                  attributeCodec,
+                  attributeName,
+                  sqlLib,
+                  sqlOutputGeometry,
+                  float8Codec,
+                ]
               ),
             }
           );
@@ -223,18 +237,31 @@ export const PostgisPointFieldsPlugin: GraphileConfig.Plugin = {
               ),
               type: new GraphQLNonNull(GraphQLFloat),
               plan: EXPORTABLE(
-                (attributeName, sqlLib, float8Codec) =>
+                (
+                  attributeCodec,
+                  attributeName,
+                  sqlLib,
+                  sqlOutputGeometry,
+                  float8Codec
+                ) =>
                   function plan($source: any) {
                     const classStep = $source.getClassStep();
                     const alias = classStep.alias;
                     return $source.select(
-                      sqlLib`ST_Y(${alias}.${sqlLib.identifier(
-                        attributeName
+                      sqlLib`ST_Y(${sqlOutputGeometry(
+                        sqlLib`${alias}.${sqlLib.identifier(attributeName)}`,
+                        attributeCodec
                       )})`,
                       float8Codec
                     );
                   },
-                [attributeName, sqlLib, float8Codec]
+                [
+                  attributeCodec,
+                  attributeName,
+                  sqlLib,
+                  sqlOutputGeometry,
+                  float8Codec,
+                ]
               ),
             }
           );
@@ -252,18 +279,31 @@ export const PostgisPointFieldsPlugin: GraphileConfig.Plugin = {
                 ),
                 type: new GraphQLNonNull(GraphQLFloat),
                 plan: EXPORTABLE(
-                  (attributeName, sqlLib, float8Codec) =>
+                  (
+                    attributeCodec,
+                    attributeName,
+                    sqlLib,
+                    sqlOutputGeometry,
+                    float8Codec
+                  ) =>
                     function plan($source: any) {
                       const classStep = $source.getClassStep();
                       const alias = classStep.alias;
                       return $source.select(
-                        sqlLib`ST_Z(${alias}.${sqlLib.identifier(
-                          attributeName
+                        sqlLib`ST_Z(${sqlOutputGeometry(
+                          sqlLib`${alias}.${sqlLib.identifier(attributeName)}`,
+                          attributeCodec
                         )})`,
                         float8Codec
                       );
                     },
-                  [attributeName, sqlLib, float8Codec]
+                  [
+                    attributeCodec,
+                    attributeName,
+                    sqlLib,
+                    sqlOutputGeometry,
+                    float8Codec,
+                  ]
                 ),
               }
             );
@@ -281,18 +321,31 @@ export const PostgisPointFieldsPlugin: GraphileConfig.Plugin = {
               ),
               type: new GraphQLNonNull(GraphQLInt),
               plan: EXPORTABLE(
-                (attributeName, sqlLib, int4Codec) =>
+                (
+                  attributeCodec,
+                  attributeName,
+                  sqlLib,
+                  sqlOutputGeometry,
+                  int4Codec
+                ) =>
                   function plan($source: any) {
                     const classStep = $source.getClassStep();
                     const alias = classStep.alias;
                     return $source.select(
-                      sqlLib`ST_SRID(${alias}.${sqlLib.identifier(
-                        attributeName
+                      sqlLib`ST_SRID(${sqlOutputGeometry(
+                        sqlLib`${alias}.${sqlLib.identifier(attributeName)}`,
+                        attributeCodec
                       )})`,
                       int4Codec
                     );
                   },
-                [attributeName, sqlLib, int4Codec]
+                [
+                  attributeCodec,
+                  attributeName,
+                  sqlLib,
+                  sqlOutputGeometry,
+                  int4Codec,
+                ]
               ),
             }
           );
@@ -1,8 +1,10 @@
 import type { GraphileConfig } from "graphile-config";
+import { PgClassExpressionStep, type PgCodec } from "@dataplan/pg";
 import { EXPORTABLE } from "graphile-build";
-import { get, type Step } from "grafast";
+import { get, lambda, type PlanTypeInfo, type Step } from "grafast";
 import { GIS_SUBTYPE, GIS_SUBTYPE_NAME } from "./constants";
 import type { Subtype } from "./types";
+import { getGeoJSONTypeDetails } from "./utils";
 
 declare global {
   namespace GraphileBuild {
@@ -16,9 +18,16 @@ declare global {
     interface ScopeObject {
       isPostGISType?: boolean;
       isGeometryType?: boolean;
+      isGeographyType?: boolean;
       subtype?: Subtype;
       hasZ?: boolean;
       hasM?: boolean;
+      /** The codec of the column a per-column geometry type is for */
+      postgisColumnCodec?: PgCodec;
+    }
+    interface ScopeUnion {
+      isPostGISUnion?: boolean;
+      isGeographyType?: boolean;
     }
   }
 }
@@ -27,7 +36,35 @@ const { version } = require("../package.json");
 
 // Module-level storage for the getGeometryType implementation
 // This allows the build hook to create a function that will be populated in init
-let getGeometryTypeImpl: ((codecName: string, subtype: Subtype, hasZ: boolean, hasM: boolean) => string) | null = null;
+let getGeometryTypeImpl: ((codecName: string, subtype: Subtype, hasZ: boolean, hasM: boolean, columnCodec?: PgCodec) => string) | null = null;
+let getUnconstrainedInterfaceImpl: ((codecName: string) => string) | null =
+  null;
+let getUnconstrainedUnionImpl: ((codecName: string) => string) | null = null;
+let getTypeNamesImpl: (() => string[]) | null = null;
+
+/** The subtypes that have a concrete type of their own */
+const CONCRETE_SUBTYPES: ReadonlyArray<Subtype> = [
+  GIS_SUBTYPE.Point,
+  GIS_SUBTYPE.LineString,
+  GIS_SUBTYPE.Polygon,
+  GIS_SUBTYPE.MultiPoint,
+  GIS_SUBTYPE.MultiLineString,
+  GIS_SUBTYPE.MultiPolygon,
+  GIS_SUBTYPE.GeometryCollection,
+];
+
+/**
+ * The subtype of the geometries nested within each subtype, whose XY
+ * geometry type (such as `GeometryLineString` for polygons) the fields of
+ * the nested geometries reference
+ */
+const COMPONENT_SUBTYPE: Partial<Record<Subtype, Subtype>> = {
+  [GIS_SUBTYPE.LineString]: GIS_SUBTYPE.Point,
+  [GIS_SUBTYPE.Polygon]: GIS_SUBTYPE.LineString,
+  [GIS_SUBTYPE.MultiPoint]: GIS_SUBTYPE.Point,
+  [GIS_SUBTYPE.MultiLineString]: GIS_SUBTYPE.LineString,
+  [GIS_SUBTYPE.MultiPolygon]: GIS_SUBTYPE.Polygon,
+};
 
 /**
  * Plugin to register GraphQL object types and interfaces for PostGIS geometry types.
@@ -36,6 +73,20 @@ let getGeometryTypeImpl: ((codecName: string, subtype: Subtype, hasZ: boolean, h
  * - GeometryInterface: Base interface for all geometry types
  * - Dimension-specific interfaces (GeometryXYInterface, GeometryXYZInterface, etc.)
  * - Concrete types: GeometryPoint, GeometryLineString, GeometryPolygon, etc.
+ *
+ * GeometryInterface resolves to the concrete type of each value: the members
+ * of geometry collections, and the values of unconstrained columns, by their
+ * type and dimensions (falling back to `Geometry` or `Geography`). With the
+ * `unconstrainedColumns` option set to `"union"`, unconstrained columns are
+ * typed as a union of the concrete types instead, such as `GeometryUnion`.
+ * The registered concrete types are all added to the schema, so they can be
+ * resolved to even when no field references them.
+ *
+ * Columns that omit fields with the `@postgisOmit` smart tag get a type of
+ * their own, such as `PlacesBoundaryGeometryPolygon`.
+ *
+ * With the `registerAllTypes` option set to false, the concrete types are
+ * registered as columns need them, instead of all of them up front.
  */
 export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
   name: "PostgisRegisterTypesPlugin",
@@ -55,14 +106,37 @@ export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
               codecName: string,
               subtype: Subtype,
               hasZ: boolean,
-              hasM: boolean
+              hasM: boolean,
+              columnCodec?: PgCodec
             ) => {
               if (!getGeometryTypeImpl) {
                 throw new Error(
                   "getPostGISGeometryType called before PostgisRegisterTypesPlugin init hook"
                 );
               }
-              return getGeometryTypeImpl(codecName, subtype, hasZ, hasM);
+              return getGeometryTypeImpl(
+                codecName,
+                subtype,
+                hasZ,
+                hasM,
+                columnCodec
+              );
+            },
+            getPostGISGeometryInterface: (codecName: string) => {
+              if (!getUnconstrainedInterfaceImpl) {
+                throw new Error(
+                  "getPostGISGeometryInterface called before PostgisRegisterTypesPlugin init hook"
+                );
+              }
+              return getUnconstrainedInterfaceImpl(codecName);
+            },
+            getPostGISGeometryUnion: (codecName: string) => {
+              if (!getUnconstrainedUnionImpl) {
+                throw new Error(
+                  "getPostGISGeometryUnion called before PostgisRegisterTypesPlugin init hook"
+                );
+              }
+              return getUnconstrainedUnionImpl(codecName);
             },
           },
           "PostgisRegisterTypesPlugin (getPostGISGeometryType)"
@@ -81,6 +155,46 @@ export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
         const interfaceNames: Record<string, string> = {};
         const typeNames: Record<string, string> = {};
 
+        /**
+         * Gets the name of the concrete type of a value implementing
+         * GeometryInterface: the `__typename` the members of collections
+         * carry, or for the value of a column of the given codec, the type
+         * and dimensions the codec read (or else those of its GeoJSON)
+         */
+        const geometryTypeName = EXPORTABLE(
+          (getGeoJSONTypeDetails, typeNames) =>
+            function geometryTypeName(
+              value: any,
+              codecName: string | null
+            ): string | null {
+              if (value == null) {
+                return null;
+              }
+              if (typeof value.__typename === "string") {
+                return value.__typename;
+              }
+              if (!codecName) {
+                return null;
+              }
+              // Empty geometries, which have no coordinates, resolve to the
+              // generic type
+              const geojsonDetails = getGeoJSONTypeDetails(value.geojson);
+              const details = geojsonDetails
+                ? value.typeDetails ?? geojsonDetails
+                : null;
+              return (
+                (details
+                  ? typeNames[
+                      `${codecName}-${details.subtype}-${details.hasZ}-${details.hasM}`
+                    ]
+                  : null) ??
+                typeNames[`${codecName}-0-false-false`] ??
+                null
+              );
+            },
+          [getGeoJSONTypeDetails, typeNames]
+        );
+
         /**
          * Get or create the base GeometryInterface
          */
@@ -98,6 +212,27 @@ export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
                 "Base interface for all PostGIS geometry types. All geometry types implement this interface.",
                 "type"
               ),
+              planType: EXPORTABLE(
+                (PgClassExpressionStep, geometryTypeName, lambda) =>
+                  function planType($specifier: Step, info: PlanTypeInfo) {
+                    // Columns give the codec, whose values are resolved by
+                    // their GeoJSON
+                    const $original = info.$original ?? $specifier;
+                    const codecName =
+                      $original instanceof PgClassExpressionStep
+                        ? ((($original.pgCodec.extensions as any)?.typeName ??
+                            null) as string | null)
+                        : null;
+                    return {
+                      $__typename: lambda(
+                        $specifier,
+                        (value) => geometryTypeName(value, codecName),
+                        true
+                      ),
+                    };
+                  },
+                [PgClassExpressionStep, geometryTypeName, lambda]
+              ),
               fields: () => ({
                 [geojsonFieldName]: {
                   type: new GraphQLNonNull(build.getTypeByName("GeoJSON") as any),
@@ -176,35 +311,50 @@ export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
         }
 
         /**
-         * Get or create a concrete geometry type
+         * Get or create a concrete geometry type, or the type of a column
+         * with per-column options if its codec is given
          */
         function getGeometryType(
           codecName: string,
           subtype: Subtype,
           hasZ: boolean,
-          hasM: boolean
+          hasM: boolean,
+          columnCodec?: PgCodec
         ) {
-          const typeName = inflection.gisType(
-            { name: codecName } as any,
-            subtype,
-            hasZ,
-            hasM
-          );
+          const typeName = columnCodec
+            ? inflection.gisColumnType(columnCodec, subtype, hasZ, hasM)
+            : inflection.gisType(
+                { name: codecName } as any,
+                subtype,
+                hasZ,
+                hasM
+              );
 
           // Use a key that includes codec name, subtype and dimensions
-          const typeKey = `${codecName}-${subtype}-${hasZ}-${hasM}`;
+          const typeKey = `${
+            columnCodec ? columnCodec.name : codecName
+          }-${subtype}-${hasZ}-${hasM}`;
           if (typeNames[typeKey]) {
             return typeNames[typeKey];
           }
 
+          const componentSubtype = COMPONENT_SUBTYPE[subtype];
+          if (componentSubtype != null) {
+            getGeometryType("geometry", componentSubtype, false, false);
+          }
+
           const baseInterfaceName = getGeometryInterface();
-          const dimensionInterfaceName = getDimensionInterface(hasZ, hasM);
           const subtypeName = GIS_SUBTYPE_NAME[subtype];
 
-          // Build interfaces array - use thunk to resolve interface types
+          // Build interfaces array - use thunk to resolve interface types;
+          // unconstrained geometries have no dimension interface
+          const dimensionInterfaceName =
+            subtype === 0 ? null : getDimensionInterface(hasZ, hasM);
           const typeInterfaces = () => [
             build.getTypeByName(baseInterfaceName) as any,
-            build.getTypeByName(dimensionInterfaceName) as any,
+            ...(dimensionInterfaceName
+              ? [build.getTypeByName(dimensionInterfaceName) as any]
+              : []),
           ];
 
           // Build fields based on subtype
@@ -275,13 +425,17 @@ export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
             {
               isPostGISType: true,
               isGeometryType: true,
+              isGeographyType: codecName === "geography",
               subtype,
               hasZ,
               hasM,
+              postgisColumnCodec: columnCodec,
             },
             () => ({
               description: build.wrapDescription(
-                `Represents a ${subtypeName}${hasZ ? " with Z coordinates" : ""}${hasM ? " with M coordinates" : ""} geometry.`,
+                subtype === 0
+                  ? `Represents an unconstrained ${codecName} that can be any geometry type.`
+                  : `Represents a ${subtypeName}${hasZ ? " with Z coordinates" : ""}${hasM ? " with M coordinates" : ""} geometry.`,
                 "type"
               ),
               interfaces: typeInterfaces,
@@ -291,24 +445,111 @@ export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
           );
 
           typeNames[typeKey] = typeName;
+
+          // GeometryInterface resolves the members of collections to these
+          // types
+          if (subtype === GIS_SUBTYPE.GeometryCollection) {
+            for (const memberSubtype of CONCRETE_SUBTYPES) {
+              getGeometryType(codecName, memberSubtype, hasZ, hasM);
+            }
+          }
+
           return typeName;
         }
 
+        /**
+         * Register the types the values of unconstrained columns of a codec
+         * resolve to: every concrete type, and the generic type as a fallback
+         */
+        function getUnconstrainedTypes(codecName: string) {
+          const unconstrainedTypeNames = [
+            getGeometryType(codecName, 0, false, false),
+          ];
+          for (const subtype of CONCRETE_SUBTYPES) {
+            for (const hasZ of [false, true]) {
+              for (const hasM of [false, true]) {
+                unconstrainedTypeNames.push(
+                  getGeometryType(codecName, subtype, hasZ, hasM)
+                );
+              }
+            }
+          }
+          return unconstrainedTypeNames;
+        }
+
+        /**
+         * Get the interface unconstrained columns of a codec are typed as,
+         * registering the types their values resolve to
+         */
+        function getUnconstrainedInterface(codecName: string) {
+          getUnconstrainedTypes(codecName);
+          return getGeometryInterface();
+        }
+
+        /**
+         * Get or create the union of the types the values of unconstrained
+         * columns of a codec resolve to, such as `GeometryUnion`
+         */
+        function getUnconstrainedUnion(codecName: string) {
+          const unionName = inflection.gisUnionType({ name: codecName } as any);
+          if (interfaceNames[unionName]) {
+            return unionName;
+          }
+          const memberTypeNames = getUnconstrainedTypes(codecName);
+
+          build.registerUnionType(
+            unionName,
+            {
+              isPostGISUnion: true,
+              isGeographyType: codecName === "geography",
+            },
+            () => ({
+              description: build.wrapDescription(
+                `Any ${codecName}, as its concrete type.`,
+                "type"
+              ),
+              types: () =>
+                memberTypeNames.map(
+                  (memberTypeName) => build.getTypeByName(memberTypeName) as any
+                ),
+              planType: EXPORTABLE(
+                (codecName, geometryTypeName, lambda) =>
+                  function planType($specifier: Step) {
+                    return {
+                      $__typename: lambda(
+                        $specifier,
+                        (value) => geometryTypeName(value, codecName),
+                        true
+                      ),
+                    };
+                  },
+                [codecName, geometryTypeName, lambda]
+              ),
+            }),
+            `PostgisRegisterTypesPlugin (${unionName})`
+          );
+
+          interfaceNames[unionName] = unionName;
+          return unionName;
+        }
+
+        // Store the implementation function in the module-level variable
+        // This will be used by the helper function added in the build hook
+        getGeometryTypeImpl = getGeometryType;
+        getUnconstrainedInterfaceImpl = getUnconstrainedInterface;
+        getUnconstrainedUnionImpl = getUnconstrainedUnion;
+        getTypeNamesImpl = () => Object.values(typeNames);
+
+        // Otherwise PostgisTypesPlugin registers the types of the columns
+        if (build.options.postgis?.registerAllTypes === false) {
+          return _;
+        }
+
         // Pre-register all geometry and geography types that might be needed
         // This ensures they exist when codecs try to reference them
-        const subtypes: Subtype[] = [
-          GIS_SUBTYPE.Point,
-          GIS_SUBTYPE.LineString,
-          GIS_SUBTYPE.Polygon,
-          GIS_SUBTYPE.MultiPoint,
-          GIS_SUBTYPE.MultiLineString,
-          GIS_SUBTYPE.MultiPolygon,
-          GIS_SUBTYPE.GeometryCollection,
-        ];
-
         // Register types for both geometry and geography codecs
         for (const codecName of ["geometry", "geography"]) {
-          for (const subtype of subtypes) {
+          for (const subtype of CONCRETE_SUBTYPES) {
             for (const hasZ of [false, true]) {
               for (const hasM of [false, true]) {
                 getGeometryType(codecName, subtype, hasZ, hasM);
@@ -339,6 +580,7 @@ export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
               {
                 isPostGISType: true,
                 isGeometryType: true,
+                isGeographyType: codecName === "geography",
                 subtype: 0, // GIS_SUBTYPE.Geometry
                 hasZ: false,
                 hasM: false,
@@ -388,12 +630,19 @@ export const PostgisRegisterTypesPlugin: GraphileConfig.Plugin = {
           }
         }
 
-        // Store the implementation function in the module-level variable
-        // This will be used by the helper function added in the build hook
-        getGeometryTypeImpl = getGeometryType;
-
         return _;
       },
+      GraphQLSchema_types(types, build) {
+        // GeometryInterface resolves values to the registered types, which no
+        // field need reference, so they're added to the schema explicitly
+        for (const typeName of getTypeNamesImpl?.() ?? []) {
+          const type = build.getTypeByName(typeName);
+          if (type && !types.includes(type)) {
+            types.push(type);
+          }
+        }
+        return types;
+      },
     },
   },
 };
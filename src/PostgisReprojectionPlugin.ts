@@ -0,0 +1,171 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import { lambda, SafeError, type FieldArgs, type Step } from "grafast";
+import { PgClassExpressionStep, TYPES } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import {
+  hasArgument,
+  pgPostGISExpression,
+  sqlTransformed,
+} from "./pgExpression";
+
+const { version } = require("../package.json");
+
+/**
+ * Plugin to add an `srid` argument to the geometry type fields
+ *
+ * `srid(srid: Int)` and the Point `x`, `y` and `z` fields reproject the
+ * geometry into the given SRID with `ST_Transform` for that selection only
+ * (as does `geojson`, see `PostgisGeoJSONFieldPlugin`), so that clients
+ * rendering in another projection (such as web mercator, EPSG:3857) need
+ * not reproject every feature. The
+ * `srid` field returns the SRID the other fields are reprojected into;
+ * geometries with an unknown SRID (0) are left as they are, and report 0.
+ *
+ * Reprojection happens in the query that selects the column; geometries
+ * nested within other geometries (such as the polygons of a MultiPolygon)
+ * are built from the column's GeoJSON and cannot be reprojected.
+ */
+export const PostgisReprojectionPlugin: GraphileConfig.Plugin = {
+  name: "PostgisReprojectionPlugin",
+  version,
+  after: ["PostgisRegisterTypesPlugin", "PostgisPointFieldsPlugin"],
+
+  schema: {
+    hooks: {
+      GraphQLInterfaceType_fields_field(field, build, context) {
+        const { isPostGISInterface, fieldName } = context.scope as any;
+        if (!isPostGISInterface || fieldName !== "srid") {
+          return field;
+        }
+        return {
+          ...field,
+          args: build.extend(
+            field.args ?? {},
+            {
+              srid: {
+                type: build.graphql.GraphQLInt,
+                description: build.wrapDescription(
+                  "The SRID to reproject the geometry into (ST_Transform); by default, the geometry's own SRID.",
+                  "arg"
+                ),
+              },
+            },
+            `Adding srid argument to ${fieldName}`
+          ),
+        };
+      },
+
+      GraphQLObjectType_fields_field(field, build, context) {
+        const { isPostGISType, isGeometryType, fieldName } =
+          context.scope as any;
+        if (!isPostGISType || !isGeometryType) {
+          return field;
+        }
+
+        const { inflection } = build;
+        const codec = { name: "geometry" } as any; // Dummy codec for inflection
+        let toSQL: ((sqlValue: SQL) => SQL) | null = null;
+        if (fieldName === inflection.gisXFieldName(codec)) {
+          toSQL = (sqlValue) => sql`ST_X(${sqlValue})`;
+        } else if (fieldName === inflection.gisYFieldName(codec)) {
+          toSQL = (sqlValue) => sql`ST_Y(${sqlValue})`;
+        } else if (fieldName === inflection.gisZFieldName(codec)) {
+          toSQL = (sqlValue) => sql`ST_Z(${sqlValue})`;
+        } else if (fieldName === "srid") {
+          // Geometries with an unknown SRID are not reprojected, so the SRID
+          // is read back from the reprojected geometry
+          toSQL = (sqlValue) => sql`ST_SRID(${sqlValue})`;
+        } else {
+          return field;
+        }
+        const isSridField = fieldName === "srid";
+        const codecForField = isSridField ? TYPES.int : TYPES.float;
+
+        const originalPlan = field.plan as any;
+        const args = build.extend(
+          field.args ?? {},
+          {
+            srid: {
+              type: build.graphql.GraphQLInt,
+              description: build.wrapDescription(
+                "The SRID to reproject the geometry into (ST_Transform); by default, the geometry's own SRID.",
+                "arg"
+              ),
+            },
+          },
+          `Adding srid argument to ${fieldName}`
+        );
+
+        return {
+          ...field,
+          args,
+          plan: EXPORTABLE(
+            (
+              PgClassExpressionStep,
+              SafeError,
+              TYPES,
+              codecForField,
+              hasArgument,
+              isSridField,
+              lambda,
+              originalPlan,
+              pgPostGISExpression,
+              sqlTransformed,
+              toSQL
+            ) =>
+              function plan(
+                $source: Step,
+                fieldArgs: FieldArgs,
+                info: any
+              ): Step {
+                const $srid = fieldArgs.getRaw("srid");
+                if (!hasArgument($srid)) {
+                  return originalPlan($source, fieldArgs, info);
+                }
+                if (!($source instanceof PgClassExpressionStep)) {
+                  if (isSridField) {
+                    // The SRID the other fields would be reprojected into
+                    return lambda(
+                      [$srid, originalPlan($source, fieldArgs, info)],
+                      ([srid, original]) => srid ?? original,
+                      true
+                    );
+                  }
+                  throw new SafeError(
+                    "The srid argument is only supported on geometries selected from a column, not on geometries nested within them."
+                  );
+                }
+                return pgPostGISExpression(
+                  $source,
+                  codecForField,
+                  (sqlValue, sourceCodec, sqlArgument) =>
+                    toSQL(
+                      sqlTransformed(
+                        sqlValue,
+                        sourceCodec,
+                        sqlArgument($srid, TYPES.int)
+                      )
+                    )
+                );
+              },
+            [
+              PgClassExpressionStep,
+              SafeError,
+              TYPES,
+              codecForField,
+              hasArgument,
+              isSridField,
+              lambda,
+              originalPlan,
+              pgPostGISExpression,
+              sqlTransformed,
+              toSQL,
+            ]
+          ),
+        };
+      },
+    },
+  },
+};
@@ -1,6 +1,8 @@
 import type { GraphileConfig } from "graphile-config";
 import { GraphQLError, Kind, valueFromASTUntyped } from "graphql";
 import { EXPORTABLE } from "graphile-build";
+import { validateWellKnownGeometry } from "./validation";
+import { parseGeometryInput, WellKnownGeometry } from "./wellKnown";
 
 const { version } = require("../package.json");
 
@@ -8,15 +10,45 @@ declare global {
   namespace GraphileBuild {
     interface ScopeScalar {
       isGeoJSON?: boolean;
+      isGeometryInput?: boolean;
     }
   }
 }
 
+/**
+ * Parses a GeometryInput string, reporting errors with the format that was
+ * detected: GeoJSON, WKT, EWKT or WKB.
+ */
+function parseGeometryInputString(value: string): any {
+  let geometry: any;
+  try {
+    geometry = parseGeometryInput(value);
+  } catch (e) {
+    throw new GraphQLError(
+      `Invalid GeoJSON string: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+  if (geometry instanceof WellKnownGeometry) {
+    const errors = validateWellKnownGeometry(geometry);
+    if (errors.length > 0) {
+      throw new GraphQLError(
+        `Invalid ${geometry.format.toUpperCase()}: ${errors
+          .map((err) => `${err.field}: ${err.message}`)
+          .join("; ")}.`
+      );
+    }
+  }
+  return geometry;
+}
+
 /**
  * Plugin to register the GeoJSON scalar type
  * 
  * This scalar accepts GeoJSON objects (not just strings) to support mutations
  * that pass GeoJSON objects directly.
+ *
+ * Also registers the GeometryInput scalar used for PostGIS column input, which
+ * additionally accepts WKT, EWKT and hex-encoded WKB strings.
  */
 export const PostgisScalarPlugin: GraphileConfig.Plugin = {
   name: "PostgisScalarPlugin",
@@ -95,6 +127,68 @@ export const PostgisScalarPlugin: GraphileConfig.Plugin = {
           "PostgisScalarPlugin (GeoJSON type)"
         );
 
+        const geometryInputTypeName = build.inflection.gisGeometryInputScalar();
+        build.registerScalarType(
+          geometryInputTypeName,
+          { isGeometryInput: true },
+          () => ({
+            description: build.wrapDescription(
+              "A geometry given as GeoJSON, Well-Known Text (`POINT(30 10)`), Extended Well-Known Text (`SRID=4326;POINT(30 10)`) or hex-encoded Well-Known Binary.",
+              "type"
+            ),
+            serialize: EXPORTABLE(() => (value: any) => value, []),
+            // ParseValue: accept GeoJSON objects, or strings in any of the formats
+            parseValue: EXPORTABLE(
+              (GraphQLError, geometryInputTypeName, parseGeometryInputString) =>
+                (value: any) => {
+                  if (value && typeof value === "object" && !Array.isArray(value)) {
+                    return value;
+                  }
+                  if (typeof value === "string") {
+                    return parseGeometryInputString(value);
+                  }
+                  throw new GraphQLError(
+                    `${geometryInputTypeName} can only parse object or string values`
+                  );
+                },
+              [GraphQLError, geometryInputTypeName, parseGeometryInputString]
+            ),
+            parseLiteral: EXPORTABLE(
+              (
+                Kind,
+                valueFromASTUntyped,
+                GraphQLError,
+                geometryInputTypeName,
+                parseGeometryInputString
+              ) =>
+                (ast: any, variables?: any) => {
+                  if (ast.kind === Kind.OBJECT) {
+                    return valueFromASTUntyped(ast, variables);
+                  }
+                  if (ast.kind === Kind.STRING) {
+                    return parseGeometryInputString(ast.value);
+                  }
+                  throw new GraphQLError(
+                    `${geometryInputTypeName} can only parse object or string values (kind='${ast.kind}')`
+                  );
+                },
+              [
+                Kind,
+                valueFromASTUntyped,
+                GraphQLError,
+                geometryInputTypeName,
+                parseGeometryInputString,
+              ]
+            ),
+            extensions: {
+              grafast: {
+                idempotent: true,
+              },
+            },
+          }),
+          "PostgisScalarPlugin (GeometryInput type)"
+        );
+
         return _;
       },
     },
@@ -0,0 +1,139 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import { constant, type FieldArgs, type Step } from "grafast";
+import { PgClassExpressionStep, TYPES } from "@dataplan/pg";
+import { sql } from "pg-sql2";
+import { GIS_SUBTYPE } from "./constants";
+import { pgPostGISExpression } from "./pgExpression";
+import type { Subtype } from "./types";
+
+const { version } = require("../package.json");
+
+/**
+ * The geometry subtypes that can be simplified; points are left out, as
+ * simplification does not change them.
+ */
+const SIMPLIFIABLE_SUBTYPES: ReadonlyArray<Subtype> = [
+  GIS_SUBTYPE.Geometry,
+  GIS_SUBTYPE.LineString,
+  GIS_SUBTYPE.Polygon,
+  GIS_SUBTYPE.MultiPoint,
+  GIS_SUBTYPE.MultiLineString,
+  GIS_SUBTYPE.MultiPolygon,
+];
+
+/**
+ * Plugin to add a `simplified` field to geometry types
+ *
+ * `simplified(tolerance: Float!, preserveTopology: Boolean)` returns the
+ * geometry simplified by PostGIS with `ST_Simplify` (or
+ * `ST_SimplifyPreserveTopology`), as the same GraphQL type, so that
+ * zoomed-out map views can fetch lightweight shapes. The tolerance is in
+ * units of the spatial reference system; geography is simplified as
+ * geometry, so its tolerance is in degrees.
+ *
+ * Geometries nested within other geometries (such as the polygons of a
+ * MultiPolygon) are not selected from the database, so this field is null
+ * for them.
+ */
+export const PostgisSimplifyPlugin: GraphileConfig.Plugin = {
+  name: "PostgisSimplifyPlugin",
+  version,
+  after: ["PostgisRegisterTypesPlugin"],
+
+  schema: {
+    hooks: {
+      GraphQLObjectType_fields(fields, build, context) {
+        const { scope, fieldWithHooks, Self } = context;
+        const { isPostGISType, isGeometryType, subtype } = scope;
+
+        if (
+          !isPostGISType ||
+          !isGeometryType ||
+          subtype === undefined ||
+          !SIMPLIFIABLE_SUBTYPES.includes(subtype)
+        ) {
+          return fields;
+        }
+
+        const { GraphQLFloat, GraphQLBoolean, GraphQLNonNull } = build.graphql;
+        const fieldName = "simplified";
+
+        return build.extend(
+          fields,
+          {
+            [fieldName]: fieldWithHooks({ fieldName } as any, {
+              description: build.wrapDescription(
+                "The geometry simplified with the Douglas-Peucker algorithm (ST_Simplify).",
+                "field"
+              ),
+              type: Self,
+              args: {
+                tolerance: {
+                  type: new GraphQLNonNull(GraphQLFloat),
+                  description: build.wrapDescription(
+                    "The distance tolerance, in units of the spatial reference system (degrees for geography).",
+                    "arg"
+                  ),
+                },
+                preserveTopology: {
+                  type: GraphQLBoolean,
+                  description: build.wrapDescription(
+                    "Whether to avoid creating invalid geometries, using ST_SimplifyPreserveTopology.",
+                    "arg"
+                  ),
+                },
+              },
+              plan: EXPORTABLE(
+                (
+                  PgClassExpressionStep,
+                  TYPES,
+                  constant,
+                  pgPostGISExpression,
+                  sql
+                ) =>
+                  function plan($source: Step, fieldArgs: FieldArgs): Step {
+                    if (!($source instanceof PgClassExpressionStep)) {
+                      return constant(null);
+                    }
+                    // The result has the column's codec, so the fields of
+                    // the type work on it as they do on the column
+                    return pgPostGISExpression(
+                      $source,
+                      $source.pgCodec,
+                      (sqlValue, codec, sqlArgument) => {
+                        const isGeography =
+                          (codec.extensions as any)?.typeName === "geography";
+                        const sqlGeometry = isGeography
+                          ? sql`(${sqlValue})::geometry`
+                          : sqlValue;
+                        const sqlTolerance = sqlArgument(
+                          fieldArgs.getRaw("tolerance"),
+                          TYPES.float
+                        );
+                        const sqlSimplified = sql`(case when ${sqlArgument(
+                          fieldArgs.getRaw("preserveTopology"),
+                          TYPES.boolean
+                        )} then ST_SimplifyPreserveTopology(${sqlGeometry}, ${sqlTolerance}) else ST_Simplify(${sqlGeometry}, ${sqlTolerance}) end)`;
+                        return isGeography
+                          ? sql`${sqlSimplified}::geography`
+                          : sqlSimplified;
+                      }
+                    );
+                  },
+                [
+                  PgClassExpressionStep,
+                  TYPES,
+                  constant,
+                  pgPostGISExpression,
+                  sql,
+                ]
+              ),
+            }),
+          },
+          "Adding PostGIS simplified field"
+        );
+      },
+    },
+  },
+};
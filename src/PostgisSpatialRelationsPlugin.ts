@@ -0,0 +1,183 @@
+import type { GraphileConfig } from "graphile-config";
+import { EXPORTABLE } from "graphile-build";
+import "graphile-build-pg";
+import { connection } from "grafast";
+import type { PgCodec, PgResource, PgSelectSingleStep } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import type { SpatialRelation } from "./spatialRelations";
+import {
+  getSpatialRelations,
+  sqlSpatialRelationPredicate,
+} from "./spatialRelations";
+
+const { version } = require("../package.json");
+
+declare global {
+  namespace GraphileBuild {
+    interface ScopeObjectFieldsField {
+      isPostGISSpatialRelationField?: boolean;
+    }
+  }
+}
+
+/**
+ * Plans the rows of the other table of a spatial relation that are related
+ * to a record. The record's geometry is selected by its primary key, given
+ * as placeholders, so Grafast fetches the rows of every record at once
+ * (a lateral join over the records' keys) rather than one query per record.
+ */
+function planSpatialRelation(
+  relation: SpatialRelation,
+  isBackward: boolean,
+  $record: PgSelectSingleStep<any>
+) {
+  const thisSide = isBackward ? relation.right : relation.left;
+  const otherSide = isBackward ? relation.left : relation.right;
+  const primaryKey = thisSide.resource.uniques.find(
+    (unique: any) => unique.isPrimary
+  )!;
+
+  const $select = otherSide.resource.find();
+  const alias = sql.identifier(Symbol(thisSide.resource.name));
+  const sqlKeyMatches = primaryKey.attributes.map(
+    (attributeName: string) =>
+      sql`${alias}.${sql.identifier(attributeName)} = ${$select.placeholder(
+        $record.get(attributeName),
+        thisSide.resource.codec.attributes[attributeName].codec as PgCodec
+      )}`
+  );
+  const sqlThis = sql`(select ${alias}.${sql.identifier(
+    thisSide.attributeName
+  )} from ${thisSide.resource.from as SQL} as ${alias} where ${sql.join(
+    sqlKeyMatches,
+    " and "
+  )})`;
+  const sqlOther = sql`${$select.alias}.${sql.identifier(
+    otherSide.attributeName
+  )}`;
+  $select.where(
+    isBackward
+      ? sqlSpatialRelationPredicate(relation, sqlOther, sqlThis)
+      : sqlSpatialRelationPredicate(relation, sqlThis, sqlOther)
+  );
+  return connection($select);
+}
+
+/**
+ * Plugin to add connection fields between tables related by a spatial
+ * predicate (opt-in)
+ *
+ * For every `@spatialRelation` smart tag, such as
+ * `@spatialRelation district parcels.geom ST_Within districts.geom`, adds a
+ * forward connection field to the first table (`Parcel.districtsByDistrict`,
+ * the districts each parcel is within) and a backward connection field to
+ * the second (`District.parcelsByDistrict`, the parcels within each
+ * district). See src/spatialRelations.ts for the tag's syntax.
+ *
+ * Both tables need a primary key. The fields take the usual connection
+ * arguments (pagination, `orderBy`, `condition` and `filter`), and are
+ * fetched for all records of a query at once. Index the columns with GiST so
+ * the predicates use the index.
+ *
+ * This plugin is not part of `postgisPlugin`; add it to your preset to
+ * enable it.
+ */
+export const PostgisSpatialRelationsPlugin: GraphileConfig.Plugin = {
+  name: "PostgisSpatialRelationsPlugin",
+  version,
+  after: ["PostgisTypesPlugin", "PgRelationsPlugin"],
+
+  schema: {
+    hooks: {
+      GraphQLObjectType_fields(fields, build, context) {
+        const { scope, fieldWithHooks } = context;
+        const { isPgClassType, pgCodec } = scope as any;
+        if (!isPgClassType || !pgCodec?.attributes) {
+          return fields;
+        }
+
+        const resources = (
+          Object.values(build.input.pgRegistry.pgResources) as PgResource<
+            any,
+            any,
+            any,
+            any,
+            any
+          >[]
+        ).filter(
+          (resource) =>
+            !resource.parameters &&
+            !resource.isVirtual &&
+            resource.codec.attributes &&
+            !resource.codec.isAnonymous
+        );
+        const relations = getSpatialRelations(resources);
+
+        const { inflection, graphql } = build;
+        const { GraphQLNonNull } = graphql;
+        const typeName = inflection.tableType(pgCodec);
+        const newFields: Record<string, any> = {};
+
+        for (const relation of relations) {
+          for (const isBackward of [false, true]) {
+            const thisSide = isBackward ? relation.right : relation.left;
+            const otherSide = isBackward ? relation.left : relation.right;
+            if (thisSide.resource.codec !== pgCodec) {
+              continue;
+            }
+            const otherCodec = otherSide.resource.codec;
+            const ConnectionType = build.getTypeByName(
+              inflection.tableConnectionType(otherCodec)
+            ) as any;
+            if (!ConnectionType) {
+              continue;
+            }
+
+            const { left, right } = relation;
+            const sqlText = `${relation.fn}(${left.resource.name}.${left.attributeName}, ${right.resource.name}.${right.attributeName})`;
+            const fieldName = inflection.gisSpatialRelationConnectionField({
+              relation,
+              isBackward,
+            });
+            newFields[fieldName] = fieldWithHooks(
+              {
+                fieldName,
+                pgFieldResource: otherSide.resource,
+                pgFieldCodec: otherCodec,
+                isPgFieldConnection: true,
+                isPostGISSpatialRelationField: true,
+              } as any,
+              {
+                description: build.wrapDescription(
+                  `Reads and enables pagination through the \`${inflection.tableType(
+                    otherCodec
+                  )}\` rows related to this \`${typeName}\` by \`${sqlText}\`.`,
+                  "field"
+                ),
+                type: new GraphQLNonNull(ConnectionType),
+                plan: EXPORTABLE(
+                  (isBackward, planSpatialRelation, relation) =>
+                    function plan($record: PgSelectSingleStep<any>) {
+                      return planSpatialRelation(relation, isBackward, $record);
+                    },
+                  [isBackward, planSpatialRelation, relation]
+                ),
+              }
+            );
+          }
+        }
+
+        if (Object.keys(newFields).length === 0) {
+          return fields;
+        }
+
+        return build.extend(
+          fields,
+          newFields,
+          `Adding PostGIS spatial relation fields to ${typeName}`
+        );
+      },
+    },
+  },
+};
@@ -1,20 +1,41 @@
 import type { GraphileConfig } from "graphile-config";
 import type { GatherPluginContext } from "graphile-build";
 import type { PgCodec } from "@dataplan/pg";
+import { getColumnOptions } from "./columnOptions";
+import { GIS_SUBTYPE, GIS_SUBTYPE_NAME } from "./constants";
+import { acceptsStructuredInput } from "./mutationUtils";
+import type { Subtype } from "./types";
+import debugFactory from "debug";
 
+const debug = debugFactory("graphile-postgis:types");
 const { version } = require("../package.json");
 
+declare global {
+  namespace GraphileBuild {
+    interface ScopeInputObject {
+      isPostGISStructuredInput?: boolean;
+      subtype?: Subtype;
+    }
+  }
+}
+
 interface State {}
 interface Cache {}
 
 /**
  * Plugin to register GraphQL types for PostGIS geometry/geography codecs
  * Maps PostGIS codecs to the GeoJSON scalar type
+ *
+ * With the `structuredInput` option, the input of columns constrained to a
+ * subtype is typed as an input object of its coordinates instead, such as
+ * `GeometryPointInput`; the codec converts it to GeoJSON when written.
  */
 export const PostgisTypesPlugin: GraphileConfig.Plugin = {
   name: "PostgisTypesPlugin",
   version,
   after: ["PostgisCodecPlugin", "PostgisScalarPlugin", "PostgisRegisterTypesPlugin"],
+  // Filter types are derived from the codec's GraphQL type, so it must be set first
+  before: ["PgConnectionArgFilterPlugin"],
 
   gather: {
     hooks: {
@@ -47,7 +68,7 @@ export const PostgisTypesPlugin: GraphileConfig.Plugin = {
   schema: {
     hooks: {
       init(_, build) {
-        const { input } = build;
+        const { input, inflection } = build;
         const pgRegistry = (input as any).pgRegistry;
 
         if (!pgRegistry) {
@@ -60,6 +81,130 @@ export const PostgisTypesPlugin: GraphileConfig.Plugin = {
           // PostgisRegisterTypesPlugin hasn't run yet, skip
           return _;
         }
+        const unconstrainedColumns =
+          build.options.postgis?.unconstrainedColumns ?? "interface";
+        const structuredInput = !!build.options.postgis?.structuredInput;
+
+        const { GraphQLFloat, GraphQLList, GraphQLNonNull } = build.graphql;
+        const structuredInputTypeNames: Partial<Record<Subtype, string>> = {};
+
+        /**
+         * Get or create the structured input type of a subtype, such as
+         * `GeometryPointInput { x, y, z }`, and the types nested within it
+         */
+        const getStructuredInputType = (subtype: Subtype): string => {
+          const existingTypeName = structuredInputTypeNames[subtype];
+          if (existingTypeName) {
+            return existingTypeName;
+          }
+          const typeName = inflection.gisStructuredInputType(subtype);
+          structuredInputTypeNames[subtype] = typeName;
+
+          const listOf = (memberSubtype: Subtype) => {
+            const memberTypeName = getStructuredInputType(memberSubtype);
+            return () =>
+              new GraphQLNonNull(
+                new GraphQLList(
+                  new GraphQLNonNull(build.getTypeByName(memberTypeName) as any)
+                )
+              );
+          };
+          const fieldSpecs: Record<
+            string,
+            { type: () => any; description: string }
+          > = {};
+          switch (subtype) {
+            case GIS_SUBTYPE.Point: {
+              fieldSpecs.x = {
+                type: () => new GraphQLNonNull(GraphQLFloat),
+                description: "The X coordinate (longitude for geography).",
+              };
+              fieldSpecs.y = {
+                type: () => new GraphQLNonNull(GraphQLFloat),
+                description: "The Y coordinate (latitude for geography).",
+              };
+              fieldSpecs.z = {
+                type: () => GraphQLFloat,
+                description:
+                  "The Z coordinate (height for geography), required by columns with Z coordinates.",
+              };
+              break;
+            }
+            case GIS_SUBTYPE.LineString:
+            case GIS_SUBTYPE.MultiPoint: {
+              fieldSpecs.points = {
+                type: listOf(GIS_SUBTYPE.Point),
+                description: "The points.",
+              };
+              break;
+            }
+            case GIS_SUBTYPE.Polygon: {
+              const lineStringTypeName = getStructuredInputType(
+                GIS_SUBTYPE.LineString
+              );
+              fieldSpecs.exterior = {
+                type: () =>
+                  new GraphQLNonNull(
+                    build.getTypeByName(lineStringTypeName) as any
+                  ),
+                description:
+                  "The exterior ring, whose last point is its first.",
+              };
+              fieldSpecs.interiors = {
+                type: () =>
+                  new GraphQLList(
+                    new GraphQLNonNull(
+                      build.getTypeByName(lineStringTypeName) as any
+                    )
+                  ),
+                description: "The interior rings (holes), if any.",
+              };
+              break;
+            }
+            case GIS_SUBTYPE.MultiLineString: {
+              fieldSpecs.lineStrings = {
+                type: listOf(GIS_SUBTYPE.LineString),
+                description: "The line strings.",
+              };
+              break;
+            }
+            case GIS_SUBTYPE.MultiPolygon: {
+              fieldSpecs.polygons = {
+                type: listOf(GIS_SUBTYPE.Polygon),
+                description: "The polygons.",
+              };
+              break;
+            }
+          }
+
+          build.registerInputObjectType(
+            typeName,
+            { isPostGISStructuredInput: true, subtype },
+            () => ({
+              description: build.wrapDescription(
+                `A ${GIS_SUBTYPE_NAME[subtype]} geometry, given by its coordinates.`,
+                "type"
+              ),
+              fields: () =>
+                Object.fromEntries(
+                  Object.entries(fieldSpecs).map(
+                    ([fieldName, { type, description }]) => [
+                      fieldName,
+                      {
+                        type: type(),
+                        description: build.wrapDescription(
+                          description,
+                          "field"
+                        ),
+                      },
+                    ]
+                  )
+                ),
+            }),
+            `PostgisTypesPlugin (${typeName})`
+          );
+          return typeName;
+        };
 
         // Map all geometry and geography codecs to use GraphQL object types
         // The key insight: codecs for columns with specific modifiers (like geometry(point))
@@ -118,24 +263,24 @@ export const PostgisTypesPlugin: GraphileConfig.Plugin = {
         }
         
         const allCodecs = Array.from(allCodecsSet);
-        console.log(`[PostgisTypesPlugin] Checking ${allCodecs.length} total codecs (including attributes)`);
+        debug(`Checking ${allCodecs.length} total codecs (including attributes)`);
         
         // Debug: List all codec names to see what we have
         const codecNames = allCodecs.map(c => c.name).filter((v, i, a) => a.indexOf(v) === i);
-        console.log(`[PostgisTypesPlugin] Codec names found: ${codecNames.join(', ')}`);
+        debug(`Codec names found: ${codecNames.join(', ')}`);
         
         // Debug: Check table codecs specifically
         for (const resource of allResources) {
           if ((resource as any).codec) {
             const tableCodec = (resource as any).codec as PgCodec;
             if (tableCodec.attributes) {
-              console.log(`[PostgisTypesPlugin] Table ${tableCodec.name} has ${Object.keys(tableCodec.attributes).length} attributes`);
+              debug(`Table ${tableCodec.name} has ${Object.keys(tableCodec.attributes).length} attributes`);
               for (const [attrName, attr] of Object.entries(tableCodec.attributes)) {
                 const attrCodec = (attr as any).codec as PgCodec | undefined;
                 if (attrCodec) {
                   const attrExt = attrCodec.extensions as any;
                   if (attrCodec.name === "geometry" || attrCodec.name === "geography" || attrExt?.isPostGIS) {
-                    console.log(`[PostgisTypesPlugin]   Attribute ${attrName}: codec=${attrCodec.name}, hasTypeDetails=${!!attrExt?.typeDetails}, typeDetails=`, attrExt?.typeDetails);
+                    debug(`Attribute ${attrName}: codec=${attrCodec.name}, hasTypeDetails=${!!attrExt?.typeDetails}, typeDetails=%o`, attrExt?.typeDetails);
                   }
                 }
               }
@@ -165,16 +310,30 @@ export const PostgisTypesPlugin: GraphileConfig.Plugin = {
             // typeDetails is stored directly in extensions.typeDetails (see codec.ts)
             const typeDetails = extensions?.typeDetails || null;
             
-            console.log(`[PostgisTypesPlugin] Found PostGIS codec: name=${codec.name}, hasTypeDetails=${!!typeDetails}, typeDetails=`, typeDetails);
+            debug(`Found PostGIS codec: name=${codec.name}, hasTypeDetails=${!!typeDetails}, typeDetails=%o`, typeDetails);
             if (typeDetails) {
-              console.log(`[PostgisTypesPlugin]   subtype=${typeDetails.subtype}, hasZ=${typeDetails.hasZ}, hasM=${typeDetails.hasM}, srid=${typeDetails.srid}`);
+              debug(`subtype=${typeDetails.subtype}, hasZ=${typeDetails.hasZ}, hasM=${typeDetails.hasM}, srid=${typeDetails.srid}`);
             }
 
-            // For input (mutations), use GeoJSON scalar
+            // For input (mutations), use the GeometryInput scalar, which
+            // accepts GeoJSON as well as WKT, EWKT and WKB, or the
+            // structured input type of the column's subtype
             if (!(build as any).hasGraphQLTypeForPgCodec(codec, "input")) {
-              (build as any).setGraphQLTypeForPgCodec(codec, "input", "GeoJSON");
+              (build as any).setGraphQLTypeForPgCodec(
+                codec,
+                "input",
+                structuredInput &&
+                  acceptsStructuredInput(typeDetails, getColumnOptions(codec))
+                  ? getStructuredInputType(typeDetails.subtype)
+                  : inflection.gisGeometryInputScalar()
+              );
             }
 
+            // Columns that omit fields get a GraphQL type of their own
+            const columnCodec = getColumnOptions(codec)?.omit
+              ? codec
+              : undefined;
+
             // For output (queries), use GraphQL object types
             if (!(build as any).hasGraphQLTypeForPgCodec(codec, "output")) {
               if (typeDetails && typeof typeDetails === 'object' && typeDetails.subtype !== undefined && typeDetails.subtype !== 0) {
@@ -186,20 +345,25 @@ export const PostgisTypesPlugin: GraphileConfig.Plugin = {
                   baseTypeName,
                   typeDetails.subtype,
                   typeDetails.hasZ || false,
-                  typeDetails.hasM || false
+                  typeDetails.hasM || false,
+                  columnCodec
                 );
-                console.log(`[PostgisTypesPlugin]   Generated type name: ${typeName} for codec ${codec.name}`);
+                debug(`Generated type name: ${typeName} for codec ${codec.name}`);
                 if (typeName) {
                   (build as any).setGraphQLTypeForPgCodec(codec, "output", typeName);
                   mappedCount++;
-                  console.log(`[PostgisTypesPlugin]   ✓ Mapped codec ${codec.name} to ${typeName}`);
+                  debug(`✓ Mapped codec ${codec.name} to ${typeName}`);
                 } else {
                   // Fallback to GeoJSON if type not found
-                  console.log(`[PostgisTypesPlugin]   ✗ Type name is null, falling back to GeoJSON`);
+                  debug(`✗ Type name is null, falling back to GeoJSON`);
                   (build as any).setGraphQLTypeForPgCodec(codec, "output", "GeoJSON");
                 }
               } else {
-                // Unconstrained geometry - use generic Geometry type that implements GeometryInterface
+                // Unconstrained geometry - use GeometryInterface (or the
+                // union of the concrete types), which resolves each value to
+                // its concrete type, unless the unconstrainedColumns option
+                // is "object"; columns with a type of their own use their
+                // generic Geometry type
                 // Extract base type name from codec name
                 let baseTypeNameForUnconstrained = codec.name;
                 if (codec.name.startsWith("geography_")) {
@@ -208,30 +372,40 @@ export const PostgisTypesPlugin: GraphileConfig.Plugin = {
                   baseTypeNameForUnconstrained = "geometry";
                 }
                 
-                const geometryTypeName = getPostGISGeometryType(
-                  baseTypeNameForUnconstrained,
-                  0, // subtype 0 = generic geometry
-                  false, // no Z
-                  false  // no M
-                );
-                console.log(`[PostgisTypesPlugin]   Using generic Geometry type: ${geometryTypeName} for unconstrained codec ${codec.name}`);
+                const geometryTypeName =
+                  columnCodec || unconstrainedColumns === "object"
+                    ? getPostGISGeometryType(
+                        baseTypeNameForUnconstrained,
+                        0, // subtype 0 = generic geometry
+                        false, // no Z
+                        false, // no M
+                        columnCodec
+                      )
+                    : unconstrainedColumns === "union"
+                    ? (build as any).getPostGISGeometryUnion(
+                        baseTypeNameForUnconstrained
+                      )
+                    : (build as any).getPostGISGeometryInterface(
+                        baseTypeNameForUnconstrained
+                      );
+                debug(`Using ${geometryTypeName} for unconstrained codec ${codec.name}`);
                 if (geometryTypeName) {
                   (build as any).setGraphQLTypeForPgCodec(codec, "output", geometryTypeName);
                   mappedCount++;
                 } else {
-                  console.log(`[PostgisTypesPlugin]   ✗ Type name is null, falling back to GeoJSON`);
+                  debug(`✗ Type name is null, falling back to GeoJSON`);
                   (build as any).setGraphQLTypeForPgCodec(codec, "output", "GeoJSON");
                 }
               }
             } else {
               const existingType = (build as any).getGraphQLTypeNameByPgCodec(codec, "output");
-              console.log(`[PostgisTypesPlugin]   Codec ${codec.name} already has output type: ${existingType}`);
+              debug(`Codec ${codec.name} already has output type: ${existingType}`);
             }
           }
         }
         
         // Debug: Log how many codecs were mapped
-        console.log(`[PostgisTypesPlugin] Found ${postgisCodecCount} PostGIS codecs, mapped ${mappedCount} to GraphQL object types`);
+        debug(`Found ${postgisCodecCount} PostGIS codecs, mapped ${mappedCount} to GraphQL object types`);
 
         return _;
       },
@@ -0,0 +1,175 @@
+import type { PgCodec } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+
+/**
+ * A rectangular bounding box, as accepted by the envelope input type.
+ */
+export interface Envelope {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+  /** SRID of the coordinates; defaults to the column's SRID */
+  srid?: number | null;
+}
+
+/**
+ * Describes a PostGIS bounding-box operator.
+ */
+export interface BoundingBoxOperator {
+  /** Name of the condition field; filter operators are prefixed with `bbox` */
+  name: string;
+  /** The PostGIS operator, as SQL */
+  sqlOperator: SQL;
+  description: string;
+  /** Whether PostGIS implements the operator for `geography` */
+  geographyNative: boolean;
+}
+
+/**
+ * The bounding-box operators supported by conditions and filters.
+ *
+ * These operators only compare bounding boxes, so they can be answered from a
+ * GiST index without evaluating the geometries themselves.
+ */
+export const BOUNDING_BOX_OPERATORS: ReadonlyArray<BoundingBoxOperator> = [
+  {
+    name: "intersects",
+    sqlOperator: sql`&&`,
+    description: "Bounding box intersects the specified envelope (&&).",
+    geographyNative: true,
+  },
+  {
+    name: "contains",
+    sqlOperator: sql`~`,
+    description: "Bounding box contains the specified envelope (~).",
+    geographyNative: false,
+  },
+  {
+    name: "containedBy",
+    sqlOperator: sql`@`,
+    description: "Bounding box is contained by the specified envelope (@).",
+    geographyNative: false,
+  },
+  {
+    name: "overlapsOrLeftOf",
+    sqlOperator: sql`&<`,
+    description:
+      "Bounding box overlaps or is to the left of the specified envelope (&<).",
+    geographyNative: false,
+  },
+  {
+    name: "overlapsOrRightOf",
+    sqlOperator: sql`&>`,
+    description:
+      "Bounding box overlaps or is to the right of the specified envelope (&>).",
+    geographyNative: false,
+  },
+  {
+    name: "leftOf",
+    sqlOperator: sql`<<`,
+    description:
+      "Bounding box is strictly to the left of the specified envelope (<<).",
+    geographyNative: false,
+  },
+  {
+    name: "rightOf",
+    sqlOperator: sql`>>`,
+    description:
+      "Bounding box is strictly to the right of the specified envelope (>>).",
+    geographyNative: false,
+  },
+  {
+    name: "above",
+    sqlOperator: sql`|>>`,
+    description: "Bounding box is strictly above the specified envelope (|>>).",
+    geographyNative: false,
+  },
+  {
+    name: "below",
+    sqlOperator: sql`<<|`,
+    description: "Bounding box is strictly below the specified envelope (<<|).",
+    geographyNative: false,
+  },
+];
+
+/**
+ * Creates SQL for an envelope that can be compared with a PostGIS column.
+ *
+ * The envelope is built with `ST_MakeEnvelope`. When the envelope's SRID
+ * differs from the SRID pinned by the column (`extensions.typeDetails`), it
+ * is transformed into the column's SRID. When neither specifies an SRID, the
+ * SRID of each row is used so the comparison never mixes SRIDs.
+ *
+ * @param envelope - The envelope input value
+ * @param codec - The PostGIS codec of the column being compared
+ * @param sqlIdentifier - SQL for the column being compared
+ * @param asGeography - Whether to return a geography rather than a geometry
+ * @returns SQL fragment for the envelope
+ *
+ * @example
+ * ```ts
+ * sqlEnvelope({ xmin: 0, ymin: 0, xmax: 10, ymax: 10 }, pointCodec4326, sql`t.geom`, false);
+ * // Returns: sql`ST_MakeEnvelope(0, 0, 10, 10, 4326)`
+ * ```
+ */
+export function sqlEnvelope(
+  envelope: Envelope,
+  codec: PgCodec,
+  sqlIdentifier: SQL,
+  asGeography: boolean
+): SQL {
+  const extensions = codec.extensions as any;
+  const isGeography = extensions?.typeName === "geography";
+  const columnSRID: number | null =
+    extensions?.typeDetails?.srid || (isGeography ? 4326 : null);
+  const inputSRID = envelope.srid ?? columnSRID;
+
+  const sqlSRID =
+    inputSRID != null ? sql.value(inputSRID) : sql`ST_SRID(${sqlIdentifier})`;
+  let envelopeSql = sql`ST_MakeEnvelope(${sql.value(
+    envelope.xmin
+  )}, ${sql.value(envelope.ymin)}, ${sql.value(envelope.xmax)}, ${sql.value(
+    envelope.ymax
+  )}, ${sqlSRID})`;
+
+  if (columnSRID != null && inputSRID !== columnSRID) {
+    envelopeSql = sql`ST_Transform(${envelopeSql}, ${sql.value(columnSRID)})`;
+  }
+
+  return asGeography ? sql`(${envelopeSql})::geography` : envelopeSql;
+}
+
+/**
+ * Creates SQL comparing a PostGIS column with an envelope using a
+ * bounding-box operator.
+ *
+ * Geography columns are cast to geometry for the operators PostGIS only
+ * implements for geometry.
+ *
+ * @param sqlIdentifier - SQL for the column being compared
+ * @param codec - The PostGIS codec of the column being compared
+ * @param bboxOperator - The bounding-box operator to apply
+ * @param envelope - The envelope input value
+ * @returns SQL boolean expression
+ */
+export function sqlBoundingBoxComparison(
+  sqlIdentifier: SQL,
+  codec: PgCodec,
+  bboxOperator: BoundingBoxOperator,
+  envelope: Envelope
+): SQL {
+  const isGeography = (codec.extensions as any)?.typeName === "geography";
+  const useGeography = isGeography && bboxOperator.geographyNative;
+  const sqlColumn =
+    isGeography && !useGeography
+      ? sql`(${sqlIdentifier})::geometry`
+      : sqlIdentifier;
+  return sql`${sqlColumn} ${bboxOperator.sqlOperator} ${sqlEnvelope(
+    envelope,
+    codec,
+    sqlIdentifier,
+    useGeography
+  )}`;
+}
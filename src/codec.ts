@@ -1,9 +1,31 @@
 import type { PgCodec } from "@dataplan/pg";
 import type { SQL } from "pg-sql2";
 import { sql } from "pg-sql2";
-import { getGISTypeDetails } from "./utils";
-import { validateGeoJSON } from "./validation";
-import type { GISTypeDetails } from "./types";
+import { sqlOutputGeometry } from "./columnOptions";
+import {
+  acceptsStructuredInput,
+  geoJSONFromStructuredInput,
+} from "./mutationUtils";
+import {
+  getFeatureGeometry,
+  getGISTypeDetails,
+  getSQLGeometryTypeDetails,
+} from "./utils";
+import {
+  autoFixGeoJSON,
+  validateGeoJSON,
+  validateGeoJSONForColumn,
+  validateGeoJSONSize,
+  validateWellKnownGeometry,
+} from "./validation";
+import {
+  WellKnownGeometry,
+  wellKnownGeometryType,
+  wellKnownGeometryWithSRID,
+} from "./wellKnown";
+import type { GISTypeDetails, PostgisColumn } from "./types";
+import type { PostgisOptions } from "./options";
+import { DEFAULT_LARGE_GEOMETRY_THRESHOLD } from "./options";
 
 /**
  * Creates a PgCodec for a PostGIS geometry or geography type.
@@ -14,6 +36,11 @@ import type { GISTypeDetails } from "./types";
  * @param typeName - Either "geometry" or "geography"
  * @param typeModifier - PostgreSQL type modifier (from pg_attribute.atttypmod)
  * @param pgTypeOid - PostgreSQL type OID for the geometry/geography type
+ * @param options - The `schema.postgis` options; the codec reads
+ * `geojsonValidation`, `largeGeometryThreshold`, `unconstrainedColumns` and
+ * `structuredInput`
+ * @param column - The column the codec is for, if it has per-column options;
+ * such codecs are not shared with other columns
  * @returns A PgCodec configured for PostGIS types
  * 
  * @example
@@ -25,7 +52,9 @@ import type { GISTypeDetails } from "./types";
 export function createPostGISCodec(
   typeName: "geometry" | "geography",
   typeModifier: number | null | undefined,
-  pgTypeOid: string | undefined
+  pgTypeOid: string | undefined,
+  options: PostgisOptions = {},
+  column?: PostgisColumn
 ): PgCodec<
   typeof typeName,
   undefined,
@@ -41,6 +70,9 @@ export function createPostGISCodec(
   if (typeModifier != null && typeModifier !== -1) {
     typeDetails = getGISTypeDetails(typeModifier);
   }
+  const inputOptions = options.geojsonValidation ?? {};
+  const largeGeometryThreshold =
+    options.largeGeometryThreshold ?? DEFAULT_LARGE_GEOMETRY_THRESHOLD;
 
   // Generate a unique codec name that includes the modifier
   // This is critical because PostGraphile caches codecs by typeId only,
@@ -66,24 +98,57 @@ export function createPostGISCodec(
     // Has modifier but subtype is 0 (generic geometry) - include modifier in name
     codecName = `${typeName}_mod_${typeModifier}`;
   }
+  if (column) {
+    codecName = `${codecName}__${column.className}_${column.attributeName}`;
+  }
+  const columnOptions = column?.options ?? {};
+  // The values of unconstrained columns resolve to a concrete GraphQL type,
+  // unless they are typed as the generic Geometry type
+  const resolvesSubtype =
+    (!typeDetails || typeDetails.subtype === 0) &&
+    options.unconstrainedColumns !== "object";
+  // Input may be given as the structured input type of the subtype
+  const structuredInput =
+    !!options.structuredInput &&
+    acceptsStructuredInput(typeDetails, columnOptions);
 
   // castFromPg: Generate SQL to convert geometry/geography to a JSON object with geojson, srid, and coordinates
-  const castFromPg = (fragment: SQL): SQL => {
+  const castFromPg = (value: SQL): SQL => {
+    // Columns may be output in another SRID, and with fewer decimal digits
+    const fragment = sqlOutputGeometry(value, codec);
+    const sqlGeoJSON =
+      columnOptions.precision != null
+        ? sql`ST_AsGeoJSON(${fragment}, ${sql.literal(
+            columnOptions.precision
+          )})::json`
+        : sql`ST_AsGeoJSON(${fragment})::json`;
+    // Coordinate and type functions are only defined on geometry
+    const sqlGeometry =
+      typeName === "geography" ? sql`(${fragment})::geometry` : fragment;
     // For Point types, also include x, y, z coordinates
     // For other types, just include geojson and srid
     if (typeDetails && typeDetails.subtype === 1) {
       // Point type - include coordinates
       return sql`json_build_object(
-        'geojson', ST_AsGeoJSON(${fragment})::json,
+        'geojson', ${sqlGeoJSON},
         'srid', ST_SRID(${fragment}),
-        'x', ST_X(${fragment}),
-        'y', ST_Y(${fragment}),
-        'z', CASE WHEN ST_CoordDim(${fragment}) >= 3 THEN ST_Z(${fragment}) ELSE NULL END
+        'x', ST_X(${sqlGeometry}),
+        'y', ST_Y(${sqlGeometry}),
+        'z', CASE WHEN ST_CoordDim(${sqlGeometry}) >= 3 THEN ST_Z(${sqlGeometry}) ELSE NULL END
+      )::text`;
+    } else if (resolvesSubtype) {
+      // Unconstrained types - include the type and coordinate dimensions, by
+      // which the GraphQL type of each value is chosen (GeoJSON has no M)
+      return sql`json_build_object(
+        'geojson', ${sqlGeoJSON},
+        'srid', ST_SRID(${fragment}),
+        'geometryType', GeometryType(${sqlGeometry}),
+        'coordDim', ST_CoordDim(${sqlGeometry})
       )::text`;
     } else {
       // Other types - just geojson and srid
       return sql`json_build_object(
-        'geojson', ST_AsGeoJSON(${fragment})::json,
+        'geojson', ${sqlGeoJSON},
         'srid', ST_SRID(${fragment})
       )::text`;
     }
@@ -108,14 +173,15 @@ export function createPostGISCodec(
         return null;
       }
       
-      // Warn about large geometries (> 1MB serialized)
-      const serializedSize = JSON.stringify(geojson).length;
-      const oneMB = 1024 * 1024;
-      if (serializedSize > oneMB) {
-        console.warn(
-          `Large geometry detected: ${Math.round(serializedSize / 1024)}KB serialized. ` +
-          `This may impact query performance. Consider using ST_Simplify or ST_SimplifyPreserveTopology.`
-        );
+      // Warn about large geometries (> 1MB serialized by default)
+      if (largeGeometryThreshold !== false) {
+        const serializedSize = JSON.stringify(geojson).length;
+        if (serializedSize > largeGeometryThreshold) {
+          console.warn(
+            `Large geometry detected: ${Math.round(serializedSize / 1024)}KB serialized. ` +
+            `This may impact query performance. Consider selecting the "simplified(tolerance: ...)" field, which uses ST_Simplify.`
+          );
+        }
       }
       
       // Return object with geojson, srid, and optionally x, y, z for GraphQL object types
@@ -134,6 +200,26 @@ export function createPostGISCodec(
       if ('z' in parsed && parsed.z !== null) {
         result.z = parsed.z;
       }
+
+      // Subtype and dimensions (for unconstrained types)
+      if ('geometryType' in parsed) {
+        result.typeDetails = getSQLGeometryTypeDetails(
+          parsed.geometryType,
+          parsed.coordDim
+        );
+      }
+
+      // Values of unconstrained columns that are points resolve to the point
+      // types too, so take their coordinates from the GeoJSON
+      if (
+        !("x" in result) &&
+        geojson.type === "Point" &&
+        Array.isArray(geojson.coordinates) &&
+        geojson.coordinates.length >= 2
+      ) {
+        const [x, y, z] = geojson.coordinates;
+        Object.assign(result, { x, y }, z !== undefined ? { z } : null);
+      }
       
       return result;
     } catch (e) {
@@ -143,17 +229,81 @@ export function createPostGISCodec(
     }
   };
 
+  const expectedTypes: Record<number, string> = {
+    1: "Point",
+    2: "LineString",
+    3: "Polygon",
+    4: "MultiPoint",
+    5: "MultiLineString",
+    6: "MultiPolygon",
+    7: "GeometryCollection",
+  };
+
+  // Convert WKT/EWKT/WKB input to text PostGIS parses; the column SRID is
+  // embedded so the value is accepted by columns that pin an SRID
+  const wellKnownToPg = (value: WellKnownGeometry): string => {
+    const validationErrors = validateWellKnownGeometry(value);
+    if (validationErrors.length > 0) {
+      const errorMessages = validationErrors
+        .map((err) => `${err.field}: ${err.message}`)
+        .join("; ");
+      throw new Error(
+        `Invalid ${value.format.toUpperCase()}: ${errorMessages}.`
+      );
+    }
+
+    const expectedType =
+      typeDetails && typeDetails.subtype !== 0
+        ? expectedTypes[typeDetails.subtype]
+        : undefined;
+    const actualType = wellKnownGeometryType(value);
+    if (expectedType && actualType !== expectedType) {
+      throw new Error(
+        `Geometry type mismatch: column expects '${expectedType}', but received '${actualType}'.`
+      );
+    }
+
+    return typeDetails?.srid
+      ? wellKnownGeometryWithSRID(value, typeDetails.srid).text
+      : value.text;
+  };
+
   // toPg: Convert GeoJSON object to PostGIS geometry/geography
   // This will be used for mutations (inserts/updates)
-  // Returns a JSON string that will be used with ST_GeomFromGeoJSON in SQL
+  // Returns a JSON string that will be used with ST_GeomFromGeoJSON in SQL,
+  // or the text of WKT/EWKT/WKB input
   const toPg = (value: any): string => {
     if (value === null || value === undefined) {
       // Null is handled separately by sqlValueWithCodec
       throw new Error("toPg should not be called with null/undefined");
     }
 
-    // Validate GeoJSON structure
-    const validationErrors = validateGeoJSON(value);
+    if (value instanceof WellKnownGeometry) {
+      return wellKnownToPg(value);
+    }
+
+    // Structured input is written as the GeoJSON it describes
+    if (structuredInput) {
+      value = geoJSONFromStructuredInput(value, typeDetails!.subtype);
+    }
+
+    // Close rings and rewind them before validating, if enabled, once the
+    // input is known to be within the size limits
+    if (
+      inputOptions.autoFix &&
+      validateGeoJSONSize(value, inputOptions).length === 0
+    ) {
+      value = autoFixGeoJSON(value);
+    }
+
+    // Validate GeoJSON structure, then positions against the column
+    let validationErrors = validateGeoJSON(value, undefined, inputOptions);
+    if (validationErrors.length === 0) {
+      validationErrors = validateGeoJSONForColumn(value, {
+        typeName,
+        typeDetails,
+      });
+    }
     if (validationErrors.length > 0) {
       const errorMessages = validationErrors
         .map((err) => `${err.field}: ${err.message}`)
@@ -164,18 +314,19 @@ export function createPostGISCodec(
       );
     }
 
+    // A Feature is stored as its geometry; a FeatureCollection holds several
+    // geometries, which are inserted as rows by the bulk mutation instead
+    if (value.type === "FeatureCollection") {
+      throw new Error(
+        "A FeatureCollection cannot be stored in a single column; " +
+          "insert its features as rows with the create-from-FeatureCollection mutation instead."
+      );
+    }
+    value = getFeatureGeometry(value);
+
     // Check if type matches column constraint (if any)
     if (typeDetails && typeDetails.subtype !== 0) {
       // Column has a specific geometry type constraint
-      const expectedTypes: Record<number, string> = {
-        1: "Point",
-        2: "LineString",
-        3: "Polygon",
-        4: "MultiPoint",
-        5: "MultiLineString",
-        6: "MultiPolygon",
-        7: "GeometryCollection",
-      };
       const expectedType = expectedTypes[typeDetails.subtype];
       if (expectedType && value.type !== expectedType) {
         throw new Error(
@@ -185,9 +336,16 @@ export function createPostGISCodec(
       }
     }
 
-    // Extract SRID from GeoJSON if present (RFC 7946 doesn't include SRID, but some implementations do)
-    // For now, we'll assume GeoJSON coordinates are in the column's SRID
-    // SRID transformation will be handled by PostGIS if needed
+    // The input SRID may be given as an `srid` member, which is not GeoJSON;
+    // declare it as a named CRS instead, which PostGIS reads when parsing.
+    // Transformation into the column SRID is added by sqlValueWithPostGISCodec
+    if (value.srid != null) {
+      const { srid, ...geojson } = value;
+      return JSON.stringify({
+        ...geojson,
+        crs: { type: "name", properties: { name: `EPSG:${srid}` } },
+      });
+    }
 
     // Return JSON string - this will be used with ST_GeomFromGeoJSON in SQL
     // The actual SQL generation will wrap this with ST_GeomFromGeoJSON
@@ -214,6 +372,7 @@ export function createPostGISCodec(
       isPostGIS: true,
       typeName,
       typeDetails,
+      column,
     },
     castFromPg,
     listCastFromPg: undefined,
@@ -236,6 +395,7 @@ export function createPostGISCodec(
       isPostGIS: true;
       typeName: typeof typeName;
       typeDetails: GISTypeDetails | null;
+      column: PostgisColumn | undefined;
     };
   };
 
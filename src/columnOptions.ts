@@ -0,0 +1,185 @@
+/**
+ * Per-column configuration of PostGIS columns, given as smart tags on the
+ * column:
+ *
+ * - `@postgisPrecision 6`: the number of decimal digits GeoJSON is output with
+ * - `@postgisOutputSrid 3857`: the SRID the geometry is output in
+ * - `@postgisInput geojson,wkt`: the input formats the column accepts
+ * - `@postgisOmit area,length`: fields left out of the column's GraphQL type
+ */
+
+import type { PgCodec } from "@dataplan/pg";
+import { SafeError } from "grafast";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import type { GeometryInputFormat, PostgisColumnOptions } from "./types";
+import { parseGeometryInput, WellKnownGeometry } from "./wellKnown";
+
+/** The input formats that can be listed in `@postgisInput` */
+export const GEOMETRY_INPUT_FORMATS: ReadonlyArray<GeometryInputFormat> = [
+  "geojson",
+  "wkt",
+  "ewkt",
+  "wkb",
+];
+
+/** Splits a list smart tag, given once or repeated, on commas and spaces */
+function tagList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((item) => (typeof item === "string" ? item.split(/[\s,]+/) : []))
+    .filter((item) => item !== "");
+}
+
+/** Parses an integer smart tag, which must be given once */
+function tagInteger(
+  tagName: string,
+  value: unknown,
+  columnName: string,
+  min: number
+): number {
+  const text = typeof value === "string" ? value.trim() : "";
+  const number = /^-?\d+$/.test(text) ? Number(text) : NaN;
+  if (!Number.isSafeInteger(number) || number < min) {
+    throw new Error(
+      `Invalid @${tagName} smart tag on ${columnName}: expected an integer of at least ${min}, but received ${JSON.stringify(
+        value
+      )}.`
+    );
+  }
+  return number;
+}
+
+/**
+ * Reads the per-column configuration from the smart tags of a PostGIS column.
+ *
+ * @param tags - The smart tags of the column
+ * @param columnName - The name of the column, used in error messages
+ * @returns The configuration, or null if the column has none
+ * @throws {Error} If a tag has an invalid value
+ *
+ * @example
+ * ```ts
+ * parseColumnOptions({ postgisPrecision: "6", postgisInput: "geojson,wkt" }, "places.geom");
+ * // Returns: { precision: 6, inputFormats: ["geojson", "wkt"] }
+ * ```
+ */
+export function parseColumnOptions(
+  tags: Record<string, unknown> | undefined,
+  columnName: string
+): PostgisColumnOptions | null {
+  if (!tags) {
+    return null;
+  }
+  const options: PostgisColumnOptions = {};
+
+  if (tags.postgisPrecision != null) {
+    options.precision = tagInteger(
+      "postgisPrecision",
+      tags.postgisPrecision,
+      columnName,
+      0
+    );
+  }
+
+  if (tags.postgisOutputSrid != null) {
+    options.outputSrid = tagInteger(
+      "postgisOutputSrid",
+      tags.postgisOutputSrid,
+      columnName,
+      1
+    );
+  }
+
+  if (tags.postgisInput != null) {
+    const formats = tagList(tags.postgisInput).map((format) =>
+      format.toLowerCase()
+    );
+    const unknown = formats.filter(
+      (format) => !GEOMETRY_INPUT_FORMATS.includes(format as any)
+    );
+    if (formats.length === 0 || unknown.length > 0) {
+      throw new Error(
+        `Invalid @postgisInput smart tag on ${columnName}: expected a list of ${GEOMETRY_INPUT_FORMATS.join(
+          ", "
+        )}, but received ${JSON.stringify(tags.postgisInput)}.`
+      );
+    }
+    options.inputFormats = [...new Set(formats)] as GeometryInputFormat[];
+  }
+
+  if (tags.postgisOmit != null) {
+    const fieldNames = tagList(tags.postgisOmit);
+    if (fieldNames.length === 0) {
+      throw new Error(
+        `Invalid @postgisOmit smart tag on ${columnName}: expected a list of field names.`
+      );
+    }
+    options.omit = [...new Set(fieldNames)];
+  }
+
+  return Object.keys(options).length > 0 ? options : null;
+}
+
+/**
+ * Gets the per-column configuration of a PostGIS codec, or null for codecs
+ * shared between columns.
+ */
+export function getColumnOptions(codec: PgCodec): PostgisColumnOptions | null {
+  return (codec.extensions as any)?.column?.options ?? null;
+}
+
+/**
+ * Checks that a value written to a column is in one of the input formats the
+ * column accepts (see `@postgisInput`). Values are GeoJSON objects or
+ * `WellKnownGeometry` instances, as parsed by the `GeometryInput` scalar, or
+ * strings, which are parsed as the scalar does.
+ *
+ * @param value - The value written to the column
+ * @param codec - The codec of the column
+ * @param fieldName - The name of the input field, used in the error message
+ * @throws {SafeError} If the column does not accept the value's format
+ */
+export function assertInputFormat(
+  value: unknown,
+  codec: PgCodec,
+  fieldName: string
+): void {
+  const inputFormats = getColumnOptions(codec)?.inputFormats;
+  if (!inputFormats || value == null) {
+    return;
+  }
+  const input = typeof value === "string" ? parseGeometryInput(value) : value;
+  const format: GeometryInputFormat =
+    input instanceof WellKnownGeometry ? input.format : "geojson";
+  if (!inputFormats.includes(format)) {
+    throw new SafeError(
+      `'${fieldName}' does not accept ${format.toUpperCase()} input; it accepts ${inputFormats
+        .map((inputFormat) => inputFormat.toUpperCase())
+        .join(", ")}.`
+    );
+  }
+}
+
+/**
+ * Creates SQL for a PostGIS value as it is output: transformed into the
+ * output SRID of its column, if the column has one. Geography is transformed
+ * as geometry.
+ *
+ * @example
+ * ```ts
+ * sqlOutputGeometry(sql`geom`, codec); // with @postgisOutputSrid 3857
+ * // Returns: sql`ST_Transform(geom, 3857)`
+ * ```
+ */
+export function sqlOutputGeometry(sqlValue: SQL, codec: PgCodec): SQL {
+  const outputSrid = getColumnOptions(codec)?.outputSrid;
+  if (outputSrid == null) {
+    return sqlValue;
+  }
+  const sqlGeometry =
+    (codec.extensions as any)?.typeName === "geography"
+      ? sql`(${sqlValue})::geometry`
+      : sqlValue;
+  return sql`ST_Transform(${sqlGeometry}, ${sql.literal(outputSrid)})`;
+}
@@ -13,6 +13,19 @@ import { PostgisMultiPointFieldsPlugin } from "./PostgisMultiPointFieldsPlugin";
 import { PostgisMultiLineStringFieldsPlugin } from "./PostgisMultiLineStringFieldsPlugin";
 import { PostgisMultiPolygonFieldsPlugin } from "./PostgisMultiPolygonFieldsPlugin";
 import { PostgisGeometryCollectionFieldsPlugin } from "./PostgisGeometryCollectionFieldsPlugin";
+import { PostgisMeasurementFieldsPlugin } from "./PostgisMeasurementFieldsPlugin";
+import { PostgisDistanceFieldsPlugin } from "./PostgisDistanceFieldsPlugin";
+import { PostgisOutputFormatFieldsPlugin } from "./PostgisOutputFormatFieldsPlugin";
+import { PostgisReprojectionPlugin } from "./PostgisReprojectionPlugin";
+import { PostgisGeoJSONFieldPlugin } from "./PostgisGeoJSONFieldPlugin";
+import { PostgisSimplifyPlugin } from "./PostgisSimplifyPlugin";
+import { PostgisOmitFieldsPlugin } from "./PostgisOmitFieldsPlugin";
+import { PostgisFeatureCollectionPlugin } from "./PostgisFeatureCollectionPlugin";
+import { PostgisFeatureMutationPlugin } from "./PostgisFeatureMutationPlugin";
+import { PostgisBoundingBoxPlugin } from "./PostgisBoundingBoxPlugin";
+import { PostgisOrderByDistancePlugin } from "./PostgisOrderByDistancePlugin";
+import { PostgisFilterOperatorsPlugin } from "./PostgisFilterOperatorsPlugin";
+import { PostgisAggregatesPlugin } from "./PostgisAggregatesPlugin";
 
 /**
  * Main PostGIS plugin preset for PostGraphile v5
@@ -22,6 +35,22 @@ import { PostgisGeometryCollectionFieldsPlugin } from "./PostgisGeometryCollecti
  * - Custom codecs for geometry/geography types
  * - GeoJSON scalar type
  * - GraphQL type mapping
+ * - Area, length and perimeter measurements computed in SQL
+ * - Distance fields next to PostGIS columns
+ * - WKT, EWKT, WKB and GeoHash output formats
+ * - Reprojection of output into another SRID
+ * - GeoJSON precision, bbox and CRS options
+ * - Geometry simplification computed in SQL
+ * - Per-column configuration with smart tags
+ * - GeoJSON FeatureCollections of connections
+ * - Feature input and bulk inserts from FeatureCollections
+ * - Bounding-box conditions against envelopes
+ * - Ordering by distance to a point (KNN)
+ * - Spatial filter operators (when postgraphile-plugin-connection-filter is used)
+ * - Spatial aggregates (when @graphile/pg-aggregates is used)
+ *
+ * The plugins are configured with the `schema.postgis` options (see
+ * `PostgisOptions`).
  *
  * @example
  * ```ts
@@ -51,6 +80,19 @@ export const postgisPlugin: GraphileConfig.Preset = {
     PostgisMultiLineStringFieldsPlugin,
     PostgisMultiPolygonFieldsPlugin,
     PostgisGeometryCollectionFieldsPlugin,
+    PostgisMeasurementFieldsPlugin,
+    PostgisDistanceFieldsPlugin,
+    PostgisOutputFormatFieldsPlugin,
+    PostgisReprojectionPlugin,
+    PostgisGeoJSONFieldPlugin,
+    PostgisSimplifyPlugin,
+    PostgisOmitFieldsPlugin,
+    PostgisFeatureCollectionPlugin,
+    PostgisFeatureMutationPlugin,
+    PostgisBoundingBoxPlugin,
+    PostgisOrderByDistancePlugin,
+    PostgisFilterOperatorsPlugin,
+    PostgisAggregatesPlugin,
   ],
 };
 
@@ -71,10 +113,33 @@ export { PostgisMultiPointFieldsPlugin } from "./PostgisMultiPointFieldsPlugin";
 export { PostgisMultiLineStringFieldsPlugin } from "./PostgisMultiLineStringFieldsPlugin";
 export { PostgisMultiPolygonFieldsPlugin } from "./PostgisMultiPolygonFieldsPlugin";
 export { PostgisGeometryCollectionFieldsPlugin } from "./PostgisGeometryCollectionFieldsPlugin";
+export { PostgisMeasurementFieldsPlugin } from "./PostgisMeasurementFieldsPlugin";
+export { PostgisDistanceFieldsPlugin } from "./PostgisDistanceFieldsPlugin";
+export { PostgisOutputFormatFieldsPlugin } from "./PostgisOutputFormatFieldsPlugin";
+export { PostgisReprojectionPlugin } from "./PostgisReprojectionPlugin";
+export { PostgisGeoJSONFieldPlugin } from "./PostgisGeoJSONFieldPlugin";
+export { PostgisSimplifyPlugin } from "./PostgisSimplifyPlugin";
+export { PostgisOmitFieldsPlugin } from "./PostgisOmitFieldsPlugin";
+export { PostgisFeatureCollectionPlugin } from "./PostgisFeatureCollectionPlugin";
+export { PostgisFeatureMutationPlugin } from "./PostgisFeatureMutationPlugin";
+// Opt-in: not included in postgisPlugin
+export { PostgisMVTPlugin } from "./PostgisMVTPlugin";
+// Opt-in: not included in postgisPlugin
+export { PostgisSpatialRelationsPlugin } from "./PostgisSpatialRelationsPlugin";
+export { PostgisBoundingBoxPlugin } from "./PostgisBoundingBoxPlugin";
+export { PostgisOrderByDistancePlugin } from "./PostgisOrderByDistancePlugin";
+export { PostgisFilterOperatorsPlugin } from "./PostgisFilterOperatorsPlugin";
+export { PostgisAggregatesPlugin } from "./PostgisAggregatesPlugin";
 
 // Export utilities
 export { getGISTypeDetails, getGISTypeModifier, getGISTypeName } from "./utils";
-export type { Subtype, GISTypeDetails } from "./types";
-export { validateGeoJSON, validateGeoJSONStructure, validateCoordinates } from "./validation";
-export type { GeoJSONValidationError } from "./validation";
+export type { Subtype, GISTypeDetails, GeometryInputFormat, PostgisColumnOptions } from "./types";
+export { parseColumnOptions } from "./columnOptions";
+export { parseSpatialRelationTags } from "./spatialRelations";
+export type { SpatialRelation, SpatialRelationTag } from "./spatialRelations";
+export type { PostgisOptions } from "./options";
+export { validateGeoJSON, validateGeoJSONStructure, validateCoordinates, validateWellKnownGeometry, validateGeoJSONForColumn, validateGeoJSONSize, autoFixGeoJSON } from "./validation";
+export type { GeoJSONValidationError, GeoJSONValidationOptions, GeoJSONInputOptions, GeoJSONColumnDetails } from "./validation";
+export { WellKnownGeometry, parseGeometryInput } from "./wellKnown";
+export type { WellKnownFormat } from "./wellKnown";
 
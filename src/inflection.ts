@@ -1,6 +1,8 @@
 import type { GraphileConfig } from "graphile-config";
-import type { PgCodec } from "@dataplan/pg";
+import "graphile-build-pg";
+import type { PgCodec, PgResource } from "@dataplan/pg";
 import { SUBTYPE_STRING_BY_SUBTYPE } from "./constants";
+import type { SpatialRelation } from "./spatialRelations";
 import type { Subtype } from "./types";
 
 declare global {
@@ -13,6 +15,18 @@ declare global {
         hasZ: boolean,
         hasM: boolean
       ): string;
+      gisColumnType(
+        this: Inflection,
+        codec: PgCodec<any, any, any, any, any, any, any>,
+        subtype: Subtype,
+        hasZ: boolean,
+        hasM: boolean
+      ): string;
+      gisStructuredInputType(this: Inflection, subtype: Subtype): string;
+      gisUnionType(
+        this: Inflection,
+        codec: PgCodec<any, any, any, any, any, any, any>
+      ): string;
       gisInterfaceName(
         this: Inflection,
         codec: PgCodec<any, any, any, any, any, any, any>
@@ -24,6 +38,68 @@ declare global {
         hasM: boolean
       ): string;
       geojsonFieldName(this: Inflection): string;
+      gisGeometryInputScalar(this: Inflection): string;
+      gisDistanceWithinInputType(this: Inflection): string;
+      gisEnvelopeInputType(this: Inflection): string;
+      gisBoundingBoxConditionType(this: Inflection): string;
+      gisBoundingBoxConditionFieldName(
+        this: Inflection,
+        fieldName: string
+      ): string;
+      gisDistanceFieldName(this: Inflection, fieldName: string): string;
+      gisDistanceUnitEnum(this: Inflection): string;
+      gisOrderByDistanceEnum(
+        this: Inflection,
+        details: {
+          codec: PgCodec<any, any, any, any, any, any, any>;
+          attributeName: string;
+          bbox: boolean;
+          variant: "asc" | "desc";
+        }
+      ): string;
+      gisOrderByDistanceFromArgName(this: Inflection): string;
+      gisFeatureCollectionFieldName(this: Inflection): string;
+      gisGeometryColumnEnum(
+        this: Inflection,
+        codec: PgCodec<any, any, any, any, any, any, any>
+      ): string;
+      gisFeaturePropertyEnum(
+        this: Inflection,
+        codec: PgCodec<any, any, any, any, any, any, any>
+      ): string;
+      gisCreateFromFeatureCollectionField(
+        this: Inflection,
+        resource: PgResource<any, any, any, any, any>
+      ): string;
+      gisCreateFromFeatureCollectionInputType(
+        this: Inflection,
+        resource: PgResource<any, any, any, any, any>
+      ): string;
+      gisCreateFromFeatureCollectionPayloadType(
+        this: Inflection,
+        resource: PgResource<any, any, any, any, any>
+      ): string;
+      gisCreateFromFeatureCollectionPayloadField(
+        this: Inflection,
+        resource: PgResource<any, any, any, any, any>
+      ): string;
+      gisTileField(
+        this: Inflection,
+        details: {
+          resource: PgResource<any, any, any, any, any>;
+          attributeName: string;
+          /** Whether this is the only PostGIS attribute of the resource */
+          isOnly: boolean;
+        }
+      ): string;
+      gisSpatialRelationConnectionField(
+        this: Inflection,
+        details: {
+          relation: SpatialRelation;
+          /** Whether the field is on the second table of the relation */
+          isBackward: boolean;
+        }
+      ): string;
       gisXFieldName(
         this: Inflection,
         codec: PgCodec<any, any, any, any, any, any, any>
@@ -40,6 +116,19 @@ declare global {
   }
 }
 
+/**
+ * Whether the coordinate fields of a codec's points are named longitude,
+ * latitude and height rather than x, y and z, per the `coordinateFieldNames`
+ * option.
+ */
+function hasGeographicFieldNames(
+  preset: GraphileConfig.ResolvedPreset,
+  codec: PgCodec<any, any, any, any, any, any, any>
+): boolean {
+  const naming = preset.schema?.postgis?.coordinateFieldNames ?? "auto";
+  return naming === "auto" ? codec.name === "geography" : naming === "lonLat";
+}
+
 export const PostgisInflectionPlugin: GraphileConfig.Plugin = {
   name: "PostgisInflectionPlugin",
   version: "0.1.0",
@@ -55,18 +144,18 @@ export const PostgisInflectionPlugin: GraphileConfig.Plugin = {
         } else if (codec.name.startsWith("geometry_")) {
           baseTypeName = "geometry";
         }
-        
+
         // Special case: subtype 0 is generic "Geometry" - return just "Geometry" or "Geography"
         if (subtype === 0) {
           return baseTypeName === "geography" ? "Geography" : "Geometry";
         }
-        
+
         // Always prefix with "Geometry" for geometry types to avoid conflicts with
         // built-in types like Point, LineString, etc. from graphile-build-pg
         // For geography, prefix with "Geography" to distinguish from geometry
         const subtypeString = SUBTYPE_STRING_BY_SUBTYPE[subtype];
         const parts = [];
-        
+
         // Use "Geometry" prefix for geometry types, "Geography" for geography types
         // This generates "GeometryPoint", "GeometryLineString", etc.
         // and "GeographyPoint", "GeographyLineString", etc.
@@ -78,13 +167,43 @@ export const PostgisInflectionPlugin: GraphileConfig.Plugin = {
           // For geometry, use "geometry" prefix only if subtype doesn't already include it
           parts.push("geometry");
         }
-        
+
         parts.push(subtypeString);
         if (hasZ) parts.push("z");
         if (hasM) parts.push("m");
-        
+
         return this.upperCamelCase(parts.join("-"));
       },
+      gisColumnType(_preset, codec, subtype, hasZ, hasM) {
+        // The type of a column with per-column options is prefixed with the
+        // table and column names, e.g. "PlacesBoundaryGeometryPolygon"
+        const { className, attributeName } = (codec.extensions as any).column;
+        return this.upperCamelCase(
+          `${className}-${attributeName}-${this.gisType(
+            codec,
+            subtype,
+            hasZ,
+            hasM
+          )}`
+        );
+      },
+      gisStructuredInputType(_preset, subtype) {
+        // The structured input of a subtype, e.g. "GeometryPointInput"
+        const typeName = this.gisType(
+          { name: "geometry" } as any,
+          subtype,
+          false,
+          false
+        );
+        return this.upperCamelCase(`${typeName}-input`);
+      },
+      gisUnionType(_preset, codec) {
+        // The union of the concrete types of unconstrained columns, e.g.
+        // "GeometryUnion"
+        return this.upperCamelCase(
+          `${this.gisType(codec, 0, false, false)}-union`
+        );
+      },
       gisInterfaceName(_preset, codec) {
         return this.upperCamelCase(`${codec.name}-interface`);
       },
@@ -103,16 +222,101 @@ export const PostgisInflectionPlugin: GraphileConfig.Plugin = {
       geojsonFieldName() {
         return `geojson`;
       },
-      gisXFieldName(_preset, codec) {
-        return codec.name === "geography" ? "longitude" : "x";
+      gisGeometryInputScalar() {
+        return this.upperCamelCase("geometry-input");
+      },
+      gisDistanceWithinInputType() {
+        return this.upperCamelCase("geometry-distance-within-input");
+      },
+      gisEnvelopeInputType() {
+        return this.upperCamelCase("geometry-envelope-input");
+      },
+      gisBoundingBoxConditionType() {
+        return this.upperCamelCase("geometry-bounding-box-condition");
+      },
+      gisBoundingBoxConditionFieldName(_preset, fieldName) {
+        return this.camelCase(`${fieldName}-bbox`);
+      },
+      gisDistanceFieldName(_preset, fieldName) {
+        return this.camelCase(`${fieldName}-distance`);
+      },
+      gisDistanceUnitEnum() {
+        return this.upperCamelCase("distance-unit");
+      },
+      gisOrderByDistanceEnum(_preset, { codec, attributeName, bbox, variant }) {
+        const fieldName = this._attributeName({ attributeName, codec });
+        return this.constantCase(
+          `${fieldName}-${bbox ? "bbox-distance" : "distance"}-${variant}`
+        );
+      },
+      gisOrderByDistanceFromArgName() {
+        return "orderByDistanceFrom";
+      },
+      gisFeatureCollectionFieldName() {
+        return "geojsonFeatureCollection";
       },
-      gisYFieldName(_preset, codec) {
-        return codec.name === "geography" ? "latitude" : "y";
+      gisGeometryColumnEnum(_preset, codec) {
+        return this.upperCamelCase(`${this.tableType(codec)}-geometry-column`);
       },
-      gisZFieldName(_preset, codec) {
-        return codec.name === "geography" ? "height" : "z";
+      gisFeaturePropertyEnum(_preset, codec) {
+        return this.upperCamelCase(`${this.tableType(codec)}-feature-property`);
+      },
+      gisCreateFromFeatureCollectionField(_preset, resource) {
+        return this.camelCase(
+          `create-${this.gisCreateFromFeatureCollectionPayloadField(
+            resource
+          )}-from-feature-collection`
+        );
+      },
+      gisCreateFromFeatureCollectionInputType(_preset, resource) {
+        return this.upperCamelCase(
+          `${this.gisCreateFromFeatureCollectionField(resource)}-input`
+        );
+      },
+      gisCreateFromFeatureCollectionPayloadType(_preset, resource) {
+        return this.upperCamelCase(
+          `${this.gisCreateFromFeatureCollectionField(resource)}-payload`
+        );
+      },
+      gisCreateFromFeatureCollectionPayloadField(_preset, resource) {
+        return this.camelCase(
+          this.pluralize(this._singularizedResourceName(resource))
+        );
+      },
+      gisTileField(_preset, { resource, attributeName, isOnly }) {
+        const resourceName = this.pluralize(
+          this._singularizedResourceName(resource)
+        );
+        if (isOnly) {
+          return this.camelCase(`${resourceName}-tile`);
+        }
+        const fieldName = this._attributeName({
+          attributeName,
+          codec: resource.codec,
+        });
+        return this.camelCase(`${resourceName}-${fieldName}-tile`);
+      },
+      gisSpatialRelationConnectionField(_preset, { relation, isBackward }) {
+        const { left, right, name } = relation;
+        const remote = isBackward ? left : right;
+        const isSelfRelation = left.resource === right.resource;
+        return this.connectionField(
+          this.camelCase(
+            `${this.pluralize(
+              this.tableType(remote.resource.codec)
+            )}-by-${name}${isSelfRelation && isBackward ? "-inverse" : ""}`
+          )
+        );
+      },
+      gisXFieldName(preset, codec) {
+        return hasGeographicFieldNames(preset, codec) ? "longitude" : "x";
+      },
+      gisYFieldName(preset, codec) {
+        return hasGeographicFieldNames(preset, codec) ? "latitude" : "y";
+      },
+      gisZFieldName(preset, codec) {
+        return hasGeographicFieldNames(preset, codec) ? "height" : "z";
       },
     },
   },
 };
-
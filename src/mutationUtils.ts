@@ -1,15 +1,27 @@
 import type { SQL } from "pg-sql2";
 import { sql } from "pg-sql2";
 import type { PgCodec } from "@dataplan/pg";
+import { SafeError } from "grafast";
+import {
+  parseGeometryInput,
+  WellKnownGeometry,
+  wellKnownGeometrySRID,
+} from "./wellKnown";
+import { getFeatureGeometry, getGeoJSONSRID } from "./utils";
+import { validateGeoJSON } from "./validation";
+import { GIS_SUBTYPE } from "./constants";
+import type { GISTypeDetails, PostgisColumnOptions } from "./types";
 
 /**
  * Creates SQL for PostGIS mutations by wrapping GeoJSON with ST_GeomFromGeoJSON/ST_GeogFromGeoJSON.
  *
  * This function should be used instead of sqlValueWithCodec for PostGIS codecs in mutations.
- * It handles SRID transformation if needed.
+ * It handles SRID transformation if needed: input that declares its SRID (a GeoJSON `crs` or
+ * `srid` member, or EWKT/EWKB) is transformed into the column's SRID with `ST_Transform`.
  * 
  * @param value - The GeoJSON value to convert (already validated and stringified)
  * @param codec - The PostGIS codec (geometry or geography)
+ * @param makeValid - Whether to repair the geometry with `ST_MakeValid`
  * @returns SQL fragment that converts the GeoJSON string to PostGIS geometry/geography
  * 
  * @example
@@ -20,11 +32,15 @@ import type { PgCodec } from "@dataplan/pg";
  */
 export function sqlValueWithPostGISCodec(
   value: unknown,
-  codec: PgCodec & { extensions?: { isPostGIS?: boolean; typeName?: string; typeDetails?: any } }
+  codec: PgCodec & { extensions?: { isPostGIS?: boolean; typeName?: string; typeDetails?: any } },
+  makeValid = false
 ): SQL {
   if (value == null) {
     return sql`NULL::${codec.sqlType}`;
   }
+  if (makeValid) {
+    return sqlMadeValid(sqlValueWithPostGISCodec(value, codec), codec);
+  }
 
   // Check if this is a PostGIS codec
   const extensions = codec.extensions as any;
@@ -34,16 +50,72 @@ export function sqlValueWithPostGISCodec(
     return sql`${sql.value(encodedValue)}::${codec.sqlType}`;
   }
 
+  if (value instanceof WellKnownGeometry) {
+    // toPg validates the input and embeds the column SRID
+    const text = codec.toPg(value) as string;
+    return sqlWellKnownWithPostGISCodec(parseGeometryInput(text), codec);
+  }
+
   // For PostGIS, toPg returns a JSON string
   const jsonString = codec.toPg(value);
 
+  return sqlGeoJSONWithPostGISCodec(
+    sql.value(jsonString),
+    codec,
+    getGeoJSONSRID(getFeatureGeometry(value))
+  );
+}
+
+/**
+ * Wraps SQL evaluating to a value of a PostGIS codec with `ST_MakeValid`,
+ * which repairs invalid geometries and returns valid ones unchanged. Geography
+ * is repaired as geometry.
+ */
+export function sqlMadeValid(sqlValue: SQL, codec: PgCodec): SQL {
+  return sql`ST_MakeValid((${sqlValue})::geometry)::${codec.sqlType}`;
+}
+
+/**
+ * Creates SQL converting a GeoJSON text expression into a value of a PostGIS
+ * codec, as `sqlValueWithPostGISCodec` does for GeoJSON known in advance.
+ *
+ * @param sqlGeoJSON - SQL evaluating to GeoJSON text (or json)
+ * @param codec - The PostGIS codec (geometry or geography)
+ * @param inputSRID - The SRID the GeoJSON declares, if known, or SQL
+ *   evaluating to it (or to null) for each value; an SRID of 0 is unknown,
+ *   as if none was declared
+ * @returns SQL fragment that converts the GeoJSON to PostGIS geometry/geography
+ */
+export function sqlGeoJSONWithPostGISCodec(
+  sqlGeoJSON: SQL,
+  codec: PgCodec,
+  inputSRID?: number | SQL | null
+): SQL {
+  if (sql.isSQL(inputSRID)) {
+    return sql`(case when coalesce(${inputSRID}, 0) = 0 then ${sqlGeoJSONWithPostGISCodec(
+      sqlGeoJSON,
+      codec
+    )} else ${sqlWithInputSRID(
+      sql`ST_GeomFromGeoJSON(${sqlGeoJSON}::text)`,
+      inputSRID,
+      codec
+    )} end)`;
+  }
+
+  const extensions = codec.extensions as any;
+
   // Get column SRID from type details if available
   const typeDetails = extensions.typeDetails;
   const columnSRID = typeDetails?.srid;
 
-  // Extract SRID from GeoJSON if present (some implementations include it)
-  // For now, we'll assume GeoJSON coordinates match the column's expected SRID
-  // SRID transformation will be handled by PostGIS if coordinates don't match
+  if (inputSRID != null) {
+    // The input declares its SRID; transform into the column's
+    return sqlWithInputSRID(
+      sql`ST_GeomFromGeoJSON(${sqlGeoJSON}::text)`,
+      inputSRID,
+      codec
+    );
+  }
 
   const typeName = extensions.typeName || codec.name;
 
@@ -51,19 +123,278 @@ export function sqlValueWithPostGISCodec(
     // For geography, use ST_GeomFromGeoJSON and cast to geography
     // Geography doesn't use SRID the same way - it's always WGS84 (SRID 4326)
     // So we just cast the geometry to geography
-    return sql`ST_GeomFromGeoJSON(${sql.value(jsonString)}::text)::geography`;
+    return sql`ST_GeomFromGeoJSON(${sqlGeoJSON}::text)::geography`;
   } else {
     // For geometry, use ST_GeomFromGeoJSON
     // ST_GeomFromGeoJSON doesn't take SRID directly, we use ST_SetSRID to set it
     if (columnSRID != null && columnSRID !== 0) {
       // If column has SRID constraint, set it using ST_SetSRID
-      // This assumes coordinates are already in the correct SRID
-      // If they're not, we'd need ST_Transform, but that requires knowing the source SRID
-      return sql`ST_SetSRID(ST_GeomFromGeoJSON(${sql.value(jsonString)}::text), ${sql.value(columnSRID)})::geometry`;
+      // Without a declared SRID, coordinates are assumed to be in the column's SRID
+      return sql`ST_SetSRID(ST_GeomFromGeoJSON(${sqlGeoJSON}::text), ${sql.value(columnSRID)})::geometry`;
     } else {
       // No SRID constraint - use ST_GeomFromGeoJSON as-is
-      return sql`ST_GeomFromGeoJSON(${sql.value(jsonString)}::text)::geometry`;
+      return sql`ST_GeomFromGeoJSON(${sqlGeoJSON}::text)::geometry`;
     }
   }
 }
 
+/**
+ * Validates a GeoJSON value compared with a PostGIS column, such as the
+ * operand of a filter or the reference of a distance.
+ *
+ * Unlike the input of a column, the value is not checked against the
+ * column's geometry type or dimensions, as a polygon may contain a point
+ * column's values: it only needs to be valid GeoJSON. A Feature stands for
+ * its geometry.
+ *
+ * @param value - The GeoJSON value
+ * @returns The geometry, with the CRS or SRID it declares
+ * @throws {Error} If the value is not a valid GeoJSON geometry or Feature
+ *
+ * @example
+ * ```ts
+ * parseGeoJSONOperand({ type: "Feature", geometry: { type: "Point", coordinates: [0, 0] }, properties: null });
+ * // Returns { type: "Point", coordinates: [0, 0] }
+ * ```
+ */
+export function parseGeoJSONOperand(value: unknown): any {
+  const validationErrors = validateGeoJSON(value);
+  if (validationErrors.length > 0) {
+    const errorMessages = validationErrors
+      .map((err) => `${err.field}: ${err.message}`)
+      .join("; ");
+    throw new Error(`Invalid GeoJSON: ${errorMessages}.`);
+  }
+  const geometry = getFeatureGeometry(value);
+  if (!geometry || geometry.type === "FeatureCollection") {
+    throw new Error(
+      "Invalid GeoJSON: expected a geometry or a Feature with a geometry."
+    );
+  }
+  return geometry;
+}
+
+/**
+ * Encodes a GeoJSON value compared with a PostGIS column (see
+ * `parseGeoJSONOperand`) for use in query placeholders, as the geometry's
+ * GeoJSON text and the SRID it declares. Null is encoded as nulls.
+ *
+ * @param value - The GeoJSON value, or null
+ * @returns The GeoJSON text and declared SRID
+ * @throws {SafeError} If the value is not a valid GeoJSON geometry or Feature
+ */
+export function encodeGeoJSONOperand(value: unknown): {
+  geojson: string | null;
+  srid: number | null;
+} {
+  if (value == null) {
+    return { geojson: null, srid: null };
+  }
+  let geometry: any;
+  try {
+    geometry = parseGeoJSONOperand(value);
+  } catch (e) {
+    throw new SafeError(e instanceof Error ? e.message : String(e));
+  }
+  return { geojson: JSON.stringify(geometry), srid: getGeoJSONSRID(geometry) };
+}
+
+/**
+ * Creates SQL for a GeoJSON value compared with a PostGIS column (see
+ * `parseGeoJSONOperand`). The value is given the column's SRID, or
+ * transformed into it if it declares its own.
+ *
+ * @param value - The GeoJSON value
+ * @param codec - The PostGIS codec of the column
+ * @returns SQL fragment that converts the GeoJSON to PostGIS geometry/geography
+ * @throws {Error} If the value is not a valid GeoJSON geometry or Feature
+ *
+ * @example
+ * ```ts
+ * sqlGeoJSONOperandWithPostGISCodec({ type: "Polygon", coordinates: [...] }, pointCodec4326);
+ * // Returns: sql`ST_SetSRID(ST_GeomFromGeoJSON('{"type":"Polygon",...}'::text), 4326)::geometry`
+ * ```
+ */
+export function sqlGeoJSONOperandWithPostGISCodec(
+  value: unknown,
+  codec: PgCodec
+): SQL {
+  const geometry = parseGeoJSONOperand(value);
+  return sqlGeoJSONWithPostGISCodec(
+    sql.value(JSON.stringify(geometry)),
+    codec,
+    getGeoJSONSRID(geometry)
+  );
+}
+
+/**
+ * Creates SQL assigning the input SRID to a geometry and transforming it into
+ * the SRID of the codec: the column SRID for geometry, or 4326 for
+ * geography. Geometry columns that do not pin an SRID keep the input SRID.
+ * An input SRID of 0 (unknown), which `ST_Transform` rejects, is taken to be
+ * the codec's, as for input that declares no SRID.
+ *
+ * @example
+ * ```ts
+ * sqlWithInputSRID(sql`ST_GeomFromGeoJSON(...)`, 3857, pointCodec4326);
+ * // Returns: sql`ST_Transform(ST_SetSRID(ST_GeomFromGeoJSON(...), 3857), 4326)::geometry`
+ * ```
+ */
+function sqlWithInputSRID(
+  sqlGeometry: SQL,
+  inputSRID: number | SQL,
+  codec: PgCodec
+): SQL {
+  const extensions = codec.extensions as any;
+  const isGeography = (extensions?.typeName || codec.name) === "geography";
+  const targetSRID: number | null = isGeography
+    ? 4326
+    : extensions?.typeDetails?.srid || null;
+
+  const srid = inputSRID === 0 ? targetSRID ?? 0 : inputSRID;
+
+  let sqlValue = sql`ST_SetSRID(${sqlGeometry}, ${
+    sql.isSQL(srid) ? srid : sql.value(srid)
+  })`;
+  // An SRID given as SQL is only known at runtime; transforming into the
+  // same SRID leaves the geometry unchanged
+  if (targetSRID != null && targetSRID !== srid) {
+    sqlValue = sql`ST_Transform(${sqlValue}, ${sql.value(targetSRID)})`;
+  }
+  return isGeography ? sql`${sqlValue}::geography` : sql`${sqlValue}::geometry`;
+}
+
+/**
+ * Creates SQL for a geometry given as WKT, EWKT or hex-encoded (E)WKB,
+ * using `ST_GeomFromText`, `ST_GeomFromEWKT`, `ST_GeomFromWKB` or
+ * `ST_GeomFromEWKB` respectively. An SRID embedded in EWKT or EWKB is
+ * transformed into the codec's SRID.
+ *
+ * @param geometry - The validated well-known geometry
+ * @param codec - The PostGIS codec (geometry or geography)
+ * @returns SQL fragment that converts the input to PostGIS geometry/geography
+ *
+ * @example
+ * ```ts
+ * sqlWellKnownWithPostGISCodec(new WellKnownGeometry("wkt", "POINT(30 10)"), geometryCodec);
+ * // Returns: sql`ST_GeomFromText('POINT(30 10)')::geometry`
+ * ```
+ */
+function sqlWellKnownWithPostGISCodec(
+  geometry: WellKnownGeometry,
+  codec: PgCodec
+): SQL {
+  const sqlText = sql.value(geometry.text);
+  const inputSRID = wellKnownGeometrySRID(geometry);
+  let sqlGeometry: SQL;
+  switch (geometry.format) {
+    case "wkt":
+      sqlGeometry = sql`ST_GeomFromText(${sqlText})`;
+      break;
+    case "ewkt":
+      sqlGeometry = sql`ST_GeomFromEWKT(${sqlText})`;
+      break;
+    case "wkb":
+      sqlGeometry =
+        inputSRID != null
+          ? sql`ST_GeomFromEWKB(decode(${sqlText}, 'hex'))`
+          : sql`ST_GeomFromWKB(decode(${sqlText}, 'hex'))`;
+      break;
+  }
+  if (inputSRID != null) {
+    return sqlWithInputSRID(sqlGeometry, inputSRID, codec);
+  }
+  const typeName = (codec.extensions as any)?.typeName || codec.name;
+  return typeName === "geography"
+    ? sql`${sqlGeometry}::geography`
+    : sql`${sqlGeometry}::geometry`;
+}
+
+/**
+ * Whether a column takes structured input (see the `structuredInput`
+ * option): columns constrained to a point, line string, polygon or one of
+ * their multi variants do, unless they have M coordinates, which GeoJSON
+ * cannot carry, or restrict their input formats with `@postgisInput`.
+ */
+export function acceptsStructuredInput(
+  typeDetails: GISTypeDetails | null | undefined,
+  columnOptions: PostgisColumnOptions | null | undefined
+): boolean {
+  return (
+    typeDetails != null &&
+    typeDetails.subtype >= GIS_SUBTYPE.Point &&
+    typeDetails.subtype <= GIS_SUBTYPE.MultiPolygon &&
+    !typeDetails.hasM &&
+    !columnOptions?.inputFormats
+  );
+}
+
+/** Gets the GeoJSON position of a structured point: `{ x, y, z }` */
+function structuredPosition(point: any): number[] {
+  return point.z != null ? [point.x, point.y, point.z] : [point.x, point.y];
+}
+
+/** Gets the GeoJSON positions of a structured line string: `{ points }` */
+function structuredPositions(lineString: any): number[][] {
+  return lineString.points.map(structuredPosition);
+}
+
+/** Gets the GeoJSON rings of a structured polygon: `{ exterior, interiors }` */
+function structuredRings(polygon: any): number[][][] {
+  return [
+    structuredPositions(polygon.exterior),
+    ...(polygon.interiors ?? []).map(structuredPositions),
+  ];
+}
+
+/**
+ * Converts structured geometry input, such as that of `GeometryPointInput`
+ * or `GeometryPolygonInput`, into GeoJSON of the given subtype, which is
+ * then written as GeoJSON input is. GeoJSON, which has a `type`, and WKT,
+ * EWKT and WKB input are returned as given.
+ *
+ * @param value - The structured input
+ * @param subtype - The subtype of the column the value is written to
+ * @returns The GeoJSON geometry
+ *
+ * @example
+ * ```ts
+ * geoJSONFromStructuredInput({ x: 30, y: 10 }, GIS_SUBTYPE.Point);
+ * // Returns: { type: "Point", coordinates: [30, 10] }
+ * ```
+ */
+export function geoJSONFromStructuredInput(value: any, subtype: number): any {
+  if (
+    value == null ||
+    typeof value !== "object" ||
+    typeof value.type === "string" ||
+    value instanceof WellKnownGeometry
+  ) {
+    return value;
+  }
+  switch (subtype) {
+    case GIS_SUBTYPE.Point:
+      return { type: "Point", coordinates: structuredPosition(value) };
+    case GIS_SUBTYPE.LineString:
+      return { type: "LineString", coordinates: structuredPositions(value) };
+    case GIS_SUBTYPE.Polygon:
+      return { type: "Polygon", coordinates: structuredRings(value) };
+    case GIS_SUBTYPE.MultiPoint:
+      return {
+        type: "MultiPoint",
+        coordinates: value.points.map(structuredPosition),
+      };
+    case GIS_SUBTYPE.MultiLineString:
+      return {
+        type: "MultiLineString",
+        coordinates: value.lineStrings.map(structuredPositions),
+      };
+    case GIS_SUBTYPE.MultiPolygon:
+      return {
+        type: "MultiPolygon",
+        coordinates: value.polygons.map(structuredRings),
+      };
+    default:
+      return value;
+  }
+}
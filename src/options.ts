@@ -0,0 +1,131 @@
+/**
+ * Options of the PostGIS plugins, given in the `schema.postgis` namespace of
+ * a preset:
+ *
+ * ```ts
+ * const preset: GraphileConfig.Preset = {
+ *   extends: [postgisPlugin],
+ *   schema: {
+ *     postgis: { geojsonPrecision: 6, outputFormats: false },
+ *   },
+ * };
+ * ```
+ */
+
+import type { GeoJSONInputOptions } from "./validation";
+
+declare global {
+  namespace GraphileBuild {
+    interface SchemaOptions {
+      /** Options of the PostGIS plugins */
+      postgis?: PostgisOptions;
+    }
+  }
+}
+
+/** The default of `largeGeometryThreshold`: 1MB */
+export const DEFAULT_LARGE_GEOMETRY_THRESHOLD = 1024 * 1024;
+
+/** Options of the PostGIS plugins */
+export interface PostgisOptions {
+  /**
+   * The number of decimal digits GeoJSON is output with, unless the `geojson`
+   * field's `precision` argument or the column's `@postgisPrecision` smart
+   * tag gives another. By default, GeoJSON is output as PostGIS outputs it.
+   */
+  geojsonPrecision?: number;
+
+  /**
+   * The names of the coordinate fields of points: `"xyz"` for `x`, `y` and
+   * `z`, `"lonLat"` for `longitude`, `latitude` and `height`, or `"auto"`
+   * (the default) for the former on geometry and the latter on geography.
+   * Override the `gisXFieldName`, `gisYFieldName` and `gisZFieldName`
+   * inflectors for other names.
+   */
+  coordinateFieldNames?: "auto" | "xyz" | "lonLat";
+
+  /**
+   * Whether to register the types of every geometry subtype and dimension
+   * for both geometry and geography (56 types), whether or not a column uses
+   * them. Defaults to true; when false, only the types of the database's
+   * columns (and the types nested within them) are registered.
+   */
+  registerAllTypes?: boolean;
+
+  /**
+   * The GraphQL type of unconstrained `geometry` and `geography` columns:
+   * `"interface"` (the default) for `GeometryInterface`, or `"union"` for a
+   * union of the concrete types of the codec, such as `GeometryUnion`; both
+   * resolve each value to its concrete type, such as `GeometryPointZ`.
+   * `"object"` types them as the generic `Geometry` or `Geography` type,
+   * which has only the fields common to all geometries.
+   */
+  unconstrainedColumns?: "interface" | "union" | "object";
+
+  /**
+   * Whether the input of columns constrained to a point, line string,
+   * polygon or one of their multi variants is typed as an input object of
+   * its coordinates, such as `GeometryPointInput { x, y, z }`, instead of the
+   * `GeometryInput` scalar, which takes GeoJSON, WKT, EWKT or WKB. Columns
+   * with M coordinates, and columns tagged with `@postgisInput`, keep the
+   * scalar. Defaults to false.
+   */
+  structuredInput?: boolean;
+
+  /**
+   * Whether to add the spatial filter operators to
+   * postgraphile-plugin-connection-filter. Defaults to true.
+   */
+  filters?: boolean;
+
+  /**
+   * Whether to add the spatial aggregates (`extent`, `union`, `collect`,
+   * `centroid` and `convexHull`) to @graphile/pg-aggregates. Defaults to
+   * true.
+   */
+  aggregates?: boolean;
+
+  /**
+   * Whether to add the `area`, `length` and `perimeter` fields. Defaults to
+   * true.
+   */
+  measurements?: boolean;
+
+  /**
+   * Whether to add the `wkt`, `ewkt`, `wkbHex` and `geohash` fields. Defaults
+   * to true.
+   */
+  outputFormats?: boolean;
+
+  /**
+   * Topology checks applied to GeoJSON input (winding order, duplicate
+   * vertices, self-intersection), its size limits (nesting depth and vertex
+   * count), and whether to close rings and rewind them automatically first.
+   * Unclosed rings and holes outside their exterior ring are always
+   * rejected, unless auto-fixed.
+   */
+  geojsonValidation?: GeoJSONInputOptions;
+
+  /**
+   * Checks the geometries of create and update mutations, including each
+   * feature of the create-from-FeatureCollection mutations, with
+   * `ST_IsValidDetail` before writing them: `"reject"` rejects invalid
+   * geometries, and `"makeValid"` repairs them with `ST_MakeValid`. By
+   * default, geometries are written as given.
+   */
+  geometryValidity?: "reject" | "makeValid";
+
+  /**
+   * The size, in characters of serialized GeoJSON, above which a warning is
+   * logged for a geometry read from the database, or false to never warn.
+   * Defaults to 1MB.
+   */
+  largeGeometryThreshold?: number | false;
+
+  /**
+   * Whether the `properties` of a GeoJSON Feature written to a PostGIS
+   * column also set the row's other columns whose GraphQL field names match.
+   * Defaults to false.
+   */
+  mapFeatureProperties?: boolean;
+}
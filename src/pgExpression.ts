@@ -0,0 +1,105 @@
+import type { PgCodec } from "@dataplan/pg";
+import {
+  pgClassExpression,
+  PgClassExpressionStep,
+  PgSelectSingleStep,
+} from "@dataplan/pg";
+import { constant, ConstantStep, SafeError, type Step } from "grafast";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+
+/**
+ * Converts a field argument step into SQL for use within an expression
+ * planned by `pgPostGISExpression`.
+ */
+export type SqlArgument = ($step: Step, codec: PgCodec) => SQL;
+
+/**
+ * Plans a SQL expression computed from a PostGIS value, so that it is
+ * evaluated in the same query that selects the value.
+ *
+ * `$source` must be the step for a PostGIS column (a `PgClassExpressionStep`,
+ * as passed to fields of the geometry types). Geometries that are built from
+ * GeoJSON in JavaScript, such as the members of a `MultiPolygon`, are not
+ * backed by SQL; for those the planned value is `null`.
+ *
+ * @param $source - The step representing the PostGIS value
+ * @param codec - The codec of the resulting expression
+ * @param callback - Builds the expression from the SQL for the PostGIS value
+ * @returns A step for the expression, or a `null` constant
+ *
+ * @example
+ * ```ts
+ * pgPostGISExpression($source, TYPES.float, (sqlValue) => sql`ST_Area(${sqlValue})`);
+ * ```
+ */
+export function pgPostGISExpression(
+  $source: Step,
+  codec: PgCodec,
+  callback: (
+    sqlValue: SQL,
+    sourceCodec: PgCodec,
+    sqlArgument: SqlArgument
+  ) => SQL
+): Step {
+  if (
+    !($source instanceof PgClassExpressionStep) ||
+    !($source.pgCodec.extensions as any)?.isPostGIS
+  ) {
+    return constant(null);
+  }
+  const $parent = $source.getParentStep();
+  const sqlArgument: SqlArgument = ($step, argCodec) => {
+    if ($step instanceof ConstantStep) {
+      const value = $step.data;
+      return value == null
+        ? sql`null::${argCodec.sqlType}`
+        : sql`${sql.value(argCodec.toPg(value))}::${argCodec.sqlType}`;
+    }
+    if ($parent instanceof PgSelectSingleStep) {
+      return $parent.getPgRoot().placeholder($step, argCodec);
+    }
+    // Placeholders are only available when selecting; mutation payloads
+    // can only embed values known at planning time
+    throw new SafeError(
+      "Arguments of PostGIS fields are not supported on values returned from mutations; query the record instead."
+    );
+  };
+  const expression = callback(
+    sql.parens($source.toSQL()),
+    $source.pgCodec,
+    sqlArgument
+  );
+  return pgClassExpression($parent as any, codec)`${expression}`;
+}
+
+/**
+ * Whether a field argument was given (as a literal or a variable); omitted
+ * and null arguments are planned as null constants.
+ */
+export function hasArgument($step: Step): boolean {
+  return !($step instanceof ConstantStep && $step.data == null);
+}
+
+/**
+ * Creates SQL transforming a PostGIS value into the given SRID. Geography is
+ * cast to geometry first; a null SRID leaves the value untransformed, as do
+ * values with an unknown SRID (0), which `ST_Transform` rejects.
+ *
+ * @example
+ * ```ts
+ * sqlTransformed(sql`geom`, geometryCodec, sql`3857`);
+ * // Returns: sql`case when 3857 is null or ST_SRID(geom) = 0 then geom else ST_Transform(geom, 3857) end`
+ * ```
+ */
+export function sqlTransformed(
+  sqlValue: SQL,
+  codec: PgCodec,
+  sqlSrid: SQL
+): SQL {
+  const sqlGeometry =
+    (codec.extensions as any)?.typeName === "geography"
+      ? sql`(${sqlValue})::geometry`
+      : sqlValue;
+  return sql`case when ${sqlSrid} is null or ST_SRID(${sqlGeometry}) = 0 then ${sqlGeometry} else ST_Transform(${sqlGeometry}, ${sqlSrid}) end`;
+}
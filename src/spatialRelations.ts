@@ -0,0 +1,213 @@
+/**
+ * Spatial relationships between tables, given as `@spatialRelation` smart
+ * tags on a table:
+ *
+ * ```
+ * @spatialRelation district parcels.geom ST_Within districts.geom
+ * ```
+ *
+ * The tag names the relation, and gives the predicate that relates a row of
+ * the first table to the rows of the second: here, the parcels within each
+ * district. Tables are given as `table` or `schema.table`, and the tag may be
+ * repeated.
+ */
+
+import "graphile-build-pg";
+import type { PgCodec, PgResource } from "@dataplan/pg";
+import type { SQL } from "pg-sql2";
+import { sql } from "pg-sql2";
+import { SPATIAL_OPERATORS } from "./PostgisFilterOperatorsPlugin";
+
+/** A column given in a `@spatialRelation` smart tag */
+export interface SpatialRelationColumnRef {
+  schemaName: string | null;
+  tableName: string;
+  attributeName: string;
+}
+
+/** A parsed `@spatialRelation` smart tag */
+export interface SpatialRelationTag {
+  name: string;
+  left: SpatialRelationColumnRef;
+  /** The predicate function, as named in `SPATIAL_OPERATORS` */
+  fn: string;
+  right: SpatialRelationColumnRef;
+}
+
+/** A side of a spatial relation: a table resource and its PostGIS column */
+export interface SpatialRelationSide {
+  resource: PgResource<any, any, any, any, any>;
+  attributeName: string;
+}
+
+/** A spatial relation with its tables resolved */
+export interface SpatialRelation {
+  name: string;
+  fn: string;
+  left: SpatialRelationSide;
+  right: SpatialRelationSide;
+}
+
+/** Parses `table.column` or `schema.table.column` */
+function parseColumnRef(text: string): SpatialRelationColumnRef | null {
+  const parts = text.split(".");
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => !part)) {
+    return null;
+  }
+  const [attributeName, tableName, schemaName = null] = parts.reverse();
+  return { schemaName, tableName, attributeName };
+}
+
+/**
+ * Parses the `@spatialRelation` smart tags of a table.
+ *
+ * @param value - The value of the tag, given once or repeated
+ * @param tableName - The name of the table, used in error messages
+ * @returns The relations, in the order given
+ * @throws {Error} If a tag is not of the form
+ *   `<name> <table>.<column> <predicate> <table>.<column>`, or names an
+ *   unknown predicate
+ *
+ * @example
+ * ```ts
+ * parseSpatialRelationTags("district parcels.geom ST_Within districts.geom", "parcels");
+ * // Returns: [{ name: "district", left: { schemaName: null, tableName: "parcels", attributeName: "geom" }, fn: "ST_Within", right: { ... } }]
+ * ```
+ */
+export function parseSpatialRelationTags(
+  value: unknown,
+  tableName: string
+): SpatialRelationTag[] {
+  if (value == null) {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values.map((item) => {
+    const words = typeof item === "string" ? item.trim().split(/\s+/) : [];
+    const left = words.length === 4 ? parseColumnRef(words[1]) : null;
+    const right = words.length === 4 ? parseColumnRef(words[3]) : null;
+    if (!left || !right || !/^\w+$/.test(words[0])) {
+      throw new Error(
+        `Invalid @spatialRelation smart tag on ${tableName}: expected '<name> <table>.<column> <predicate> <table>.<column>', but received ${JSON.stringify(
+          item
+        )}.`
+      );
+    }
+    const operator = SPATIAL_OPERATORS.find(
+      ({ fn }) => fn.toLowerCase() === words[2].toLowerCase()
+    );
+    if (!operator) {
+      throw new Error(
+        `Invalid @spatialRelation smart tag on ${tableName}: expected a predicate of ${[
+          ...new Set(SPATIAL_OPERATORS.map(({ fn }) => fn)),
+        ].join(", ")}, but received ${JSON.stringify(words[2])}.`
+      );
+    }
+    return { name: words[0], left, fn: operator.fn, right };
+  });
+}
+
+/**
+ * Finds the table resource and PostGIS column of a column given in a
+ * `@spatialRelation` smart tag.
+ *
+ * @throws {Error} If the table is unknown or ambiguous, or the column is not
+ *   a PostGIS column of a table with a primary key
+ */
+function resolveSide(
+  ref: SpatialRelationColumnRef,
+  resources: ReadonlyArray<PgResource<any, any, any, any, any>>,
+  tableName: string
+): SpatialRelationSide {
+  const name = [ref.schemaName, ref.tableName, ref.attributeName]
+    .filter((part) => part != null)
+    .join(".");
+  const matches = resources.filter((resource) => {
+    const pg = (resource.codec.extensions as any)?.pg;
+    return (
+      pg?.name === ref.tableName &&
+      (ref.schemaName == null || pg?.schemaName === ref.schemaName)
+    );
+  });
+  if (matches.length !== 1) {
+    throw new Error(
+      `Invalid @spatialRelation smart tag on ${tableName}: ${
+        matches.length === 0
+          ? `no table matches '${name}'`
+          : `'${name}' matches several tables; give its schema`
+      }.`
+    );
+  }
+  const resource = matches[0];
+  const attribute = resource.codec.attributes[ref.attributeName];
+  if (!(attribute?.codec.extensions as any)?.isPostGIS) {
+    throw new Error(
+      `Invalid @spatialRelation smart tag on ${tableName}: '${name}' is not a PostGIS column.`
+    );
+  }
+  if (!resource.uniques?.some((unique: any) => unique.isPrimary)) {
+    throw new Error(
+      `Invalid @spatialRelation smart tag on ${tableName}: '${ref.tableName}' has no primary key.`
+    );
+  }
+  return { resource, attributeName: ref.attributeName };
+}
+
+/**
+ * Reads the spatial relations from the `@spatialRelation` smart tags of the
+ * given table resources.
+ *
+ * @throws {Error} If a tag is invalid, or names an unknown table or column
+ */
+export function getSpatialRelations(
+  resources: ReadonlyArray<PgResource<any, any, any, any, any>>
+): SpatialRelation[] {
+  return resources.flatMap((resource) => {
+    const value = resource.extensions?.tags?.spatialRelation;
+    const tableName = resource.name;
+    return parseSpatialRelationTags(value, tableName).map((tag) => ({
+      name: tag.name,
+      fn: tag.fn,
+      left: resolveSide(tag.left, resources, tableName),
+      right: resolveSide(tag.right, resources, tableName),
+    }));
+  });
+}
+
+/** Gets the type name (`geometry` or `geography`) of a side's column */
+function sideTypeName(side: SpatialRelationSide): string | undefined {
+  const codec = side.resource.codec.attributes[side.attributeName]
+    .codec as PgCodec;
+  return (codec.extensions as any)?.typeName;
+}
+
+/**
+ * Creates SQL for the predicate of a spatial relation, given SQL for the
+ * columns of its two sides. Geography columns are cast to geometry unless
+ * both columns are geography and PostGIS implements the predicate for
+ * geography.
+ *
+ * @example
+ * ```ts
+ * sqlSpatialRelationPredicate(relation, sql`p.geom`, sql`d.geom`);
+ * // Returns: sql`ST_Within(p.geom, d.geom)`
+ * ```
+ */
+export function sqlSpatialRelationPredicate(
+  relation: SpatialRelation,
+  sqlLeft: SQL,
+  sqlRight: SQL
+): SQL {
+  // The function was checked against SPATIAL_OPERATORS when parsing the tag
+  const operator = SPATIAL_OPERATORS.find(({ fn }) => fn === relation.fn)!;
+  const leftIsGeography = sideTypeName(relation.left) === "geography";
+  const rightIsGeography = sideTypeName(relation.right) === "geography";
+  const geographyNative =
+    leftIsGeography && rightIsGeography && operator.geographyNative;
+  const cast = (sqlColumn: SQL, isGeography: boolean) =>
+    isGeography && !geographyNative ? sql`(${sqlColumn})::geometry` : sqlColumn;
+  return sql`${operator.sqlFn}(${cast(sqlLeft, leftIsGeography)}, ${cast(
+    sqlRight,
+    rightIsGeography
+  )})`;
+}
@@ -7,3 +7,29 @@ export interface GISTypeDetails {
   srid: number;
 }
 
+
+/** The formats geometry input may be given in */
+export type GeometryInputFormat = "geojson" | "wkt" | "ewkt" | "wkb";
+
+/**
+ * Per-column configuration, read from the column's smart tags
+ * (`@postgisPrecision`, `@postgisOutputSrid`, `@postgisInput` and
+ * `@postgisOmit`).
+ */
+export interface PostgisColumnOptions {
+  /** The number of decimal digits GeoJSON is output with */
+  precision?: number;
+  /** The SRID the geometry is output in */
+  outputSrid?: number;
+  /** The input formats the column accepts; by default, all of them */
+  inputFormats?: ReadonlyArray<GeometryInputFormat>;
+  /** The names of the fields left out of the column's GraphQL type */
+  omit?: ReadonlyArray<string>;
+}
+
+/** A PostGIS column with per-column configuration */
+export interface PostgisColumn {
+  className: string;
+  attributeName: string;
+  options: PostgisColumnOptions;
+}
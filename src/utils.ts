@@ -1,5 +1,5 @@
 import { GISTypeDetails, Subtype } from "./types";
-import { GIS_SUBTYPE_NAME } from "./constants";
+import { GIS_SUBTYPE, GIS_SUBTYPE_NAME } from "./constants";
 
 /**
  * Extracts PostGIS type details from a type modifier integer.
@@ -114,3 +114,219 @@ export const getGISTypeName = (
   return `${GIS_SUBTYPE_NAME[subtype]}${hasZ ? "Z" : ""}${hasM ? "M" : ""}`;
 };
 
+/**
+ * Gets the number of values of the first position of a GeoJSON geometry (or
+ * of the first member of a collection with one), or 0 if there is none.
+ */
+const getPositionLength = (geojson: any): number => {
+  if (Array.isArray(geojson?.geometries)) {
+    for (const geometry of geojson.geometries) {
+      const length = getPositionLength(geometry);
+      if (length > 0) {
+        return length;
+      }
+    }
+    return 0;
+  }
+  let value = geojson?.coordinates;
+  while (Array.isArray(value) && Array.isArray(value[0])) {
+    value = value[0];
+  }
+  return Array.isArray(value) ? value.length : 0;
+};
+
+/**
+ * Gets the subtype and dimensions of a GeoJSON geometry, as
+ * `getGISTypeDetails` does for a type modifier.
+ *
+ * GeoJSON has no M coordinates, so positions with 3 values are taken as XYZ
+ * and positions with 4 values as XYZM. The dimensions of a geometry
+ * collection are those of its first member with a position.
+ *
+ * @param geojson - The GeoJSON geometry
+ * @returns The subtype and dimensions, or null if it is not a GeoJSON
+ * geometry or is empty
+ *
+ * @example
+ * ```ts
+ * getGeoJSONTypeDetails({ type: "LineString", coordinates: [[0, 0, 1], [1, 1, 1]] });
+ * // Returns { subtype: 2, hasZ: true, hasM: false }
+ * ```
+ */
+export const getGeoJSONTypeDetails = (
+  geojson: any
+): Pick<GISTypeDetails, "subtype" | "hasZ" | "hasM"> | null => {
+  const type = geojson && typeof geojson === "object" ? geojson.type : null;
+  if (
+    typeof type !== "string" ||
+    type === "Geometry" ||
+    !Object.prototype.hasOwnProperty.call(GIS_SUBTYPE, type)
+  ) {
+    return null;
+  }
+  const positionLength = getPositionLength(geojson);
+  if (positionLength === 0) {
+    return null;
+  }
+  return {
+    subtype: GIS_SUBTYPE[type as keyof typeof GIS_SUBTYPE],
+    hasZ: positionLength >= 3,
+    hasM: positionLength >= 4,
+  };
+};
+
+/** The subtypes by the names `GeometryType()` gives them, such as `POINT` */
+const CONCRETE_SUBTYPE_BY_SQL_TYPE: Record<string, Subtype> =
+  Object.fromEntries(
+    Object.entries(GIS_SUBTYPE)
+      .filter(([, subtype]) => subtype !== GIS_SUBTYPE.Geometry)
+      .map(([name, subtype]) => [name.toUpperCase(), subtype])
+  );
+
+/**
+ * Gets the subtype and dimensions of a geometry from the results of the
+ * PostGIS functions `GeometryType()` and `ST_CoordDim()`, as
+ * `getGISTypeDetails` does for a type modifier.
+ *
+ * Unlike GeoJSON, these tell XYM geometries apart: `GeometryType()` suffixes
+ * their type with `M`, and counts 3 coordinate dimensions for them.
+ *
+ * @param geometryType - The result of `GeometryType()`, such as `POINTM`
+ * @param coordDim - The result of `ST_CoordDim()`
+ * @returns The subtype and dimensions, or null for types without a GraphQL
+ * type of their own, such as `CIRCULARSTRING`
+ *
+ * @example
+ * ```ts
+ * getSQLGeometryTypeDetails("LINESTRINGM", 3);
+ * // Returns { subtype: 2, hasZ: false, hasM: true }
+ * ```
+ */
+export const getSQLGeometryTypeDetails = (
+  geometryType: unknown,
+  coordDim: unknown
+): Pick<GISTypeDetails, "subtype" | "hasZ" | "hasM"> | null => {
+  if (typeof geometryType !== "string" || typeof coordDim !== "number") {
+    return null;
+  }
+  const upperType = geometryType.toUpperCase();
+  const suffixedM = upperType.endsWith("M");
+  const baseType = suffixedM ? upperType.slice(0, -1) : upperType;
+  const subtype = CONCRETE_SUBTYPE_BY_SQL_TYPE[baseType];
+  if (subtype == null) {
+    return null;
+  }
+  const hasM = suffixedM || coordDim >= 4;
+  return {
+    subtype,
+    hasZ: coordDim - (hasM ? 1 : 0) >= 3,
+    hasM,
+  };
+};
+
+/**
+ * Gets the SRID that GeoJSON input declares for its coordinates.
+ *
+ * The SRID is read from an `srid` member, or from a named `crs` member such as
+ * `EPSG:3857` or `urn:ogc:def:crs:EPSG::3857` (`CRS84` denotes SRID 4326).
+ * RFC 7946 removed `crs`, so GeoJSON without either member returns null.
+ *
+ * @param geojson - The GeoJSON input
+ * @returns The declared SRID, or null if none (or an unrecognized one) is declared
+ *
+ * @example
+ * ```ts
+ * getGeoJSONSRID({ type: "Point", coordinates: [0, 0], crs: { type: "name", properties: { name: "EPSG:3857" } } });
+ * // Returns 3857
+ * ```
+ */
+export const getGeoJSONSRID = (geojson: any): number | null => {
+  if (!geojson || typeof geojson !== "object") {
+    return null;
+  }
+  if (geojson.srid != null) {
+    return Number.isInteger(geojson.srid) && geojson.srid > 0
+      ? geojson.srid
+      : null;
+  }
+  const name = geojson.crs?.properties?.name;
+  if (typeof name !== "string") {
+    return null;
+  }
+  if (/CRS:?84$/i.test(name)) {
+    return 4326;
+  }
+  const match = /EPSG:+(\d+)$/i.exec(name);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Rounds the coordinates of a GeoJSON geometry to a number of decimal
+ * digits, as `ST_AsGeoJSON`'s `maxdecimaldigits` does.
+ *
+ * @param geojson - The GeoJSON geometry
+ * @param precision - The maximum number of decimal digits
+ * @returns A copy of the geometry with rounded coordinates
+ *
+ * @example
+ * ```ts
+ * roundGeoJSONCoordinates({ type: "Point", coordinates: [30.123456, 10.5] }, 2);
+ * // Returns { type: "Point", coordinates: [30.12, 10.5] }
+ * ```
+ */
+export const roundGeoJSONCoordinates = (geojson: any, precision: number): any => {
+  if (!geojson || typeof geojson !== "object") {
+    return geojson;
+  }
+  const factor = 10 ** Math.max(0, Math.floor(precision));
+  const round = (coordinates: any): any =>
+    Array.isArray(coordinates)
+      ? coordinates.map(round)
+      : typeof coordinates === "number"
+        ? Math.round(coordinates * factor) / factor
+        : coordinates;
+  if (Array.isArray(geojson.geometries)) {
+    return {
+      ...geojson,
+      geometries: geojson.geometries.map((geometry: any) =>
+        roundGeoJSONCoordinates(geometry, precision)
+      ),
+    };
+  }
+  return geojson.coordinates === undefined
+    ? geojson
+    : { ...geojson, coordinates: round(geojson.coordinates) };
+};
+
+/**
+ * Gets the geometry of a GeoJSON `Feature`; other GeoJSON is returned as is.
+ *
+ * A `crs` or `srid` member declared on the feature applies to its geometry,
+ * unless the geometry declares its own.
+ *
+ * @param geojson - The GeoJSON input
+ * @returns The geometry of the feature, or the input if it is not a feature
+ *
+ * @example
+ * ```ts
+ * getFeatureGeometry({ type: "Feature", geometry: { type: "Point", coordinates: [0, 0] }, properties: null });
+ * // Returns { type: "Point", coordinates: [0, 0] }
+ * ```
+ */
+export const getFeatureGeometry = (geojson: any): any => {
+  if (!geojson || typeof geojson !== "object" || geojson.type !== "Feature") {
+    return geojson;
+  }
+  const { geometry } = geojson;
+  if (
+    !geometry ||
+    typeof geometry !== "object" ||
+    getGeoJSONSRID(geometry) != null ||
+    getGeoJSONSRID(geojson) == null
+  ) {
+    return geometry;
+  }
+  return geojson.srid != null
+    ? { ...geometry, srid: geojson.srid }
+    : { ...geometry, crs: geojson.crs };
+};
@@ -5,6 +5,11 @@
  * Provides detailed error messages for invalid GeoJSON input.
  */
 
+import type { GISTypeDetails } from "./types";
+import { getGeoJSONSRID } from "./utils";
+import type { WellKnownGeometry } from "./wellKnown";
+import { wellKnownGeometrySRID, wellKnownGeometryType } from "./wellKnown";
+
 /**
  * Represents a GeoJSON validation error with field-level details.
  */
@@ -17,6 +22,46 @@ export interface GeoJSONValidationError {
   value?: any;
 }
 
+/**
+ * Options for the topology checks and size limits of `validateGeoJSON`.
+ *
+ * Unclosed polygon rings and holes outside their exterior ring are always
+ * rejected, as PostGIS would reject or misinterpret them; the topology checks
+ * are stricter than PostGIS, and are off by default. The size limits protect
+ * the server from pathological input, and always apply.
+ */
+export interface GeoJSONValidationOptions {
+  /**
+   * Reject rings that do not follow the RFC 7946 right-hand rule (exterior
+   * rings counterclockwise, holes clockwise).
+   */
+  checkWindingOrder?: boolean;
+  /** Reject positions that repeat the previous position. */
+  checkDuplicateVertices?: boolean;
+  /**
+   * Reject lines and rings that intersect themselves. This compares every
+   * pair of segments, so it is slow for geometries with many vertices.
+   */
+  checkSelfIntersection?: boolean;
+  /**
+   * The maximum number of levels GeoJSON objects may be nested, counting
+   * features, their geometries and the members of geometry collections;
+   * by default, 10.
+   */
+  maxNestingDepth?: number;
+  /** The maximum number of positions in the input; by default, 1,000,000. */
+  maxVertices?: number;
+}
+
+/**
+ * Options for GeoJSON input: the topology checks, and whether to repair the
+ * input with `autoFixGeoJSON` before validating it.
+ */
+export interface GeoJSONInputOptions extends GeoJSONValidationOptions {
+  /** Close unclosed rings and rewind rings to the right-hand rule. */
+  autoFix?: boolean;
+}
+
 /**
  * Validates the basic structure of a GeoJSON object.
  * 
@@ -79,16 +124,17 @@ export function validateGeoJSONStructure(
 /**
  * Validates GeoJSON coordinates structure.
  * 
- * Ensures coordinates are arrays of numbers with proper nesting depth
- * based on the geometry type.
+ * Ensures coordinates are arrays of finite numbers (not NaN or Infinity)
+ * and, if the number of dimensions is given, that every position has that
+ * many values.
  * 
  * @param coordinates - The coordinates array to validate
- * @param _expectedDimensions - Expected number of dimensions (2, 3, or 4) - currently unused
+ * @param expectedDimensions - Optional number of values of each position (2, 3, or 4)
  * @returns Array of validation errors (empty if valid)
  */
 export function validateCoordinates(
   coordinates: any,
-  _expectedDimensions: number = 2
+  expectedDimensions?: number
 ): GeoJSONValidationError[] {
   const errors: GeoJSONValidationError[] = [];
 
@@ -124,8 +170,28 @@ export function validateCoordinates(
           message: "Coordinate values must be numbers",
           value: coord,
         });
+      } else if (!Number.isFinite(coord)) {
+        errors.push({
+          field: `coordinates${path}[${i}]`,
+          message: "Coordinate values must be finite numbers, not NaN or Infinity",
+          value: coord,
+        });
       }
     }
+
+    // An array of numbers is a position
+    if (
+      expectedDimensions !== undefined &&
+      coords.length > 0 &&
+      coords.every((coord) => typeof coord === "number") &&
+      coords.length !== expectedDimensions
+    ) {
+      errors.push({
+        field: `coordinates${path}`,
+        message: `Position must have ${expectedDimensions} values, but has ${coords.length}`,
+        value: coords,
+      });
+    }
   };
 
   validateCoordinateNumbers(coordinates);
@@ -137,9 +203,20 @@ export function validateCoordinates(
  * Validates a complete GeoJSON object.
  * 
  * Performs structure validation, coordinate validation, and optional type checking.
- * 
+ * Every geometry type is checked, including the members of multi-geometries
+ * and, recursively, of geometry collections. Empty geometries (such as
+ * `{ type: "Point", coordinates: [] }`) are accepted.
+ *
+ * Lines and polygon rings are also checked topologically (see
+ * `GeoJSONValidationOptions`), with errors pointing at the offending
+ * position, such as `coordinates[0][3]`.
+ *
+ * Input nested more deeply, or with more positions, than the options allow
+ * is rejected before anything else is checked.
+ *
  * @param value - The GeoJSON object to validate
  * @param expectedType - Optional expected geometry type (e.g., "Point", "LineString")
+ * @param options - Optional topology checks to enable, and size limits
  * @returns Array of validation errors (empty if valid)
  * 
  * @example
@@ -152,7 +229,168 @@ export function validateCoordinates(
  */
 export function validateGeoJSON(
   value: any,
-  expectedType?: string
+  expectedType?: string,
+  options: GeoJSONValidationOptions = {}
+): GeoJSONValidationError[] {
+  const sizeErrors = validateGeoJSONSize(value, options);
+  if (sizeErrors.length > 0) {
+    return sizeErrors;
+  }
+  return validateGeoJSONObject(value, expectedType, options);
+}
+
+/** The geometry types whose positions are given by `coordinates` */
+const COORDINATE_GEOMETRY_TYPES = [
+  "Point",
+  "LineString",
+  "Polygon",
+  "MultiPoint",
+  "MultiLineString",
+  "MultiPolygon",
+];
+
+/** The nesting depth of positions in `coordinates`, by geometry type */
+const POSITION_DEPTHS: Record<string, number> = {
+  Point: 0,
+  LineString: 1,
+  MultiPoint: 1,
+  Polygon: 2,
+  MultiLineString: 2,
+  MultiPolygon: 3,
+};
+
+/** The default of `GeoJSONValidationOptions.maxNestingDepth` */
+const DEFAULT_MAX_NESTING_DEPTH = 10;
+
+/** The default of `GeoJSONValidationOptions.maxVertices` */
+const DEFAULT_MAX_VERTICES = 1_000_000;
+
+/** Whether a value is a position: an array of at least 2 numbers */
+const isPosition = (value: any): boolean =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  value.every((coord: any) => typeof coord === "number");
+
+/**
+ * Checks the size of GeoJSON input against the nesting depth and vertex
+ * limits, without recursion, so pathological input is rejected cheaply.
+ *
+ * Each GeoJSON object within another (a feature within a collection, its
+ * geometry, a member of a geometry collection) adds a level of nesting.
+ * Coordinates nested more deeply than any geometry type allows are rejected
+ * too, as they cannot be valid. `validateGeoJSON` applies this check first;
+ * call it directly before processing input otherwise, as `autoFixGeoJSON`
+ * does not check the size of its input.
+ *
+ * @param value - The GeoJSON input
+ * @param options - The limits to apply
+ * @returns Array of validation errors (empty if within the limits)
+ */
+export function validateGeoJSONSize(
+  value: any,
+  options: GeoJSONValidationOptions
+): GeoJSONValidationError[] {
+  const maxNestingDepth = options.maxNestingDepth ?? DEFAULT_MAX_NESTING_DEPTH;
+  const maxVertices = options.maxVertices ?? DEFAULT_MAX_VERTICES;
+  const maxPositionDepth = Math.max(...Object.values(POSITION_DEPTHS));
+
+  let vertices = 0;
+  const objects: Array<{ object: any; path: string; depth: number }> = [
+    { object: value, path: "", depth: 1 },
+  ];
+  while (objects.length > 0) {
+    const { object, path, depth } = objects.pop()!;
+    if (!object || typeof object !== "object") {
+      continue;
+    }
+    if (depth > maxNestingDepth) {
+      return [
+        {
+          field: path.replace(/\.$/, ""),
+          message: `GeoJSON must not be nested more than ${maxNestingDepth} levels deep`,
+        },
+      ];
+    }
+
+    const members: Array<[string, any]> = [];
+    if (Array.isArray(object.features)) {
+      object.features.forEach((feature: any, i: number) =>
+        members.push([`features[${i}]`, feature])
+      );
+    }
+    if (Array.isArray(object.geometries)) {
+      object.geometries.forEach((geometry: any, i: number) =>
+        members.push([`geometries[${i}]`, geometry])
+      );
+    }
+    if (object.type === "Feature" && object.geometry) {
+      members.push(["geometry", object.geometry]);
+    }
+    for (const [field, member] of members) {
+      objects.push({
+        object: member,
+        path: `${path}${field}.`,
+        depth: depth + 1,
+      });
+    }
+
+    // Count the positions, which are the arrays holding numbers
+    const arrays: Array<{ array: any[]; field: string; level: number }> = [];
+    if (Array.isArray(object.coordinates)) {
+      arrays.push({
+        array: object.coordinates,
+        field: `${path}coordinates`,
+        level: 0,
+      });
+    }
+    while (arrays.length > 0) {
+      const { array, field, level } = arrays.pop()!;
+      if (level > maxPositionDepth) {
+        return [
+          {
+            field,
+            message: "Coordinates are nested more deeply than any geometry type allows",
+          },
+        ];
+      }
+      if (array.some((coord) => typeof coord === "number")) {
+        if (++vertices > maxVertices) {
+          return [
+            {
+              field: "root",
+              message: `GeoJSON must not have more than ${maxVertices} positions`,
+            },
+          ];
+        }
+        continue;
+      }
+      array.forEach((item, i) => {
+        if (Array.isArray(item)) {
+          arrays.push({
+            array: item,
+            field: `${field}[${i}]`,
+            level: level + 1,
+          });
+        }
+      });
+    }
+  }
+  return [];
+}
+
+/**
+ * Validates a GeoJSON object, as `validateGeoJSON` does once the input is
+ * known to be within the size limits.
+ *
+ * @param value - The GeoJSON object to validate
+ * @param expectedType - Optional expected geometry type
+ * @param options - The topology checks to enable
+ * @returns Array of validation errors (empty if valid)
+ */
+function validateGeoJSONObject(
+  value: any,
+  expectedType: string | undefined,
+  options: GeoJSONValidationOptions
 ): GeoJSONValidationError[] {
   const errors = validateGeoJSONStructure(value);
 
@@ -169,17 +407,115 @@ export function validateGeoJSON(
     });
   }
 
-  // Validate coordinates for geometry types (not Feature/FeatureCollection)
-  if (
-    value.coordinates !== undefined &&
-    !["Feature", "FeatureCollection"].includes(value.type)
-  ) {
-    const coordErrors = validateCoordinates(value.coordinates);
-    errors.push(...coordErrors);
+  // The input SRID may be declared with a `crs` member or an `srid` member
+  if (value.srid != null && getGeoJSONSRID({ srid: value.srid }) == null) {
+    errors.push({
+      field: "srid",
+      message: "SRID must be a positive integer",
+      value: value.srid,
+    });
+  }
+  if (value.crs != null && value.srid == null && getGeoJSONSRID(value) == null) {
+    errors.push({
+      field: "crs",
+      message:
+        "CRS must be named with an EPSG code, such as { type: \"name\", properties: { name: \"EPSG:3857\" } }",
+      value: value.crs,
+    });
+  }
+
+  // Features hold a geometry, and feature collections hold features
+  if (value.type === "Feature") {
+    errors.push(...validateFeature(value, "", options));
+  } else if (value.type === "FeatureCollection") {
+    if (!Array.isArray(value.features)) {
+      errors.push({
+        field: "features",
+        message: "FeatureCollection features must be an array",
+        value: value.features,
+      });
+    } else {
+      value.features.forEach((feature: any, i: number) => {
+        const structureErrors = validateGeoJSONStructure(feature);
+        if (structureErrors.length > 0 || feature?.type !== "Feature") {
+          errors.push({
+            field: `features[${i}]`,
+            message: "FeatureCollection features must be Features",
+            value: feature,
+          });
+        } else {
+          errors.push(
+            ...validateFeature(feature, `features[${i}].`, options)
+          );
+        }
+      });
+    }
+  }
+
+  // Geometry collections hold geometries, which may be collections too
+  if (value.type === "GeometryCollection") {
+    if (!Array.isArray(value.geometries)) {
+      errors.push({
+        field: "geometries",
+        message: "GeometryCollection geometries must be an array",
+        value: value.geometries,
+      });
+    } else {
+      value.geometries.forEach((geometry: any, i: number) => {
+        if (
+          geometry !== null &&
+          typeof geometry === "object" &&
+          ["Feature", "FeatureCollection"].includes(geometry.type)
+        ) {
+          errors.push({
+            field: `geometries[${i}]`,
+            message: "GeometryCollection geometries must be geometries, not Features",
+            value: geometry,
+          });
+          return;
+        }
+        const geometryErrors =
+          geometry === null || geometry === undefined
+            ? [{ field: "root", message: "Geometry must not be null" }]
+            : validateGeoJSONObject(geometry, undefined, options);
+        errors.push(
+          ...geometryErrors.map((error) => ({
+            ...error,
+            field:
+              error.field === "root"
+                ? `geometries[${i}]`
+                : `geometries[${i}].${error.field}`,
+          }))
+        );
+      });
+    }
+  }
+
+  // Geometries other than collections need coordinates; an empty array is
+  // an empty geometry, such as POINT EMPTY
+  if (COORDINATE_GEOMETRY_TYPES.includes(value.type)) {
+    if (value.coordinates === undefined || value.coordinates === null) {
+      errors.push({
+        field: "coordinates",
+        message: `${value.type} must have coordinates`,
+        value: value.coordinates,
+      });
+    } else if (
+      !Array.isArray(value.coordinates) ||
+      value.coordinates.length > 0
+    ) {
+      const coordErrors = validateCoordinates(value.coordinates);
+      errors.push(...coordErrors);
+    }
   }
 
   // Validate coordinate structure based on geometry type
-  if (value.coordinates !== undefined && errors.length === 0) {
+  if (
+    COORDINATE_GEOMETRY_TYPES.includes(value.type) &&
+    Array.isArray(value.coordinates) &&
+    value.coordinates.length > 0 &&
+    errors.length === 0
+  ) {
     const type = value.type;
     const coords = value.coordinates;
 
@@ -205,12 +541,14 @@ export function validateGeoJSON(
           message: "LineString coordinates must be an array with at least 2 coordinate pairs",
           value: coords,
         });
-      } else if (!coords.every((c: any) => Array.isArray(c) && c.length >= 2)) {
+      } else if (!coords.every(isPosition)) {
         errors.push({
           field: "coordinates",
           message: "LineString coordinates must be an array of coordinate pairs [longitude, latitude]",
           value: coords,
         });
+      } else {
+        errors.push(...validateLine(coords, "coordinates", false, options));
       }
     } else if (type === "Polygon") {
       if (!Array.isArray(coords) || coords.length < 1) {
@@ -219,12 +557,395 @@ export function validateGeoJSON(
           message: "Polygon coordinates must be an array with at least one ring",
           value: coords,
         });
-      } else if (!coords.every((ring: any) => Array.isArray(ring) && ring.length >= 4)) {
+      } else if (
+        !coords.every(
+          (ring: any) =>
+            Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition)
+        )
+      ) {
         errors.push({
           field: "coordinates",
           message: "Polygon coordinates must be an array of rings, each with at least 4 coordinate pairs",
           value: coords,
         });
+      } else {
+        errors.push(...validatePolygonRings(coords, "coordinates", options));
+      }
+    } else if (type === "MultiPoint") {
+      coords.forEach((point: any, i: number) => {
+        if (!isPosition(point)) {
+          errors.push({
+            field: `coordinates[${i}]`,
+            message: "MultiPoint coordinates must be an array of coordinate pairs [longitude, latitude]",
+            value: point,
+          });
+        }
+      });
+    } else if (type === "MultiLineString") {
+      coords.forEach((line: any, i: number) => {
+        if (!Array.isArray(line) || line.length < 2 || !line.every(isPosition)) {
+          errors.push({
+            field: `coordinates[${i}]`,
+            message: "MultiLineString lines must be arrays of at least 2 coordinate pairs",
+            value: line,
+          });
+        } else {
+          errors.push(
+            ...validateLine(line, `coordinates[${i}]`, false, options)
+          );
+        }
+      });
+    } else if (type === "MultiPolygon") {
+      coords.forEach((polygon: any, i: number) => {
+        if (!Array.isArray(polygon) || polygon.length < 1) {
+          errors.push({
+            field: `coordinates[${i}]`,
+            message: "MultiPolygon polygons must be arrays with at least one ring",
+            value: polygon,
+          });
+          return;
+        }
+        const invalidRing = polygon.findIndex(
+          (ring: any) =>
+            !Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition)
+        );
+        if (invalidRing !== -1) {
+          errors.push({
+            field: `coordinates[${i}][${invalidRing}]`,
+            message: "MultiPolygon rings must be arrays of at least 4 coordinate pairs",
+            value: polygon[invalidRing],
+          });
+        } else {
+          errors.push(
+            ...validatePolygonRings(polygon, `coordinates[${i}]`, options)
+          );
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The details of a PostGIS column that GeoJSON input is checked against, as
+ * found in the `extensions` of its codec.
+ */
+export interface GeoJSONColumnDetails {
+  /** Either "geometry" or "geography" */
+  typeName: "geometry" | "geography";
+  /** The type modifier details, or null for unconstrained columns */
+  typeDetails: GISTypeDetails | null;
+}
+
+/** The names of the values of positions, by number of dimensions */
+const POSITION_VALUES: Record<string, string> = {
+  xy: "x, y",
+  xyz: "x, y, z",
+  xym: "x, y, m",
+  xyzm: "x, y, z, m",
+};
+
+/**
+ * Validates the positions of GeoJSON input against the column it is stored
+ * in or compared with.
+ *
+ * Positions must have as many values as the column's dimensions (2 for XY,
+ * 3 for XYZ and XYM, 4 for XYZM) where the column declares them. Positions
+ * in WGS 84 (SRID 4326, the default for geography) must have a longitude
+ * between -180 and 180 and a latitude between -90 and 90; input declaring
+ * another SRID is transformed first, so its coordinates are not checked.
+ *
+ * Features, feature collections and geometry collections are checked
+ * recursively. Errors point at the offending value, such as
+ * `coordinates[2][1]`. The input should have passed `validateGeoJSON` first.
+ *
+ * @param value - The GeoJSON input
+ * @param column - The details of the column
+ * @returns Array of validation errors (empty if valid)
+ *
+ * @example
+ * ```ts
+ * validateGeoJSONForColumn(
+ *   { type: "Point", coordinates: [250, 10] },
+ *   { typeName: "geography", typeDetails: null }
+ * );
+ * // Returns [{ field: "coordinates[0]", message: "Longitude must be between -180 and 180", value: 250 }]
+ * ```
+ */
+export function validateGeoJSONForColumn(
+  value: any,
+  column: GeoJSONColumnDetails
+): GeoJSONValidationError[] {
+  const errors: GeoJSONValidationError[] = [];
+  if (!value || typeof value !== "object") {
+    return errors;
+  }
+
+  const { typeName, typeDetails } = column;
+  const dimensions = typeDetails
+    ? `xy${typeDetails.hasZ ? "z" : ""}${typeDetails.hasM ? "m" : ""}`
+    : null;
+
+  const validateGeometry = (
+    geometry: any,
+    path: string,
+    inputSRID: number | null
+  ): void => {
+    if (!geometry || typeof geometry !== "object") {
+      return;
+    }
+    // The SRID may be declared on the geometry or on what contains it
+    const srid = getGeoJSONSRID(geometry) ?? inputSRID;
+
+    switch (geometry.type) {
+      case "FeatureCollection":
+        (geometry.features ?? []).forEach((feature: any, i: number) =>
+          validateGeometry(feature, `${path}features[${i}].`, srid)
+        );
+        return;
+      case "Feature":
+        validateGeometry(geometry.geometry, `${path}geometry.`, srid);
+        return;
+      case "GeometryCollection":
+        (geometry.geometries ?? []).forEach((member: any, i: number) =>
+          validateGeometry(member, `${path}geometries[${i}].`, srid)
+        );
+        return;
+    }
+
+    const effectiveSRID =
+      srid ?? (typeName === "geography" ? 4326 : typeDetails?.srid ?? 0);
+    const isLonLat = effectiveSRID === 4326;
+
+    const validatePositions = (coords: any, field: string): void => {
+      if (!Array.isArray(coords)) {
+        return;
+      }
+      if (!coords.every((coord) => typeof coord === "number")) {
+        coords.forEach((coord, i) =>
+          validatePositions(coord, `${field}[${i}]`)
+        );
+        return;
+      }
+
+      if (dimensions && coords.length !== dimensions.length) {
+        errors.push({
+          field,
+          message: `Position must have ${dimensions.length} values (${POSITION_VALUES[dimensions]}) for this column, but has ${coords.length}`,
+          value: coords,
+        });
+      }
+      if (isLonLat) {
+        const [longitude, latitude] = coords;
+        if (longitude < -180 || longitude > 180) {
+          errors.push({
+            field: `${field}[0]`,
+            message: "Longitude must be between -180 and 180",
+            value: longitude,
+          });
+        }
+        if (latitude < -90 || latitude > 90) {
+          errors.push({
+            field: `${field}[1]`,
+            message: "Latitude must be between -90 and 90",
+            value: latitude,
+          });
+        }
+      }
+    };
+
+    validatePositions(geometry.coordinates, `${path}coordinates`);
+  };
+
+  validateGeometry(value, "", null);
+  return errors;
+}
+
+/**
+ * Validates the members of a GeoJSON Feature: its geometry (which must not
+ * be a Feature itself) and its properties.
+ *
+ * @param feature - The Feature to validate
+ * @param path - The prefix of the error fields, such as `features[0].`
+ * @param options - The topology checks to enable
+ * @returns Array of validation errors (empty if valid)
+ */
+function validateFeature(
+  feature: any,
+  path: string,
+  options: GeoJSONValidationOptions
+): GeoJSONValidationError[] {
+  const errors: GeoJSONValidationError[] = [];
+  const { geometry, properties } = feature;
+
+  if (
+    geometry === null ||
+    geometry === undefined ||
+    ["Feature", "FeatureCollection"].includes(geometry.type)
+  ) {
+    errors.push({
+      field: `${path}geometry`,
+      message: "Feature must have a geometry",
+      value: geometry,
+    });
+  } else {
+    errors.push(
+      ...validateGeoJSONObject(geometry, undefined, options).map((error) => ({
+        ...error,
+        field: `${path}geometry.${error.field}`,
+      }))
+    );
+  }
+
+  if (
+    properties !== null &&
+    properties !== undefined &&
+    (typeof properties !== "object" || Array.isArray(properties))
+  ) {
+    errors.push({
+      field: `${path}properties`,
+      message: "Feature properties must be an object or null",
+      value: properties,
+    });
+  }
+
+  return errors;
+}
+
+/** Whether two positions are equal in every dimension */
+const samePosition = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every((value, i) => value === b[i]);
+
+/**
+ * The signed area of a ring with the shoelace formula: positive for
+ * counterclockwise rings, negative for clockwise ones.
+ */
+const signedRingArea = (ring: number[][]): number => {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+};
+
+/** The orientation of the triangle p, q, r: 1, -1, or 0 when collinear */
+const orientation = (p: number[], q: number[], r: number[]): number =>
+  Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+
+/** Whether r lies on the segment p-q, given the three are collinear */
+const onSegment = (p: number[], q: number[], r: number[]): boolean =>
+  Math.min(p[0], q[0]) <= r[0] &&
+  r[0] <= Math.max(p[0], q[0]) &&
+  Math.min(p[1], q[1]) <= r[1] &&
+  r[1] <= Math.max(p[1], q[1]);
+
+/** Whether the segments a-b and c-d intersect or touch */
+const segmentsIntersect = (
+  a: number[],
+  b: number[],
+  c: number[],
+  d: number[]
+): boolean => {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) {
+    return true;
+  }
+  return (
+    (o1 === 0 && onSegment(a, b, c)) ||
+    (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) ||
+    (o4 === 0 && onSegment(c, d, b))
+  );
+};
+
+/** Whether a point lies inside a closed ring, or on its boundary */
+const pointInRing = (point: number[], ring: number[][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length - 1; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (
+      orientation(ring[j], ring[i], point) === 0 &&
+      onSegment(ring[j], ring[i], point)
+    ) {
+      return true;
+    }
+    if (yi > point[1] !== yj > point[1]) {
+      const x = ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi;
+      if (point[0] < x) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+/**
+ * Validates the positions of a line or ring: consecutive duplicates and
+ * self-intersections, if those checks are enabled.
+ *
+ * @param positions - The positions of the line or ring
+ * @param path - The field of the positions, such as `coordinates[0]`
+ * @param isRing - Whether the positions form a closed ring
+ * @param options - The topology checks to enable
+ * @returns Array of validation errors (empty if valid)
+ */
+function validateLine(
+  positions: number[][],
+  path: string,
+  isRing: boolean,
+  options: GeoJSONValidationOptions
+): GeoJSONValidationError[] {
+  const errors: GeoJSONValidationError[] = [];
+  if (!positions.every((position) => Array.isArray(position))) {
+    return errors;
+  }
+
+  // Indexes of the positions that differ from the previous one
+  const distinct: number[] = [];
+  positions.forEach((position, i) => {
+    if (i > 0 && samePosition(position, positions[i - 1])) {
+      if (options.checkDuplicateVertices) {
+        errors.push({
+          field: `${path}[${i}]`,
+          message: "Position duplicates the previous position",
+          value: position,
+        });
+      }
+    } else {
+      distinct.push(i);
+    }
+  });
+
+  if (options.checkSelfIntersection) {
+    // Segments between distinct positions; neighbouring segments share an
+    // end, as do the first and last segments of a closed line
+    const closed =
+      isRing || samePosition(positions[0], positions[positions.length - 1]);
+    const segmentCount = distinct.length - 1;
+    for (let i = 0; i < segmentCount; i++) {
+      for (let j = i + 2; j < segmentCount; j++) {
+        if (closed && i === 0 && j === segmentCount - 1) {
+          continue;
+        }
+        if (
+          segmentsIntersect(
+            positions[distinct[i]],
+            positions[distinct[i + 1]],
+            positions[distinct[j]],
+            positions[distinct[j + 1]]
+          )
+        ) {
+          errors.push({
+            field: `${path}[${distinct[j]}]`,
+            message: `${isRing ? "Ring" : "Line"} intersects itself: the segment starting here crosses the segment starting at ${path}[${distinct[i]}]`,
+            value: positions[distinct[j]],
+          });
+        }
       }
     }
   }
@@ -232,3 +953,225 @@ export function validateGeoJSON(
   return errors;
 }
 
+/**
+ * Validates the rings of a polygon: that they are closed, that holes lie
+ * within the exterior ring and, if enabled, their winding order, duplicate
+ * positions and self-intersections.
+ *
+ * @param rings - The rings of the polygon, the exterior ring first
+ * @param path - The field of the rings, such as `coordinates` or `coordinates[2]`
+ * @param options - The topology checks to enable
+ * @returns Array of validation errors (empty if valid)
+ */
+function validatePolygonRings(
+  rings: number[][][],
+  path: string,
+  options: GeoJSONValidationOptions
+): GeoJSONValidationError[] {
+  const errors: GeoJSONValidationError[] = [];
+  if (
+    !rings.every((ring) => ring.every((position) => Array.isArray(position)))
+  ) {
+    return errors;
+  }
+
+  rings.forEach((ring, i) => {
+    const last = ring.length - 1;
+    if (!samePosition(ring[0], ring[last])) {
+      errors.push({
+        field: `${path}[${i}][${last}]`,
+        message: "Ring must be closed: its last position must equal its first",
+        value: ring[last],
+      });
+    }
+  });
+  if (errors.length > 0) {
+    // The other checks assume closed rings
+    return errors;
+  }
+
+  rings.forEach((ring, i) => {
+    errors.push(...validateLine(ring, `${path}[${i}]`, true, options));
+
+    if (options.checkWindingOrder) {
+      const area = signedRingArea(ring);
+      if (i === 0 && area < 0) {
+        errors.push({
+          field: `${path}[${i}]`,
+          message:
+            "Exterior ring must be counterclockwise (RFC 7946 right-hand rule)",
+        });
+      } else if (i > 0 && area > 0) {
+        errors.push({
+          field: `${path}[${i}]`,
+          message: "Hole must be clockwise (RFC 7946 right-hand rule)",
+        });
+      }
+    }
+
+    if (i > 0) {
+      const outside = ring.findIndex(
+        (position) => !pointInRing(position, rings[0])
+      );
+      if (outside !== -1) {
+        errors.push({
+          field: `${path}[${i}][${outside}]`,
+          message: "Hole must lie within the exterior ring",
+          value: ring[outside],
+        });
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Repairs GeoJSON input that can be repaired automatically: unclosed polygon
+ * rings are closed, and rings are rewound to follow the RFC 7946 right-hand
+ * rule (exterior rings counterclockwise, holes clockwise).
+ *
+ * Multi-geometries, geometry collections, features and feature collections
+ * are repaired recursively. The input is not modified; anything that is not
+ * a polygon ring of positions is returned as is.
+ *
+ * @param value - The GeoJSON input
+ * @returns The repaired GeoJSON
+ *
+ * @example
+ * ```ts
+ * autoFixGeoJSON({ type: "Polygon", coordinates: [[[0, 0], [0, 1], [1, 1]]] });
+ * // Returns { type: "Polygon", coordinates: [[[0, 0], [1, 1], [0, 1], [0, 0]]] }
+ * ```
+ */
+export function autoFixGeoJSON(value: any): any {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return value;
+  }
+
+  const fixRings = (rings: any): any => {
+    if (!Array.isArray(rings)) {
+      return rings;
+    }
+    return rings.map((ring: any, i: number) => {
+      if (
+        !Array.isArray(ring) ||
+        ring.length < 3 ||
+        !ring.every(
+          (position: any) =>
+            Array.isArray(position) &&
+            position.length >= 2 &&
+            position.every((c: any) => typeof c === "number")
+        )
+      ) {
+        return ring;
+      }
+      const closed = samePosition(ring[0], ring[ring.length - 1])
+        ? ring
+        : [...ring, ring[0]];
+      const area = signedRingArea(closed);
+      return (i === 0 && area < 0) || (i > 0 && area > 0)
+        ? [...closed].reverse()
+        : closed;
+    });
+  };
+
+  switch (value.type) {
+    case "Polygon":
+      return { ...value, coordinates: fixRings(value.coordinates) };
+    case "MultiPolygon":
+      return Array.isArray(value.coordinates)
+        ? { ...value, coordinates: value.coordinates.map(fixRings) }
+        : value;
+    case "GeometryCollection":
+      return Array.isArray(value.geometries)
+        ? { ...value, geometries: value.geometries.map(autoFixGeoJSON) }
+        : value;
+    case "Feature":
+      return { ...value, geometry: autoFixGeoJSON(value.geometry) };
+    case "FeatureCollection":
+      return Array.isArray(value.features)
+        ? { ...value, features: value.features.map(autoFixGeoJSON) }
+        : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Validates a geometry given as WKT, EWKT or hex-encoded WKB.
+ *
+ * Checks the geometry type and, for text formats, that parentheses are
+ * balanced; the coordinates themselves are parsed by PostGIS.
+ *
+ * @param geometry - The well-known geometry to validate
+ * @param expectedType - Optional expected geometry type (e.g., "Point", "LineString")
+ * @returns Array of validation errors (empty if valid)
+ *
+ * @example
+ * ```ts
+ * const errors = validateWellKnownGeometry(new WellKnownGeometry("wkt", "POINT(30 10)"));
+ * ```
+ */
+export function validateWellKnownGeometry(
+  geometry: WellKnownGeometry,
+  expectedType?: string
+): GeoJSONValidationError[] {
+  const errors: GeoJSONValidationError[] = [];
+  const { format, text } = geometry;
+
+  if (format === "wkb") {
+    if (text.length % 2 !== 0) {
+      errors.push({
+        field: format,
+        message: "Hex-encoded WKB must have an even number of digits",
+        value: text,
+      });
+      return errors;
+    }
+  } else {
+    if (format === "ewkt" && wellKnownGeometrySRID(geometry) == null) {
+      errors.push({
+        field: format,
+        message: "EWKT must start with 'SRID=<srid>;'",
+        value: text,
+      });
+      return errors;
+    }
+    let depth = 0;
+    for (const char of text) {
+      depth += char === "(" ? 1 : char === ")" ? -1 : 0;
+      if (depth < 0) {
+        break;
+      }
+    }
+    if (depth !== 0) {
+      errors.push({
+        field: format,
+        message: "Parentheses are not balanced",
+        value: text,
+      });
+      return errors;
+    }
+  }
+
+  const type = wellKnownGeometryType(geometry);
+  if (!type) {
+    errors.push({
+      field: format,
+      message:
+        format === "wkb"
+          ? "WKB must start with a byte order and a geometry type"
+          : `${format.toUpperCase()} must start with a geometry type, such as 'POINT(30 10)'`,
+      value: text,
+    });
+  } else if (expectedType && type !== expectedType) {
+    errors.push({
+      field: format,
+      message: `Expected geometry type '${expectedType}', but got '${type}'.`,
+      value: type,
+    });
+  }
+
+  return errors;
+}
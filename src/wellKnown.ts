@@ -0,0 +1,188 @@
+/**
+ * Well-known geometry representations accepted as input.
+ *
+ * Besides GeoJSON, geometry input may be given as Well-Known Text (WKT),
+ * Extended Well-Known Text (EWKT, with an embedded SRID) or hex-encoded
+ * Well-Known Binary (WKB, or EWKB with an embedded SRID).
+ */
+
+/** The well-known formats geometry input may be given in */
+export type WellKnownFormat = "wkt" | "ewkt" | "wkb";
+
+/**
+ * A geometry given in one of the well-known formats.
+ *
+ * Instances are produced by the `GeometryInput` scalar; GeoJSON input remains
+ * a plain object.
+ */
+export class WellKnownGeometry {
+  constructor(
+    public readonly format: WellKnownFormat,
+    public readonly text: string
+  ) {}
+}
+
+/** GeoJSON geometry type names, indexed by WKB geometry type code */
+const WKB_GEOMETRY_TYPES = [
+  null,
+  "Point",
+  "LineString",
+  "Polygon",
+  "MultiPoint",
+  "MultiLineString",
+  "MultiPolygon",
+  "GeometryCollection",
+] as const;
+
+/** EWKB flag marking that an SRID follows the geometry type */
+const EWKB_SRID_FLAG = 0x20000000;
+
+const WKT_PATTERN =
+  /^\s*(?:SRID=(-?\d+)\s*;\s*)?([A-Za-z]+?)\s*(?:ZM|Z|M)?\s*(?:\(|EMPTY\s*$)/i;
+
+/**
+ * Parses a string geometry input into GeoJSON or a well-known geometry.
+ *
+ * Strings starting with `{` are GeoJSON; `SRID=<n>;` starts EWKT; strings of
+ * hex digits are WKB; anything else is treated as WKT. The content is not
+ * validated here; see `validateWellKnownGeometry`.
+ *
+ * @param value - The string input
+ * @returns The parsed GeoJSON object, or a `WellKnownGeometry`
+ * @throws {SyntaxError} If the string looks like GeoJSON but is not JSON
+ *
+ * @example
+ * ```ts
+ * parseGeometryInput("SRID=4326;POINT(30 10)");
+ * // Returns: new WellKnownGeometry("ewkt", "SRID=4326;POINT(30 10)")
+ * ```
+ */
+export function parseGeometryInput(value: string): any {
+  const text = value.trim();
+  if (text.startsWith("{")) {
+    return JSON.parse(text);
+  }
+  if (/^SRID=/i.test(text)) {
+    return new WellKnownGeometry("ewkt", text);
+  }
+  if (/^[0-9a-f]+$/i.test(text)) {
+    return new WellKnownGeometry("wkb", text);
+  }
+  return new WellKnownGeometry("wkt", text);
+}
+
+/**
+ * Reads the header of hex-encoded (E)WKB.
+ *
+ * @returns The geometry type code (with flags) and byte order, or null if the
+ * header is incomplete
+ */
+function readWKBHeader(
+  hex: string
+): { type: number; littleEndian: boolean } | null {
+  if (hex.length < 10) {
+    return null;
+  }
+  const byteOrder = parseInt(hex.slice(0, 2), 16);
+  if (byteOrder !== 0 && byteOrder !== 1) {
+    return null;
+  }
+  const littleEndian = byteOrder === 1;
+  return { type: readUInt32(hex.slice(2, 10), littleEndian), littleEndian };
+}
+
+function readUInt32(hex: string, littleEndian: boolean): number {
+  const bytes = hex.match(/../g)!;
+  return parseInt((littleEndian ? bytes.reverse() : bytes).join(""), 16) >>> 0;
+}
+
+function writeUInt32(value: number, littleEndian: boolean): string {
+  const bytes = (value >>> 0).toString(16).padStart(8, "0").match(/../g)!;
+  return (littleEndian ? bytes.reverse() : bytes).join("");
+}
+
+/**
+ * Returns the GeoJSON type name of a well-known geometry, or null if it
+ * cannot be determined.
+ *
+ * @example
+ * ```ts
+ * wellKnownGeometryType(new WellKnownGeometry("wkt", "LINESTRING(0 0, 1 1)"));
+ * // Returns: "LineString"
+ * ```
+ */
+export function wellKnownGeometryType(
+  geometry: WellKnownGeometry
+): string | null {
+  if (geometry.format === "wkb") {
+    const header = readWKBHeader(geometry.text);
+    if (!header) {
+      return null;
+    }
+    // ISO WKB encodes dimensions as thousands; EWKB uses the high bits
+    return WKB_GEOMETRY_TYPES[(header.type & 0x0fffffff) % 1000] ?? null;
+  }
+  const match = WKT_PATTERN.exec(geometry.text);
+  if (!match) {
+    return null;
+  }
+  const name = match[2].toUpperCase();
+  return (
+    WKB_GEOMETRY_TYPES.find((type) => type?.toUpperCase() === name) ?? null
+  );
+}
+
+/**
+ * Returns the SRID embedded in a well-known geometry, if any.
+ */
+export function wellKnownGeometrySRID(
+  geometry: WellKnownGeometry
+): number | null {
+  if (geometry.format === "wkb") {
+    const header = readWKBHeader(geometry.text);
+    if (
+      !header ||
+      !(header.type & EWKB_SRID_FLAG) ||
+      geometry.text.length < 18
+    ) {
+      return null;
+    }
+    return readUInt32(geometry.text.slice(10, 18), header.littleEndian);
+  }
+  const match = WKT_PATTERN.exec(geometry.text);
+  return match?.[1] != null ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Embeds an SRID in a well-known geometry that does not have one, converting
+ * WKT to EWKT and WKB to EWKB.
+ *
+ * @example
+ * ```ts
+ * wellKnownGeometryWithSRID(new WellKnownGeometry("wkt", "POINT(30 10)"), 4326);
+ * // Returns: new WellKnownGeometry("ewkt", "SRID=4326;POINT(30 10)")
+ * ```
+ */
+export function wellKnownGeometryWithSRID(
+  geometry: WellKnownGeometry,
+  srid: number
+): WellKnownGeometry {
+  if (wellKnownGeometrySRID(geometry) != null) {
+    return geometry;
+  }
+  if (geometry.format === "wkb") {
+    const header = readWKBHeader(geometry.text);
+    if (!header) {
+      return geometry;
+    }
+    const { type, littleEndian } = header;
+    return new WellKnownGeometry(
+      "wkb",
+      geometry.text.slice(0, 2) +
+        writeUInt32(type | EWKB_SRID_FLAG, littleEndian) +
+        writeUInt32(srid, littleEndian) +
+        geometry.text.slice(10)
+    );
+  }
+  return new WellKnownGeometry("ewkt", `SRID=${srid};${geometry.text}`);
+}